@@ -0,0 +1,18 @@
+import { createFunctionHandle } from "convex/server";
+import type { MutationCallbacks } from "./types.js";
+
+/**
+ * Resolve configured mutation callbacks to function handles
+ * The component calls these handles inside its own mutations
+ */
+export async function createCallbackHandles(callbacks: MutationCallbacks = {}) {
+  const { onSubscriptionChanged, onCustomerChanged } = callbacks;
+  return {
+    onSubscriptionChanged: onSubscriptionChanged
+      ? await createFunctionHandle(onSubscriptionChanged)
+      : undefined,
+    onCustomerChanged: onCustomerChanged
+      ? await createFunctionHandle(onCustomerChanged)
+      : undefined,
+  };
+}
@@ -0,0 +1,163 @@
+import { ConvexError } from "convex/values";
+import type { api } from "../component/_generated/api.js";
+import type { RunMutationCtx, RunQueryCtx, UseApi } from "../component/util.js";
+import type { CreditTransaction } from "../validators.js";
+import type { ProductConfig } from "./types.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Thrown by `spendCredits` when the user's balance is too low
+ * The data is sent to the client, so the UI can prompt for a top-up
+ */
+export class InsufficientCreditsError extends ConvexError<{
+  code: "INSUFFICIENT_CREDITS";
+  required: number;
+  balance: number;
+}> {
+  readonly required: number;
+  readonly balance: number;
+
+  constructor(required: number, balance: number) {
+    super({ code: "INSUFFICIENT_CREDITS", required, balance });
+    this.name = "InsufficientCreditsError";
+    this.required = required;
+    this.balance = balance;
+  }
+}
+
+/**
+ * Prepaid credits wallet backed by the component's credit ledger
+ */
+export class CreditMethods<Products extends Record<string, ProductConfig>> {
+  private readonly component: UseApi<typeof api>;
+  private readonly products: Products;
+
+  constructor(component: UseApi<typeof api>, products: Products) {
+    this.component = component;
+    this.products = products;
+  }
+
+  /**
+   * Get the user's spendable credit balance
+   */
+  async getCreditBalance(ctx: RunQueryCtx, { userId }: { userId: string }) {
+    return await ctx.runQuery(this.component.lib.getCreditBalance, { userId });
+  }
+
+  /**
+   * List the user's credit grants, debits and expirations, newest first
+   */
+  async listCreditTransactions(
+    ctx: RunQueryCtx,
+    { userId, limit }: { userId: string; limit?: number }
+  ): Promise<CreditTransaction[]> {
+    return (await ctx.runQuery(this.component.lib.listCreditTransactions, {
+      userId,
+      limit,
+    })) as CreditTransaction[];
+  }
+
+  /**
+   * Add credits to the user's balance (e.g., a promotional bonus)
+   * Reusing an idempotency key grants the credits only once
+   */
+  async grantCredits(
+    ctx: RunMutationCtx,
+    {
+      userId,
+      amount,
+      reason,
+      idempotencyKey,
+      expiresAt,
+    }: {
+      userId: string;
+      amount: number;
+      reason: string;
+      idempotencyKey?: string;
+      expiresAt?: number;
+    }
+  ) {
+    return await ctx.runMutation(this.component.lib.grantCredits, {
+      userId,
+      amount,
+      reason,
+      sourceId: idempotencyKey,
+      expiresAt,
+    });
+  }
+
+  /**
+   * Spend credits in one transaction
+   * Throws an `InsufficientCreditsError` instead of letting the balance go negative;
+   * reusing an idempotency key spends the credits only once
+   */
+  async spendCredits(
+    ctx: RunMutationCtx,
+    {
+      userId,
+      amount,
+      reason,
+      idempotencyKey,
+    }: {
+      userId: string;
+      amount: number;
+      reason: string;
+      idempotencyKey?: string;
+    }
+  ) {
+    const result = await ctx.runMutation(this.component.lib.spendCredits, {
+      userId,
+      amount,
+      reason,
+      sourceId: idempotencyKey,
+    });
+    if (!result.allowed) {
+      throw new InsufficientCreditsError(amount, result.balance);
+    }
+    return { balance: result.balance };
+  }
+
+  /**
+   * Grant the credits a configured product declares for a purchase
+   * Keyed by the purchase, so the checkout session and its payment intent grant once
+   * @internal
+   */
+  async grantProductCredits(
+    ctx: RunMutationCtx,
+    {
+      userId,
+      productSlug,
+      quantity,
+      purchaseId,
+    }: {
+      userId: string;
+      productSlug: string;
+      quantity: number;
+      purchaseId: string;
+    }
+  ) {
+    const config = this.products[productSlug]?.credits;
+    if (config === undefined) {
+      return { granted: false };
+    }
+    const { amount, expiresAfterDays } =
+      typeof config === "number"
+        ? { amount: config, expiresAfterDays: undefined }
+        : config;
+    if (!(amount * quantity > 0)) {
+      return { granted: false };
+    }
+
+    return await ctx.runMutation(this.component.lib.grantCredits, {
+      userId,
+      amount: amount * quantity,
+      reason: `purchase:${productSlug}`,
+      sourceId: `${purchaseId}:${productSlug}`,
+      expiresAt:
+        expiresAfterDays === undefined
+          ? undefined
+          : Date.now() + expiresAfterDays * DAY_MS,
+    });
+  }
+}
@@ -2,6 +2,8 @@ import type Stripe from "stripe";
 import type { api } from "../component/_generated/api.js";
 import type { RunActionCtx, RunQueryCtx, UseApi } from "../component/util.js";
 import type { StripeCustomer } from "../validators.js";
+import { createCallbackHandles } from "./callbacks.js";
+import type { MutationCallbacks } from "./types.js";
 
 /**
  * Customer-related methods for the Stripe component
@@ -9,10 +11,16 @@ import type { StripeCustomer } from "../validators.js";
 export class CustomerMethods {
   private readonly component: UseApi<typeof api>;
   private readonly stripe: Stripe;
+  private readonly mutationCallbacks?: MutationCallbacks;
 
-  constructor(component: UseApi<typeof api>, stripe: Stripe) {
+  constructor(
+    component: UseApi<typeof api>,
+    stripe: Stripe,
+    mutationCallbacks?: MutationCallbacks
+  ) {
     this.component = component;
     this.stripe = stripe;
+    this.mutationCallbacks = mutationCallbacks;
   }
 
   /**
@@ -48,6 +56,9 @@ export class CustomerMethods {
     });
 
     // Store in Convex
+    const { onCustomerChanged } = await createCallbackHandles(
+      this.mutationCallbacks
+    );
     await ctx.runMutation(this.component.lib.upsertCustomer, {
       stripeCustomerId: stripeCustomer.id,
       userId,
@@ -55,7 +66,9 @@ export class CustomerMethods {
       name: stripeCustomer.name || name,
       currency: stripeCustomer.currency || undefined,
       created: stripeCustomer.created,
+      syncedAt: Math.floor(Date.now() / 1000),
       metadata: stripeCustomer.metadata,
+      onChange: onCustomerChanged,
     });
 
     const customer = await this.getCustomerByUserId(ctx, { userId });
@@ -65,6 +78,22 @@ export class CustomerMethods {
     return customer;
   }
 
+  /**
+   * Get the user's customer, creating it in Stripe if it does not exist yet
+   */
+  async getOrCreateCustomer(
+    ctx: RunActionCtx,
+    { userId, email, name }: { userId: string; email: string; name?: string }
+  ): Promise<StripeCustomer> {
+    const customer =
+      (await this.getCustomerByUserId(ctx, { userId })) ??
+      (await this.createCustomer(ctx, { userId, email, name }));
+    if (!customer) {
+      throw new Error("Failed to create customer");
+    }
+    return customer;
+  }
+
   /**
    * Sync all customers from Stripe to Convex
    * This is useful when migrating from another system or backfilling data
@@ -75,6 +104,7 @@ export class CustomerMethods {
   ) {
     await ctx.runAction(this.component.lib.syncCustomers, {
       stripeSecretKey,
+      ...(await createCallbackHandles(this.mutationCallbacks)),
     });
   }
 }
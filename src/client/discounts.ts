@@ -0,0 +1,229 @@
+import { ConvexError } from "convex/values";
+import Stripe from "stripe";
+import type { api } from "../component/_generated/api.js";
+import type { RunActionCtx, RunQueryCtx, UseApi } from "../component/util.js";
+import type { Coupon } from "../validators.js";
+import { extractId } from "./stripeUtils.js";
+import type { ProductConfig, StripeConfig } from "./types.js";
+
+/**
+ * Why a promotion code cannot be applied
+ */
+export type PromotionCodeErrorReason =
+  | "not_found"
+  | "inactive"
+  | "expired"
+  | "max_redemptions"
+  | "not_eligible"
+  | "not_applicable";
+
+/**
+ * Thrown when a promotion code cannot be applied
+ * The data is sent to the client, so the UI can show the reason next to the code input
+ */
+export class PromotionCodeError extends ConvexError<{
+  code: "INVALID_PROMOTION_CODE";
+  reason: PromotionCodeErrorReason;
+  message: string;
+}> {
+  readonly reason: PromotionCodeErrorReason;
+
+  constructor(reason: PromotionCodeErrorReason, message: string) {
+    super({ code: "INVALID_PROMOTION_CODE", reason, message });
+    this.name = "PromotionCodeError";
+    this.reason = reason;
+  }
+}
+
+type DiscountSubscription = {
+  stripeSubscriptionId: string;
+  stripeCustomerId: string;
+  discounts?: {
+    stripeDiscountId: string;
+    stripeCouponId?: string;
+    stripePromotionCodeId?: string;
+    start?: number;
+    end?: number;
+  }[];
+};
+
+/**
+ * Look up a customer-entered promotion code in Stripe
+ * Throws a `PromotionCodeError` if the code cannot be redeemed by the customer
+ */
+export async function resolvePromotionCode(
+  stripe: Stripe,
+  code: string,
+  { stripeCustomerId }: { stripeCustomerId?: string } = {}
+) {
+  const trimmed = code.trim();
+  // Stripe matches codes case-insensitively
+  const { data } = trimmed
+    ? await stripe.promotionCodes.list({
+        code: trimmed,
+        limit: 10,
+        expand: ["data.promotion.coupon"],
+      })
+    : { data: [] };
+  const promotionCode =
+    data.find((candidate) => candidate.active) ?? data[0] ?? null;
+
+  if (!promotionCode) {
+    throw new PromotionCodeError("not_found", "This code does not exist");
+  }
+  if (!promotionCode.active) {
+    throw new PromotionCodeError("inactive", "This code is no longer active");
+  }
+  const coupon = promotionCode.promotion.coupon;
+  if (
+    (promotionCode.expires_at !== null &&
+      promotionCode.expires_at <= Math.floor(Date.now() / 1000)) ||
+    (typeof coupon === "object" && coupon?.valid === false)
+  ) {
+    throw new PromotionCodeError("expired", "This code has expired");
+  }
+  if (
+    promotionCode.max_redemptions !== null &&
+    promotionCode.times_redeemed >= promotionCode.max_redemptions
+  ) {
+    throw new PromotionCodeError(
+      "max_redemptions",
+      "This code has reached its redemption limit"
+    );
+  }
+  const restrictedTo = extractId(promotionCode.customer);
+  if (restrictedTo && restrictedTo !== stripeCustomerId) {
+    throw new PromotionCodeError(
+      "not_eligible",
+      "This code is not available for your account"
+    );
+  }
+  return promotionCode;
+}
+
+/**
+ * Coupons, promotion codes and the discounts on the user's subscription
+ */
+export class DiscountMethods<Products extends Record<string, ProductConfig>> {
+  private readonly component: UseApi<typeof api>;
+  private readonly stripe: Stripe;
+  private readonly config: StripeConfig<Products>;
+  private readonly getCurrentSubscription: (
+    ctx: RunQueryCtx,
+    args: { userId: string }
+  ) => Promise<DiscountSubscription | null>;
+
+  constructor(
+    component: UseApi<typeof api>,
+    stripe: Stripe,
+    config: StripeConfig<Products>,
+    getCurrentSubscription: (
+      ctx: RunQueryCtx,
+      args: { userId: string }
+    ) => Promise<DiscountSubscription | null>
+  ) {
+    this.component = component;
+    this.stripe = stripe;
+    this.config = config;
+    this.getCurrentSubscription = getCurrentSubscription;
+  }
+
+  /**
+   * Discounts on the user's current subscription, with their coupons
+   */
+  async getSubscriptionDiscounts(
+    ctx: RunQueryCtx,
+    { userId }: { userId: string }
+  ) {
+    const subscription = await this.getCurrentSubscription(ctx, { userId });
+    if (!subscription) {
+      return [];
+    }
+
+    return await Promise.all(
+      (subscription.discounts ?? []).map(async (discount) => {
+        const coupon = discount.stripeCouponId
+          ? ((await ctx.runQuery(this.component.lib.getCouponByStripeId, {
+              stripeCouponId: discount.stripeCouponId,
+            })) as Coupon | null)
+          : null;
+        const promotionCode = discount.stripePromotionCodeId
+          ? await ctx.runQuery(this.component.lib.getPromotionCodeByStripeId, {
+              stripePromotionCodeId: discount.stripePromotionCodeId,
+            })
+          : null;
+        return {
+          stripeDiscountId: discount.stripeDiscountId,
+          coupon,
+          code: promotionCode?.code as string | undefined,
+          start: discount.start,
+          end: discount.end,
+        };
+      })
+    );
+  }
+
+  /**
+   * Apply a customer-entered promotion code to the current subscription
+   * Replaces any discount already on the subscription; throws a
+   * `PromotionCodeError` when the code cannot be applied
+   */
+  async applyPromotionCode(ctx: RunActionCtx, { code }: { code: string }) {
+    const { userId } = await this.config.getUserInfo(ctx);
+
+    const subscription = await this.getCurrentSubscription(ctx, { userId });
+    if (!subscription) {
+      throw new Error("No active subscription found");
+    }
+
+    const promotionCode = await resolvePromotionCode(this.stripe, code, {
+      stripeCustomerId: subscription.stripeCustomerId,
+    });
+    try {
+      await this.stripe.subscriptions.update(
+        subscription.stripeSubscriptionId,
+        { discounts: [{ promotion_code: promotionCode.id }] }
+      );
+    } catch (error) {
+      // Restrictions Stripe checks itself (e.g., first-time customers, minimum amount)
+      if (error instanceof Stripe.errors.StripeInvalidRequestError) {
+        throw new PromotionCodeError("not_applicable", error.message);
+      }
+      throw error;
+    }
+
+    return {
+      stripePromotionCodeId: promotionCode.id,
+      stripeCouponId: extractId(promotionCode.promotion.coupon),
+    };
+  }
+
+  /**
+   * Remove every discount from the current subscription
+   */
+  async removeDiscount(ctx: RunActionCtx) {
+    const { userId } = await this.config.getUserInfo(ctx);
+
+    const subscription = await this.getCurrentSubscription(ctx, { userId });
+    if (!subscription) {
+      throw new Error("No active subscription found");
+    }
+    if (!subscription.discounts?.length) {
+      throw new Error("Subscription has no discount");
+    }
+
+    await this.stripe.subscriptions.update(subscription.stripeSubscriptionId, {
+      discounts: "",
+    });
+  }
+
+  /**
+   * Sync coupons and promotion codes from Stripe to Convex
+   */
+  async syncCoupons(
+    ctx: RunActionCtx,
+    { stripeSecretKey }: { stripeSecretKey: string }
+  ) {
+    await ctx.runAction(this.component.lib.syncCoupons, { stripeSecretKey });
+  }
+}
@@ -0,0 +1,136 @@
+import { ConvexError } from "convex/values";
+import type { api } from "../component/_generated/api.js";
+import type { RunActionCtx, RunQueryCtx, UseApi } from "../component/util.js";
+import {
+  type ActiveEntitlement,
+  CURRENT_SUBSCRIPTION_STATUSES,
+} from "../validators.js";
+import { resolveProductSlug } from "./products.js";
+import type { ProductConfig, ProductFeature } from "./types.js";
+
+/**
+ * Thrown by `requireFeature` when the user is not entitled to a feature
+ * The data is sent to the client, so the UI can prompt for an upgrade
+ */
+export class FeatureNotEntitledError extends ConvexError<{
+  code: "FEATURE_NOT_ENTITLED";
+  feature: string;
+}> {
+  readonly feature: string;
+
+  constructor(feature: string) {
+    super({ code: "FEATURE_NOT_ENTITLED", feature });
+    this.name = "FeatureNotEntitledError";
+    this.feature = feature;
+  }
+}
+
+/**
+ * Entitlement checks based on the features declared in the product config
+ * Only needs `runQuery`, so checks work in queries, mutations and actions
+ */
+export class EntitlementMethods<
+  Products extends Record<string, ProductConfig>,
+> {
+  private readonly component: UseApi<typeof api>;
+  private readonly products: Products;
+
+  constructor(component: UseApi<typeof api>, products: Products) {
+    this.component = component;
+    this.products = products;
+  }
+
+  /**
+   * Get the configured products and features the user is entitled to
+   */
+  async getEntitlements(ctx: RunQueryCtx, { userId }: { userId: string }) {
+    const subscriptions = await ctx.runQuery(
+      this.component.lib.listUserSubscriptions,
+      { userId }
+    );
+
+    const products = new Set<keyof Products & string>();
+    const features = new Set<ProductFeature<Products>>();
+
+    for (const subscription of subscriptions) {
+      if (!CURRENT_SUBSCRIPTION_STATUSES.includes(subscription.status)) {
+        continue;
+      }
+      const slug = await resolveProductSlug(
+        ctx,
+        this.component,
+        this.products,
+        subscription
+      );
+      if (!slug) {
+        continue;
+      }
+      products.add(slug);
+      for (const feature of this.products[slug]?.features ?? []) {
+        features.add(feature as ProductFeature<Products>);
+      }
+    }
+
+    return { products: [...products], features: [...features] };
+  }
+
+  /**
+   * Whether the user is entitled to a feature
+   */
+  async hasFeature(
+    ctx: RunQueryCtx,
+    { userId, feature }: { userId: string; feature: ProductFeature<Products> }
+  ) {
+    const { features } = await this.getEntitlements(ctx, { userId });
+    return features.includes(feature);
+  }
+
+  /**
+   * Throw a `FeatureNotEntitledError` unless the user is entitled to a feature
+   */
+  async requireFeature(
+    ctx: RunQueryCtx,
+    { userId, feature }: { userId: string; feature: ProductFeature<Products> }
+  ) {
+    if (!(await this.hasFeature(ctx, { userId, feature }))) {
+      throw new FeatureNotEntitledError(feature);
+    }
+  }
+
+  /**
+   * List the features a user is entitled to through Stripe Entitlements
+   */
+  async listActiveEntitlements(
+    ctx: RunQueryCtx,
+    { userId }: { userId: string }
+  ): Promise<ActiveEntitlement[]> {
+    return (await ctx.runQuery(this.component.lib.listActiveEntitlements, {
+      userId,
+    })) as ActiveEntitlement[];
+  }
+
+  /**
+   * Whether the user has an active Stripe entitlement for a feature lookup key
+   */
+  async hasEntitlement(
+    ctx: RunQueryCtx,
+    { userId, lookupKey }: { userId: string; lookupKey: string }
+  ) {
+    const entitlements = await this.listActiveEntitlements(ctx, { userId });
+    return entitlements.some(
+      (entitlement) => entitlement.lookupKey === lookupKey
+    );
+  }
+
+  /**
+   * Sync features, product features and active entitlements from Stripe
+   */
+  async syncEntitlements(
+    ctx: RunActionCtx,
+    { stripeSecretKey }: { stripeSecretKey: string }
+  ) {
+    await ctx.runAction(this.component.lib.syncEntitlements, {
+      stripeSecretKey,
+    });
+  }
+}
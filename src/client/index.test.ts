@@ -1,7 +1,21 @@
-import { describe, expect, it } from "vitest";
-import type { api } from "../component/_generated/api.js";
+import { createFunctionHandle, httpRouter } from "convex/server";
+import { convexTest } from "convex-test";
+import { describe, expect, expectTypeOf, it, vi } from "vitest";
+import { api, internal } from "../component/_generated/api.js";
+import schema from "../component/schema.js";
 import type { UseApi } from "../component/util.js";
-import { StripeComponent } from "./index.js";
+import {
+  FeatureNotEntitledError,
+  PromotionCodeError,
+  StripeComponent,
+} from "./index.js";
+import { upsertStripeSubscription } from "./sync.js";
+
+type GlobImportMeta = ImportMeta & {
+  glob: (pattern: string) => Record<string, () => Promise<unknown>>;
+};
+
+const modules = (import.meta as GlobImportMeta).glob("../component/**/*.ts");
 
 describe("StripeComponent", () => {
   it("constructs with minimal config", () => {
@@ -19,4 +33,1086 @@ describe("StripeComponent", () => {
     expect(instance).toBeInstanceOf(StripeComponent);
     expect(typeof instance.api()).toBe("object");
   });
+
+  it("registers a route per webhook endpoint", () => {
+    const component = {} as unknown as UseApi<typeof api>;
+    const stripe = {} as unknown as import("stripe").Stripe;
+    const http = httpRouter();
+
+    const instance = new StripeComponent(component, {
+      getUserInfo: async () => ({ userId: "user_1", email: "u@example.com" }),
+      stripeSecretKey: "sk_test_123",
+      webhookSecret: ["whsec_new", "whsec_old"],
+      stripe,
+      products: {},
+    });
+    instance.registerRoutes(http, {
+      endpoints: [
+        { name: "platform", path: "/stripe/webhook", secrets: "whsec_a" },
+        { name: "connect", path: "/stripe/connect", secrets: ["whsec_b"] },
+      ],
+    });
+
+    expect(http.getRoutes().map(([path]) => path)).toEqual([
+      "/stripe/connect",
+      "/stripe/webhook",
+    ]);
+  });
+
+  it("runs typed and catch-all handlers for any event type", async () => {
+    const component = {} as unknown as UseApi<typeof api>;
+    const stripe = {} as unknown as import("stripe").Stripe;
+    const calls: string[] = [];
+
+    const instance = new StripeComponent(component, {
+      getUserInfo: async () => ({ userId: "user_1", email: "u@example.com" }),
+      stripeSecretKey: "sk_test_123",
+      webhookSecret: "whsec_test",
+      stripe,
+      products: {},
+    })
+      .on("charge.refunded", async (_ctx, event) => {
+        expectTypeOf(event.data.object.object).toEqualTypeOf<"charge">();
+        calls.push(`refunded:${event.id}`);
+      })
+      .on("charge.refunded", async () => {
+        calls.push("refunded:second");
+      })
+      .onAnyEvent(async (_ctx, event) => {
+        calls.push(`any:${event.type}`);
+      });
+
+    await instance.processWebhookEvent(
+      {} as unknown as Parameters<typeof instance.processWebhookEvent>[0],
+      {
+        payload: JSON.stringify({
+          id: "evt_1",
+          type: "charge.refunded",
+          data: { object: { object: "charge" } },
+        }),
+      }
+    );
+
+    expect(calls).toEqual([
+      "refunded:evt_1",
+      "refunded:second",
+      "any:charge.refunded",
+    ]);
+  });
+
+  it("emits trial_ending with whether a payment method is on file", async () => {
+    const component = {
+      lib: {
+        getCustomerByStripeId: "getCustomerByStripeId",
+        listPaymentMethods: "listPaymentMethods",
+        upsertSubscription: "upsertSubscription",
+      },
+    } as unknown as UseApi<typeof api>;
+    const stripe = {} as unknown as import("stripe").Stripe;
+    const ctx = {
+      runQuery: async (reference: string) =>
+        reference === "getCustomerByStripeId"
+          ? { _id: "customer_1", userId: "user_1" }
+          : [],
+      runMutation: async () => ({ id: "subscription_1", applied: true }),
+    } as unknown as Parameters<typeof instance.processWebhookEvent>[0];
+    const events: { trialEnd: number; hasPaymentMethod: boolean }[] = [];
+
+    const instance = new StripeComponent(component, {
+      getUserInfo: async () => ({ userId: "user_1", email: "u@example.com" }),
+      stripeSecretKey: "sk_test_123",
+      webhookSecret: "whsec_test",
+      stripe,
+      products: {},
+    }).onSubscriptionLifecycle("trial_ending", async (_ctx, event) => {
+      events.push({
+        trialEnd: event.trialEnd,
+        hasPaymentMethod: event.hasPaymentMethod,
+      });
+    });
+
+    await instance.processWebhookEvent(ctx, {
+      payload: JSON.stringify({
+        id: "evt_1",
+        type: "customer.subscription.trial_will_end",
+        created: 1_700_000_000,
+        data: {
+          object: {
+            id: "sub_1",
+            customer: "cus_1",
+            status: "trialing",
+            cancel_at_period_end: false,
+            created: 1_699_000_000,
+            trial_start: 1_699_000_000,
+            trial_end: 1_700_259_200,
+            default_payment_method: null,
+            items: { data: [] },
+          },
+        },
+      }),
+    });
+
+    expect(events).toEqual([
+      { trialEnd: 1_700_259_200, hasPaymentMethod: false },
+    ]);
+  });
+
+  it("treats a trialing subscription as the current plan", async () => {
+    const t = convexTest(schema, modules);
+    const { id: customerId } = await t.mutation(api.lib.upsertCustomer, {
+      stripeCustomerId: "cus_1",
+      userId: "user_1",
+      email: "u@example.com",
+      created: 1_700_000_000,
+    });
+    await t.mutation(api.lib.upsertSubscription, {
+      stripeSubscriptionId: "sub_1",
+      customerId,
+      stripeCustomerId: "cus_1",
+      userId: "user_1",
+      status: "trialing",
+      productSlug: "pro",
+      quantity: 3,
+      currency: "usd",
+      currentPeriodStart: 1_700_000_000,
+      currentPeriodEnd: 1_701_209_600,
+      cancelAtPeriodEnd: false,
+      trialStart: 1_700_000_000,
+      trialEnd: 1_701_209_600,
+      created: 1_700_000_000,
+      syncedAt: 1_700_000_000,
+      source: "webhook",
+    });
+
+    const updates: unknown[] = [];
+    const stripe = {
+      subscriptions: {
+        update: async (...args: unknown[]) => updates.push(args),
+      },
+    } as unknown as import("stripe").Stripe;
+    const ctx = {
+      runQuery: (reference: never, args: never) => t.query(reference, args),
+      runMutation: (reference: never, args: never) =>
+        t.mutation(reference, args),
+    } as unknown as Parameters<typeof instance.cancelSubscription>[0];
+
+    const instance = new StripeComponent(api as unknown as UseApi<typeof api>, {
+      getUserInfo: async () => ({
+        userId: "user_1",
+        email: "u@example.com",
+      }),
+      stripeSecretKey: "sk_test_123",
+      webhookSecret: "whsec_test",
+      stripe,
+      products: {
+        pro: {
+          productId: "prod_pro",
+          features: ["export"],
+          limits: { projects: 5 },
+        },
+      },
+    });
+
+    expect(
+      await instance.getCurrentSubscription(ctx, { userId: "user_1" })
+    ).toMatchObject({ stripeSubscriptionId: "sub_1", status: "trialing" });
+    expect(
+      await instance.hasFeature(ctx, { userId: "user_1", feature: "export" })
+    ).toBe(true);
+    expect(
+      await instance.checkLimit(ctx, { userId: "user_1", limit: "projects" })
+    ).toMatchObject({ allowed: true, max: 5 });
+    expect(await instance.getSeats(ctx, { userId: "user_1" })).toMatchObject({
+      stripeSubscriptionId: "sub_1",
+      quantity: 3,
+    });
+    expect(
+      await instance.getCurrentPeriodUsage(ctx, {
+        userId: "user_1",
+        meter: "api_calls",
+      })
+    ).toEqual({ value: 0, periodStart: 1_700_000_000 });
+
+    await instance.pauseSubscription(ctx, {});
+    await instance.cancelSubscription(ctx);
+    expect(updates).toEqual([
+      ["sub_1", { pause_collection: { behavior: "void" } }],
+      ["sub_1", { cancel_at_period_end: true }],
+    ]);
+  });
+
+  it("sends each claimed batch of meter events in one stream request", async () => {
+    vi.useFakeTimers();
+    const t = convexTest(schema, modules);
+    await t.mutation(api.lib.upsertCustomer, {
+      stripeCustomerId: "cus_1",
+      userId: "user_1",
+      email: "u@example.com",
+      created: 1_700_000_000,
+    });
+
+    const requests: unknown[] = [];
+    let streamError: Error | undefined;
+    const stripe = {
+      v2: {
+        billing: {
+          meterEventSession: {
+            create: async () => ({ authentication_token: "ek_session" }),
+          },
+          meterEventStream: {
+            create: async (...args: unknown[]) => {
+              if (streamError) {
+                throw streamError;
+              }
+              requests.push(args);
+            },
+          },
+        },
+      },
+    } as unknown as import("stripe").Stripe;
+    const ctx = {
+      runQuery: (reference: never, args: never) => t.query(reference, args),
+      runMutation: (reference: never, args: never) =>
+        t.mutation(reference, args),
+    } as unknown as Parameters<typeof instance.flushMeterEvents>[0];
+
+    const instance = new StripeComponent(api as unknown as UseApi<typeof api>, {
+      getUserInfo: async () => ({ userId: "user_1", email: "u@example.com" }),
+      stripeSecretKey: "sk_test_123",
+      webhookSecret: "whsec_test",
+      stripe,
+      products: {},
+    });
+
+    const flusher = await t.run(
+      async () => await createFunctionHandle(internal.lib.dispatchWebhookEvent)
+    );
+    const record = (identifier: string) =>
+      t.mutation(api.lib.recordMeterEvent, {
+        userId: "user_1",
+        eventName: "api_requests",
+        value: 10,
+        identifier,
+        timestamp: 1_700_000_100,
+        flusher,
+      });
+    await record("usage_1");
+    await record("usage_2");
+
+    // Move the clock without running the scheduled flusher
+    vi.setSystemTime(Date.now() + 5000);
+    expect(await instance.flushMeterEvents(ctx)).toEqual({
+      sent: 2,
+      failed: 0,
+    });
+    expect(requests).toEqual([
+      [
+        {
+          events: ["usage_1", "usage_2"].map((identifier) => ({
+            event_name: "api_requests",
+            identifier,
+            timestamp: "2023-11-14T22:15:00.000Z",
+            payload: { stripe_customer_id: "cus_1", value: "10" },
+          })),
+        },
+        { apiKey: "ek_session" },
+      ],
+    ]);
+
+    // A rejected request fails the whole batch, which is retried later
+    streamError = new Error("rate limited");
+    await record("usage_3");
+    vi.setSystemTime(Date.now() + 5000);
+    expect(await instance.flushMeterEvents(ctx)).toEqual({
+      sent: 0,
+      failed: 1,
+    });
+    const stored = await t.run(
+      async (runCtx) => await runCtx.db.query("meterEvents").collect()
+    );
+    expect(
+      stored.map(({ identifier, status }) => ({ identifier, status }))
+    ).toEqual([
+      { identifier: "usage_1", status: "sent" },
+      { identifier: "usage_2", status: "sent" },
+      { identifier: "usage_3", status: "pending" },
+    ]);
+    vi.useRealTimers();
+  });
+
+  it("derives entitlements from configured product features", async () => {
+    const component = {
+      lib: {
+        listUserSubscriptions: "listUserSubscriptions",
+        getPriceByStripeId: "getPriceByStripeId",
+      },
+    } as unknown as UseApi<typeof api>;
+    const stripe = {} as unknown as import("stripe").Stripe;
+    const ctx = {
+      runQuery: async (reference: string) =>
+        reference === "listUserSubscriptions"
+          ? [
+              { status: "active", stripePriceId: "price_pro" },
+              { status: "canceled", stripePriceId: "price_team" },
+            ]
+          : { stripeProductId: "prod_pro" },
+    } as unknown as Parameters<typeof instance.hasFeature>[0];
+
+    const instance = new StripeComponent(component, {
+      getUserInfo: async () => ({ userId: "user_1", email: "u@example.com" }),
+      stripeSecretKey: "sk_test_123",
+      webhookSecret: "whsec_test",
+      stripe,
+      products: {
+        pro: { productId: "prod_pro", features: ["export", "api"] },
+        team: { productId: "prod_team", features: ["sso"] },
+      },
+    });
+
+    expectTypeOf<
+      Parameters<typeof instance.hasFeature>[1]["feature"]
+    >().toEqualTypeOf<"export" | "api" | "sso">();
+    expect(await instance.getEntitlements(ctx, { userId: "user_1" })).toEqual({
+      products: ["pro"],
+      features: ["export", "api"],
+    });
+    await expect(
+      instance.requireFeature(ctx, { userId: "user_1", feature: "sso" })
+    ).rejects.toBeInstanceOf(FeatureNotEntitledError);
+  });
+
+  it("lets the checkout options hook enforce values", async () => {
+    const component = {
+      lib: {
+        getCustomerByUserId: "getCustomerByUserId",
+        listUserSubscriptions: "listUserSubscriptions",
+      },
+    } as unknown as UseApi<typeof api>;
+    const sessions: Record<string, unknown>[] = [];
+    const stripe = {
+      checkout: {
+        sessions: {
+          create: async (params: Record<string, unknown>) => {
+            sessions.push(params);
+            return { id: "cs_1", client_secret: "cs_1_secret", url: null };
+          },
+        },
+      },
+    } as unknown as import("stripe").Stripe;
+    const ctx = {
+      runQuery: async (reference: string) =>
+        reference === "listUserSubscriptions"
+          ? []
+          : { stripeCustomerId: "cus_1" },
+    } as unknown as Parameters<typeof instance.generateCheckoutLink>[0];
+
+    const instance = new StripeComponent(component, {
+      getUserInfo: async () => ({ userId: "user_1", email: "u@example.com" }),
+      stripeSecretKey: "sk_test_123",
+      webhookSecret: "whsec_test",
+      stripe,
+      products: {},
+      checkoutOptions: async (_ctx, { userId, options }) => ({
+        ...options,
+        clientReferenceId: userId,
+        automaticTax: true,
+        trialDays: 7,
+      }),
+    });
+
+    expect(
+      await instance.generateCheckoutLink(ctx, {
+        priceIds: ["price_1"],
+        quantities: { price_1: 3 },
+        uiMode: "embedded",
+        returnUrl: "https://example.com/return?session={CHECKOUT_SESSION_ID}",
+        clientReferenceId: "someone_else",
+        automaticTax: false,
+      })
+    ).toEqual({ sessionId: "cs_1", clientSecret: "cs_1_secret" });
+    expect(sessions[0]).toMatchObject({
+      ui_mode: "embedded",
+      line_items: [{ price: "price_1", quantity: 3 }],
+      client_reference_id: "user_1",
+      automatic_tax: { enabled: true },
+      subscription_data: { trial_period_days: 7 },
+      customer_update: { address: "auto" },
+      return_url: "https://example.com/return?session={CHECKOUT_SESSION_ID}",
+      success_url: undefined,
+    });
+  });
+
+  it("collects a payment method without a purchase", async () => {
+    const t = convexTest(schema, modules);
+    await t.mutation(api.lib.upsertCustomer, {
+      stripeCustomerId: "cus_1",
+      userId: "user_1",
+      email: "u@example.com",
+      currency: "eur",
+      created: 1_700_000_000,
+    });
+
+    const sessions: Record<string, unknown>[] = [];
+    const setupIntents: Record<string, unknown>[] = [];
+    const stripe = {
+      checkout: {
+        sessions: {
+          create: async (params: Record<string, unknown>) => {
+            sessions.push(params);
+            return {
+              id: "cs_1",
+              customer: "cus_1",
+              mode: "setup",
+              status: "open",
+              payment_status: "no_payment_required",
+              url: "https://checkout.stripe.com/cs_1",
+              expires_at: 1_700_086_400,
+              created: 1_700_000_000,
+              metadata: {},
+            };
+          },
+        },
+      },
+      setupIntents: {
+        create: async (params: Record<string, unknown>) => {
+          setupIntents.push(params);
+          return { id: "seti_1", client_secret: "seti_1_secret" };
+        },
+      },
+    } as unknown as import("stripe").Stripe;
+    const ctx = {
+      runQuery: (reference: never, args: never) => t.query(reference, args),
+      runMutation: (reference: never, args: never) =>
+        t.mutation(reference, args),
+    } as unknown as Parameters<typeof instance.generateCheckoutLink>[0];
+
+    const instance = new StripeComponent(api as unknown as UseApi<typeof api>, {
+      getUserInfo: async () => ({ userId: "user_1", email: "u@example.com" }),
+      stripeSecretKey: "sk_test_123",
+      webhookSecret: "whsec_test",
+      stripe,
+      products: {},
+    });
+
+    expect(
+      await instance.generateCheckoutLink(ctx, {
+        priceIds: ["price_1"],
+        mode: "setup",
+        successUrl: "https://example.com/billing",
+        allowPromotionCodes: true,
+      })
+    ).toEqual({ sessionId: "cs_1", url: "https://checkout.stripe.com/cs_1" });
+    expect(sessions[0]).toMatchObject({
+      customer: "cus_1",
+      mode: "setup",
+      line_items: undefined,
+      currency: "eur",
+      subscription_data: undefined,
+      allow_promotion_codes: undefined,
+    });
+    const session = await t.query(api.lib.getCheckoutSession, {
+      stripeCheckoutSessionId: "cs_1",
+    });
+    expect(session).toMatchObject({ userId: "user_1", mode: "setup" });
+    expect(session?.priceIds).toBeUndefined();
+
+    expect(
+      await instance.createSetupIntent(ctx, {
+        userId: "user_1",
+        email: "u@example.com",
+      })
+    ).toEqual({ setupIntentId: "seti_1", clientSecret: "seti_1_secret" });
+    expect(setupIntents).toEqual([
+      {
+        customer: "cus_1",
+        usage: "off_session",
+        automatic_payment_methods: { enabled: true },
+        metadata: { userId: "user_1" },
+      },
+    ]);
+  });
+
+  it("makes the payment method saved by a setup intent the default", async () => {
+    const t = convexTest(schema, modules);
+    const { id: customerId } = await t.mutation(api.lib.upsertCustomer, {
+      stripeCustomerId: "cus_1",
+      userId: "user_1",
+      email: "u@example.com",
+      defaultPaymentMethodId: "pm_old",
+      created: 1_700_000_000,
+    });
+    await t.mutation(api.lib.upsertPaymentMethod, {
+      stripePaymentMethodId: "pm_old",
+      customerId,
+      stripeCustomerId: "cus_1",
+      userId: "user_1",
+      type: "card",
+      created: 1_700_000_000,
+    });
+
+    const customerUpdates: unknown[] = [];
+    const stripe = {
+      paymentMethods: {
+        retrieve: async (id: string) => ({
+          id,
+          customer: "cus_1",
+          type: "card",
+          card: { brand: "visa", last4: "4242", exp_month: 12, exp_year: 2030 },
+          created: 1_700_100_000,
+          metadata: {},
+        }),
+      },
+      customers: {
+        update: async (...args: unknown[]) => {
+          customerUpdates.push(args);
+          return {
+            id: "cus_1",
+            email: "u@example.com",
+            invoice_settings: { default_payment_method: "pm_new" },
+            created: 1_700_000_000,
+            metadata: { userId: "user_1" },
+          };
+        },
+      },
+    } as unknown as import("stripe").Stripe;
+    const ctx = {
+      runQuery: (reference: never, args: never) => t.query(reference, args),
+      runMutation: (reference: never, args: never) =>
+        t.mutation(reference, args),
+    } as unknown as Parameters<typeof instance.processWebhookEvent>[0];
+
+    const instance = new StripeComponent(api as unknown as UseApi<typeof api>, {
+      getUserInfo: async () => ({ userId: "user_1", email: "u@example.com" }),
+      stripeSecretKey: "sk_test_123",
+      webhookSecret: "whsec_test",
+      stripe,
+      products: {},
+    });
+
+    await instance.processWebhookEvent(ctx, {
+      payload: JSON.stringify({
+        id: "evt_1",
+        type: "setup_intent.succeeded",
+        created: 1_700_100_000,
+        data: {
+          object: {
+            id: "seti_1",
+            object: "setup_intent",
+            customer: "cus_1",
+            payment_method: "pm_new",
+          },
+        },
+      }),
+    });
+
+    expect(customerUpdates).toEqual([
+      ["cus_1", { invoice_settings: { default_payment_method: "pm_new" } }],
+    ]);
+    const paymentMethods = await t.query(api.lib.listPaymentMethods, {
+      userId: "user_1",
+    });
+    expect(
+      paymentMethods.map(({ stripePaymentMethodId, isDefault, last4 }) => ({
+        stripePaymentMethodId,
+        isDefault,
+        last4,
+      }))
+    ).toEqual(
+      expect.arrayContaining([
+        { stripePaymentMethodId: "pm_old", isDefault: false, last4: undefined },
+        { stripePaymentMethodId: "pm_new", isDefault: true, last4: "4242" },
+      ])
+    );
+  });
+
+  it("rejects promotion codes the customer cannot redeem", async () => {
+    const component = {
+      lib: { getCurrentSubscription: "getCurrentSubscription" },
+    } as unknown as UseApi<typeof api>;
+    const promotionCodes = {
+      EXPIRED: {
+        id: "promo_expired",
+        active: true,
+        expires_at: 1_600_000_000,
+        max_redemptions: null,
+        times_redeemed: 0,
+        customer: null,
+        promotion: { coupon: { id: "coupon_1", valid: true } },
+      },
+      VIP: {
+        id: "promo_vip",
+        active: true,
+        expires_at: null,
+        max_redemptions: null,
+        times_redeemed: 0,
+        customer: "cus_other",
+        promotion: { coupon: { id: "coupon_1", valid: true } },
+      },
+    };
+    const updates: unknown[] = [];
+    const stripe = {
+      promotionCodes: {
+        list: async ({ code }: { code: keyof typeof promotionCodes }) => ({
+          data: promotionCodes[code] ? [promotionCodes[code]] : [],
+        }),
+      },
+      subscriptions: {
+        update: async (...args: unknown[]) => updates.push(args),
+      },
+    } as unknown as import("stripe").Stripe;
+    const ctx = {
+      runQuery: async () => ({
+        stripeSubscriptionId: "sub_1",
+        stripeCustomerId: "cus_1",
+      }),
+    } as unknown as Parameters<typeof instance.applyPromotionCode>[0];
+
+    const instance = new StripeComponent(component, {
+      getUserInfo: async () => ({ userId: "user_1", email: "u@example.com" }),
+      stripeSecretKey: "sk_test_123",
+      webhookSecret: "whsec_test",
+      stripe,
+      products: {},
+    });
+
+    for (const [code, reason] of [
+      ["MISSING", "not_found"],
+      ["EXPIRED", "expired"],
+      ["VIP", "not_eligible"],
+    ]) {
+      const error = await instance
+        .applyPromotionCode(ctx, { code: code as string })
+        .catch((caught: unknown) => caught);
+      expect(error).toBeInstanceOf(PromotionCodeError);
+      expect((error as PromotionCodeError).data).toMatchObject({
+        code: "INVALID_PROMOTION_CODE",
+        reason,
+      });
+    }
+    expect(updates).toEqual([]);
+  });
+
+  it("only confirms checkout sessions of the signed-in user", async () => {
+    const component = {
+      lib: { getCustomerByStripeId: "getCustomerByStripeId" },
+    } as unknown as UseApi<typeof api>;
+    const stripe = {
+      checkout: {
+        sessions: {
+          retrieve: async (id: string) => ({
+            id,
+            customer: { id: "cus_2", metadata: {} },
+            subscription: null,
+            invoice: null,
+          }),
+        },
+      },
+    } as unknown as import("stripe").Stripe;
+    const mutations: unknown[] = [];
+    const ctx = {
+      runQuery: async () => ({ stripeCustomerId: "cus_2", userId: "user_2" }),
+      runMutation: async (...args: unknown[]) => mutations.push(args),
+    } as unknown as Parameters<typeof instance.confirmCheckoutSession>[0];
+
+    const instance = new StripeComponent(component, {
+      getUserInfo: async () => ({ userId: "user_1", email: "u@example.com" }),
+      stripeSecretKey: "sk_test_123",
+      webhookSecret: "whsec_test",
+      stripe,
+      products: {},
+    });
+
+    await expect(
+      instance.confirmCheckoutSession(ctx, { sessionId: "cs_2" })
+    ).rejects.toThrow("Checkout session not found");
+    expect(mutations).toEqual([]);
+  });
+
+  it("records a confirmed one-time purchase without its webhook", async () => {
+    const t = convexTest(schema, modules);
+    await t.mutation(api.lib.upsertCustomer, {
+      stripeCustomerId: "cus_1",
+      userId: "user_1",
+      email: "u@example.com",
+      created: 1_700_000_000,
+    });
+
+    const stripe = {
+      checkout: {
+        sessions: {
+          retrieve: async (id: string) => ({
+            id,
+            customer: {
+              id: "cus_1",
+              email: "u@example.com",
+              created: 1_700_000_000,
+              metadata: { userId: "user_1" },
+            },
+            mode: "payment",
+            status: "complete",
+            payment_status: "paid",
+            subscription: null,
+            invoice: null,
+            payment_intent: {
+              id: "pi_1",
+              customer: "cus_1",
+              status: "succeeded",
+              amount: 1000,
+              currency: "usd",
+              created: 1_700_000_000,
+              metadata: { productSlug: "credit_pack", quantity: "2" },
+            },
+            amount_total: 1000,
+            currency: "usd",
+            expires_at: 1_700_086_400,
+            created: 1_700_000_000,
+            metadata: {},
+          }),
+        },
+      },
+    } as unknown as import("stripe").Stripe;
+    const ctx = {
+      runQuery: (reference: never, args: never) => t.query(reference, args),
+      runMutation: (reference: never, args: never) =>
+        t.mutation(reference, args),
+    } as unknown as Parameters<typeof instance.confirmCheckoutSession>[0];
+
+    const instance = new StripeComponent(api as unknown as UseApi<typeof api>, {
+      getUserInfo: async () => ({ userId: "user_1", email: "u@example.com" }),
+      stripeSecretKey: "sk_test_123",
+      webhookSecret: "whsec_test",
+      stripe,
+      products: {
+        credit_pack: { productId: "prod_credit_pack", credits: 100 },
+      },
+    });
+
+    expect(
+      await instance.confirmCheckoutSession(ctx, { sessionId: "cs_1" })
+    ).toMatchObject({ stripeCheckoutSessionId: "cs_1", paymentStatus: "paid" });
+    expect(
+      await t.query(api.lib.listUserInvoices, { userId: "user_1" })
+    ).toMatchObject([
+      { stripeInvoiceId: "pi_1", status: "succeeded", amountPaid: 1000 },
+    ]);
+    expect(await t.query(api.lib.getCreditBalance, { userId: "user_1" })).toBe(
+      200
+    );
+  });
+
+  it("previews the prorated amount due today for a plan change", async () => {
+    const component = {
+      lib: { getCurrentSubscription: "getCurrentSubscription" },
+    } as unknown as UseApi<typeof api>;
+    const monthly = { interval: "month", interval_count: 1 };
+    const stripe = {
+      subscriptions: {
+        retrieve: async () => ({
+          id: "sub_1",
+          customer: "cus_1",
+          items: {
+            data: [
+              { id: "si_1", price: { id: "price_pro", recurring: monthly } },
+            ],
+          },
+        }),
+      },
+      prices: {
+        retrieve: async (id: string) => ({ id, recurring: monthly }),
+      },
+      invoices: {
+        createPreview: async () => ({
+          currency: "usd",
+          total: 6500,
+          amount_due: 6500,
+          next_payment_attempt: 1_702_592_000,
+          period_end: 1_702_592_000,
+          lines: {
+            data: [
+              {
+                amount: -1000,
+                parent: { subscription_item_details: { proration: true } },
+              },
+              {
+                amount: 2500,
+                parent: { subscription_item_details: { proration: true } },
+              },
+              {
+                amount: 5000,
+                parent: { subscription_item_details: { proration: false } },
+              },
+            ],
+          },
+        }),
+      },
+    } as unknown as import("stripe").Stripe;
+    const ctx = {
+      runQuery: async () => ({ stripeSubscriptionId: "sub_1" }),
+    } as unknown as Parameters<typeof instance.previewPlanChange>[0];
+
+    const instance = new StripeComponent(component, {
+      getUserInfo: async () => ({ userId: "user_1", email: "u@example.com" }),
+      stripeSecretKey: "sk_test_123",
+      webhookSecret: "whsec_test",
+      stripe,
+      products: {
+        business: { productId: "prod_business", priceId: "price_business" },
+      },
+    });
+
+    expect(
+      await instance.previewPlanChange(ctx, {
+        productSlug: "business",
+        prorationBehavior: "always_invoice",
+      })
+    ).toMatchObject({
+      priceId: "price_business",
+      proratedAmount: 1500,
+      amountDueToday: 1500,
+      nextInvoiceTotal: 5000,
+    });
+  });
+
+  it("changes plans only to configured prices, with the server's proration", async () => {
+    const component = {
+      lib: {
+        getCurrentSubscription: "getCurrentSubscription",
+        getPriceByStripeId: "getPriceByStripeId",
+      },
+    } as unknown as UseApi<typeof api>;
+    const updates: unknown[] = [];
+    const stripe = {
+      subscriptions: {
+        retrieve: async () => ({
+          id: "sub_1",
+          customer: "cus_1",
+          schedule: null,
+          items: { data: [{ id: "si_1", price: { id: "price_pro" } }] },
+        }),
+        update: async (...args: unknown[]) => updates.push(args),
+      },
+    } as unknown as import("stripe").Stripe;
+    const ctx = {
+      runQuery: async (reference: string) =>
+        reference === "getPriceByStripeId"
+          ? null
+          : { stripeSubscriptionId: "sub_1" },
+    } as unknown as Parameters<typeof instance.changePlan>[0];
+
+    const instance = new StripeComponent(component, {
+      getUserInfo: async () => ({ userId: "user_1", email: "u@example.com" }),
+      stripeSecretKey: "sk_test_123",
+      webhookSecret: "whsec_test",
+      stripe,
+      products: {
+        business: { productId: "prod_business", priceId: "price_business" },
+      },
+      prorationBehavior: "always_invoice",
+    });
+
+    await expect(
+      instance.changePlan(ctx, { priceId: "price_internal" })
+    ).rejects.toThrow("Price price_internal is not a configured product");
+    await instance.changePlan(ctx, { priceId: "price_business" });
+    expect(updates).toEqual([
+      [
+        "sub_1",
+        {
+          items: [{ id: "si_1", price: "price_business" }],
+          proration_behavior: "always_invoice",
+          proration_date: undefined,
+        },
+      ],
+    ]);
+  });
+
+  it("applies the server's proration to seat updates", async () => {
+    const t = convexTest(schema, modules);
+    const component = {
+      lib: {
+        getCurrentSubscription: "getCurrentSubscription",
+        requestSeatUpdate: "requestSeatUpdate",
+      },
+    } as unknown as UseApi<typeof api>;
+    const stripe = {} as unknown as import("stripe").Stripe;
+    const requests: unknown[] = [];
+    const ctx = {
+      runQuery: async () => ({ stripeSubscriptionId: "sub_1", quantity: 2 }),
+      runMutation: async (_reference: string, args: unknown) =>
+        requests.push(args),
+    } as unknown as Parameters<typeof instance.updateSeats>[0];
+
+    const instance = new StripeComponent(component, {
+      getUserInfo: async () => ({ userId: "user_1", email: "u@example.com" }),
+      stripeSecretKey: "sk_test_123",
+      webhookSecret: "whsec_test",
+      stripe,
+      products: {},
+      prorationBehavior: "always_invoice",
+      seatUpdater: internal.lib.dispatchWebhookEvent,
+    });
+
+    // Function handles are created inside a Convex function
+    await t.run(
+      async () =>
+        await instance.updateSeats(ctx, { userId: "user_1", quantity: 5 })
+    );
+    expect(requests).toMatchObject([
+      {
+        stripeSubscriptionId: "sub_1",
+        quantity: 5,
+        prorationBehavior: "always_invoice",
+      },
+    ]);
+  });
+
+  it("keeps an applied seat count over a stale webhook", async () => {
+    const t = convexTest(schema, modules);
+    const { id: customerId } = await t.mutation(api.lib.upsertCustomer, {
+      stripeCustomerId: "cus_1",
+      userId: "user_1",
+      email: "u@example.com",
+      created: 1_700_000_000,
+    });
+    const subscriptionAt = (quantity: number) =>
+      ({
+        id: "sub_1",
+        customer: "cus_1",
+        status: "active",
+        items: {
+          data: [
+            {
+              id: "si_1",
+              price: { id: "price_1", product: "prod_1", currency: "usd" },
+              quantity,
+              current_period_start: 1_700_000_000,
+              current_period_end: 1_702_592_000,
+              created: 1_700_000_000,
+              metadata: {},
+            },
+          ],
+        },
+        cancel_at_period_end: false,
+        discounts: [],
+        created: 1_700_000_000,
+        metadata: {},
+      }) as unknown as import("stripe").Stripe.Subscription;
+    let stripeQuantity = 2;
+    const stripe = {
+      subscriptions: {
+        retrieve: async () => subscriptionAt(stripeQuantity),
+      },
+      subscriptionItems: {
+        update: async (_id: string, params: { quantity: number }) => {
+          stripeQuantity = params.quantity;
+        },
+      },
+    } as unknown as import("stripe").Stripe;
+    const ctx = {
+      runQuery: (reference: never, args: never) => t.query(reference, args),
+      runMutation: (reference: never, args: never) =>
+        t.mutation(reference, args),
+    } as unknown as Parameters<typeof instance.applySeatUpdate>[0];
+
+    const instance = new StripeComponent(api as unknown as UseApi<typeof api>, {
+      getUserInfo: async () => ({ userId: "user_1", email: "u@example.com" }),
+      stripeSecretKey: "sk_test_123",
+      webhookSecret: "whsec_test",
+      stripe,
+      products: {},
+    });
+
+    const webhookWrite = (syncedAt: number) =>
+      upsertStripeSubscription(
+        ctx,
+        api as unknown as UseApi<typeof api>,
+        subscriptionAt(2),
+        { syncedAt, source: "webhook" }
+      );
+    await webhookWrite(1_700_000_000);
+    const updater = await t.run(
+      async () => await createFunctionHandle(internal.lib.dispatchWebhookEvent)
+    );
+    await t.mutation(api.lib.requestSeatUpdate, {
+      stripeSubscriptionId: "sub_1",
+      quantity: 5,
+      prorationBehavior: "create_prorations",
+      updater,
+    });
+    await instance.applySeatUpdate(ctx, { stripeSubscriptionId: "sub_1" });
+
+    // customer.subscription.updated from before the seat change lands late
+    await webhookWrite(1_700_000_100);
+    expect(
+      await t.query(api.lib.getSubscriptionByStripeId, {
+        stripeSubscriptionId: "sub_1",
+      })
+    ).toMatchObject({ customerId, quantity: 5 });
+  });
+
+  it("adds only configured add-on prices", async () => {
+    const component = {
+      lib: {
+        getCurrentSubscription: "getCurrentSubscription",
+        getPriceByStripeId: "getPriceByStripeId",
+        listSubscriptionItems: "listSubscriptionItems",
+      },
+    } as unknown as UseApi<typeof api>;
+    const created: unknown[] = [];
+    const stripe = {
+      subscriptionItems: {
+        create: async (params: unknown) => {
+          created.push(params);
+          return { id: "si_storage" };
+        },
+      },
+    } as unknown as import("stripe").Stripe;
+    const ctx = {
+      runQuery: async (reference: string) => {
+        if (reference === "getPriceByStripeId") {
+          return null;
+        }
+        if (reference === "listSubscriptionItems") {
+          return [{ stripePriceId: "price_pro" }];
+        }
+        return { stripeSubscriptionId: "sub_1" };
+      },
+    } as unknown as Parameters<typeof instance.addSubscriptionItem>[0];
+
+    const instance = new StripeComponent(component, {
+      getUserInfo: async () => ({ userId: "user_1", email: "u@example.com" }),
+      stripeSecretKey: "sk_test_123",
+      webhookSecret: "whsec_test",
+      stripe,
+      products: {
+        pro: { productId: "prod_pro", priceId: "price_pro" },
+        storage: {
+          productId: "prod_storage",
+          priceId: "price_storage",
+          addOn: true,
+        },
+      },
+      prorationBehavior: "always_invoice",
+    });
+
+    for (const priceId of ["price_pro", "price_internal"]) {
+      await expect(
+        instance.addSubscriptionItem(ctx, { priceId })
+      ).rejects.toThrow(`Price ${priceId} is not a configured add-on`);
+    }
+    expect(
+      await instance.addSubscriptionItem(ctx, {
+        priceId: "price_storage",
+        quantity: 3,
+      })
+    ).toEqual({ subscriptionItemId: "si_storage" });
+    expect(created).toEqual([
+      {
+        subscription: "sub_1",
+        price: "price_storage",
+        quantity: 3,
+        proration_behavior: "always_invoice",
+      },
+    ]);
+  });
 });
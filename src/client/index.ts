@@ -2,24 +2,92 @@ import {
   actionGeneric,
   type HttpRouter,
   internalActionGeneric,
+  internalQueryGeneric,
   queryGeneric,
 } from "convex/server";
 import type Stripe from "stripe";
 import type { ComponentApi } from "../component/util.js";
 import {
+  vAddSubscriptionItemArgs,
+  vApplyPromotionCodeArgs,
   vCancelSubscriptionArgs,
+  vChangePlanArgs,
+  vCheckLimitArgs,
+  vCheckoutSessionArgs,
+  vCreateSetupIntentArgs,
+  vExtendTrialArgs,
   vGenerateBillingPortalLinkArgs,
   vGenerateCheckoutLinkArgs,
+  vGetCurrentPeriodUsageArgs,
+  vHasFeatureArgs,
+  vListCreditTransactionsArgs,
+  vListSubscriptionItemsArgs,
   vListUserInvoicesArgs,
+  vListWebhookEventsArgs,
+  vPauseSubscriptionArgs,
+  vPaymentMethodArgs,
+  vPreviewPlanChangeArgs,
+  vProcessWebhookEventArgs,
+  vRemoveSubscriptionItemArgs,
+  vReplayWebhookEventsArgs,
+  vStartTrialArgs,
+  vStripeEventId,
+  vStripeSubscriptionId,
+  vUpdateSeatsArgs,
 } from "../validators.js";
+import { createCallbackHandles } from "./callbacks.js";
+import { CreditMethods } from "./credits.js";
 import { CustomerMethods } from "./customers.js";
+import { DiscountMethods } from "./discounts.js";
+import { EntitlementMethods } from "./entitlements.js";
 import { InvoiceMethods } from "./invoices.js";
+import type { SubscriptionLifecycleEventType } from "./lifecycle.js";
+import { LimitMethods } from "./limits.js";
+import { PaymentMethodMethods } from "./paymentMethods.js";
 import { ProductMethods } from "./products.js";
+import { SeatMethods } from "./seats.js";
 import { SubscriptionMethods } from "./subscriptions.js";
-import type { ProductConfig, StripeConfig, WebhookConfig } from "./types.js";
+import type {
+  ProductConfig,
+  ProductFeature,
+  ProductLimit,
+  StripeConfig,
+  StripeEventType,
+  SubscriptionLifecycleHandler,
+  WebhookConfig,
+  WebhookEventHandler,
+} from "./types.js";
+import { UsageMethods } from "./usage.js";
 import { WebhookHandler } from "./webhooks.js";
 
-export type { ProductConfig, StripeConfig, WebhookConfig } from "./types.js";
+export { InsufficientCreditsError } from "./credits.js";
+export {
+  PromotionCodeError,
+  type PromotionCodeErrorReason,
+} from "./discounts.js";
+export { FeatureNotEntitledError } from "./entitlements.js";
+export type {
+  SubscriptionLifecycleEvent,
+  SubscriptionLifecycleEventOf,
+  SubscriptionLifecycleEventType,
+} from "./lifecycle.js";
+export { LimitExceededError } from "./limits.js";
+export type {
+  CreditConfig,
+  LimitConfig,
+  MutationCallbacks,
+  ProductConfig,
+  ProductFeature,
+  ProductLimit,
+  StripeConfig,
+  StripeEventOf,
+  StripeEventType,
+  SubscriptionLifecycleHandler,
+  WebhookCallbacks,
+  WebhookConfig,
+  WebhookEndpointConfig,
+  WebhookEventHandler,
+} from "./types.js";
 
 /**
  * Main Stripe Component Class
@@ -48,7 +116,7 @@ export type { ProductConfig, StripeConfig, WebhookConfig } from "./types.js";
  * ```
  */
 export class StripeComponent<
-  Products extends Record<string, ProductConfig> = Record<
+  const Products extends Record<string, ProductConfig> = Record<
     string,
     ProductConfig
   >,
@@ -58,13 +126,20 @@ export class StripeComponent<
   readonly component: ComponentApi;
   private readonly config: StripeConfig<Products>;
   private readonly stripeSecretKey: string;
-  private readonly webhookSecret: string;
+  private readonly webhookSecret: string | string[];
 
   // Method groups
   private readonly customerMethods: CustomerMethods;
   private readonly productMethods: ProductMethods<Products>;
   private readonly subscriptionMethods: SubscriptionMethods<Products>;
   private readonly invoiceMethods: InvoiceMethods;
+  private readonly paymentMethodMethods: PaymentMethodMethods;
+  private readonly entitlementMethods: EntitlementMethods<Products>;
+  private readonly limitMethods: LimitMethods<Products>;
+  private readonly usageMethods: UsageMethods;
+  private readonly creditMethods: CreditMethods<Products>;
+  private readonly discountMethods: DiscountMethods<Products>;
+  private readonly seatMethods: SeatMethods;
   private readonly webhookHandler: WebhookHandler<Products>;
 
   constructor(component: ComponentApi, config: StripeConfig<Products>) {
@@ -76,21 +151,80 @@ export class StripeComponent<
     this.stripe = config.stripe;
 
     // Initialize method groups
-    this.customerMethods = new CustomerMethods(this.component, this.stripe);
+    this.customerMethods = new CustomerMethods(
+      this.component,
+      this.stripe,
+      this.config.mutationCallbacks
+    );
     this.productMethods = new ProductMethods(this.component, this.products);
+    this.creditMethods = new CreditMethods(this.component, this.products);
     this.subscriptionMethods = new SubscriptionMethods(
       this.component,
       this.stripe,
       this.config,
       this.customerMethods.getCustomerByUserId.bind(this.customerMethods),
-      this.customerMethods.createCustomer.bind(this.customerMethods)
+      this.customerMethods.getOrCreateCustomer.bind(this.customerMethods),
+      this.creditMethods.grantProductCredits.bind(this.creditMethods)
+    );
+    this.invoiceMethods = new InvoiceMethods(
+      this.component,
+      this.stripe,
+      this.subscriptionMethods.getCurrentSubscription.bind(
+        this.subscriptionMethods
+      )
+    );
+    this.paymentMethodMethods = new PaymentMethodMethods(
+      this.component,
+      this.stripe,
+      this.customerMethods.getOrCreateCustomer.bind(this.customerMethods),
+      this.config.mutationCallbacks
+    );
+    this.entitlementMethods = new EntitlementMethods(
+      this.component,
+      this.products
+    );
+    this.limitMethods = new LimitMethods(
+      this.component,
+      this.products,
+      config.defaultLimits ?? {},
+      this.subscriptionMethods.getCurrentSubscription.bind(
+        this.subscriptionMethods
+      )
+    );
+    this.usageMethods = new UsageMethods(
+      this.component,
+      this.stripe,
+      this.config.meterEventFlusher,
+      this.subscriptionMethods.getCurrentSubscription.bind(
+        this.subscriptionMethods
+      )
+    );
+    this.discountMethods = new DiscountMethods(
+      this.component,
+      this.stripe,
+      this.config,
+      this.subscriptionMethods.getCurrentSubscription.bind(
+        this.subscriptionMethods
+      )
+    );
+    this.seatMethods = new SeatMethods(
+      this.component,
+      this.stripe,
+      this.config.seatUpdater,
+      this.config.prorationBehavior ?? "create_prorations",
+      this.subscriptionMethods.getCurrentSubscription.bind(
+        this.subscriptionMethods
+      ),
+      this.config.mutationCallbacks
     );
-    this.invoiceMethods = new InvoiceMethods(this.component);
     this.webhookHandler = new WebhookHandler(
       this.component,
       this.stripe,
       this.webhookSecret,
-      this.products
+      this.products,
+      this.creditMethods.grantProductCredits.bind(this.creditMethods),
+      this.config.webhooks,
+      this.config.mutationCallbacks
     );
   }
 
@@ -106,6 +240,12 @@ export class StripeComponent<
     return this.customerMethods.createCustomer(...args);
   }
 
+  getOrCreateCustomer(
+    ...args: Parameters<CustomerMethods["getOrCreateCustomer"]>
+  ) {
+    return this.customerMethods.getOrCreateCustomer(...args);
+  }
+
   // ===== PRODUCT & PRICE METHODS =====
 
   listActiveProducts(
@@ -166,6 +306,14 @@ export class StripeComponent<
     return this.subscriptionMethods.listUserSubscriptions(...args);
   }
 
+  getSubscriptionTimeline(
+    ...args: Parameters<
+      SubscriptionMethods<Products>["getSubscriptionTimeline"]
+    >
+  ) {
+    return this.subscriptionMethods.getSubscriptionTimeline(...args);
+  }
+
   generateCheckoutLink(
     ...args: Parameters<SubscriptionMethods<Products>["generateCheckoutLink"]>
   ) {
@@ -186,6 +334,80 @@ export class StripeComponent<
     return this.subscriptionMethods.cancelSubscription(...args);
   }
 
+  resumeSubscription(
+    ...args: Parameters<SubscriptionMethods<Products>["resumeSubscription"]>
+  ) {
+    return this.subscriptionMethods.resumeSubscription(...args);
+  }
+
+  pauseSubscription(
+    ...args: Parameters<SubscriptionMethods<Products>["pauseSubscription"]>
+  ) {
+    return this.subscriptionMethods.pauseSubscription(...args);
+  }
+
+  unpauseSubscription(
+    ...args: Parameters<SubscriptionMethods<Products>["unpauseSubscription"]>
+  ) {
+    return this.subscriptionMethods.unpauseSubscription(...args);
+  }
+
+  startTrial(...args: Parameters<SubscriptionMethods<Products>["startTrial"]>) {
+    return this.subscriptionMethods.startTrial(...args);
+  }
+
+  extendTrial(
+    ...args: Parameters<SubscriptionMethods<Products>["extendTrial"]>
+  ) {
+    return this.subscriptionMethods.extendTrial(...args);
+  }
+
+  confirmCheckoutSession(
+    ...args: Parameters<SubscriptionMethods<Products>["confirmCheckoutSession"]>
+  ) {
+    return this.subscriptionMethods.confirmCheckoutSession(...args);
+  }
+
+  getCheckoutSession(
+    ...args: Parameters<SubscriptionMethods<Products>["getCheckoutSession"]>
+  ) {
+    return this.subscriptionMethods.getCheckoutSession(...args);
+  }
+
+  getTrialStatus(
+    ...args: Parameters<SubscriptionMethods<Products>["getTrialStatus"]>
+  ) {
+    return this.subscriptionMethods.getTrialStatus(...args);
+  }
+
+  previewPlanChange(
+    ...args: Parameters<SubscriptionMethods<Products>["previewPlanChange"]>
+  ) {
+    return this.subscriptionMethods.previewPlanChange(...args);
+  }
+
+  changePlan(...args: Parameters<SubscriptionMethods<Products>["changePlan"]>) {
+    return this.subscriptionMethods.changePlan(...args);
+  }
+
+  listSubscriptionItems(
+    ...args: Parameters<SubscriptionMethods<Products>["listSubscriptionItems"]>
+  ) {
+    return this.subscriptionMethods.listSubscriptionItems(...args);
+  }
+
+  addSubscriptionItem(
+    ...args: Parameters<SubscriptionMethods<Products>["addSubscriptionItem"]>
+  ) {
+    return this.subscriptionMethods.addSubscriptionItem(...args);
+  }
+
+  removeSubscriptionItem(
+    ...args: Parameters<SubscriptionMethods<Products>["removeSubscriptionItem"]>
+  ) {
+    return this.subscriptionMethods.removeSubscriptionItem(...args);
+  }
+
   syncSubscriptions(
     ctx: Parameters<SubscriptionMethods<Products>["syncSubscriptions"]>[0]
   ) {
@@ -194,12 +416,184 @@ export class StripeComponent<
     });
   }
 
+  // ===== ENTITLEMENT METHODS =====
+
+  getEntitlements(
+    ...args: Parameters<EntitlementMethods<Products>["getEntitlements"]>
+  ) {
+    return this.entitlementMethods.getEntitlements(...args);
+  }
+
+  hasFeature(...args: Parameters<EntitlementMethods<Products>["hasFeature"]>) {
+    return this.entitlementMethods.hasFeature(...args);
+  }
+
+  requireFeature(
+    ...args: Parameters<EntitlementMethods<Products>["requireFeature"]>
+  ) {
+    return this.entitlementMethods.requireFeature(...args);
+  }
+
+  listActiveEntitlements(
+    ...args: Parameters<EntitlementMethods<Products>["listActiveEntitlements"]>
+  ) {
+    return this.entitlementMethods.listActiveEntitlements(...args);
+  }
+
+  hasEntitlement(
+    ...args: Parameters<EntitlementMethods<Products>["hasEntitlement"]>
+  ) {
+    return this.entitlementMethods.hasEntitlement(...args);
+  }
+
+  syncEntitlements(
+    ctx: Parameters<EntitlementMethods<Products>["syncEntitlements"]>[0]
+  ) {
+    return this.entitlementMethods.syncEntitlements(ctx, {
+      stripeSecretKey: this.stripeSecretKey,
+    });
+  }
+
+  // ===== LIMIT METHODS =====
+
+  checkLimit(...args: Parameters<LimitMethods<Products>["checkLimit"]>) {
+    return this.limitMethods.checkLimit(...args);
+  }
+
+  incrementUsage(
+    ...args: Parameters<LimitMethods<Products>["incrementUsage"]>
+  ) {
+    return this.limitMethods.incrementUsage(...args);
+  }
+
+  getUsageSummary(
+    ...args: Parameters<LimitMethods<Products>["getUsageSummary"]>
+  ) {
+    return this.limitMethods.getUsageSummary(...args);
+  }
+
+  // ===== USAGE METHODS =====
+
+  recordUsage(...args: Parameters<UsageMethods["recordUsage"]>) {
+    return this.usageMethods.recordUsage(...args);
+  }
+
+  flushMeterEvents(...args: Parameters<UsageMethods["flushMeterEvents"]>) {
+    return this.usageMethods.flushMeterEvents(...args);
+  }
+
+  getCurrentPeriodUsage(
+    ...args: Parameters<UsageMethods["getCurrentPeriodUsage"]>
+  ) {
+    return this.usageMethods.getCurrentPeriodUsage(...args);
+  }
+
+  // ===== SEAT METHODS =====
+
+  updateSeats(...args: Parameters<SeatMethods["updateSeats"]>) {
+    return this.seatMethods.updateSeats(...args);
+  }
+
+  getSeats(...args: Parameters<SeatMethods["getSeats"]>) {
+    return this.seatMethods.getSeats(...args);
+  }
+
+  applySeatUpdate(...args: Parameters<SeatMethods["applySeatUpdate"]>) {
+    return this.seatMethods.applySeatUpdate(...args);
+  }
+
+  // ===== CREDIT METHODS =====
+
+  getCreditBalance(
+    ...args: Parameters<CreditMethods<Products>["getCreditBalance"]>
+  ) {
+    return this.creditMethods.getCreditBalance(...args);
+  }
+
+  listCreditTransactions(
+    ...args: Parameters<CreditMethods<Products>["listCreditTransactions"]>
+  ) {
+    return this.creditMethods.listCreditTransactions(...args);
+  }
+
+  grantCredits(...args: Parameters<CreditMethods<Products>["grantCredits"]>) {
+    return this.creditMethods.grantCredits(...args);
+  }
+
+  spendCredits(...args: Parameters<CreditMethods<Products>["spendCredits"]>) {
+    return this.creditMethods.spendCredits(...args);
+  }
+
+  // ===== DISCOUNT METHODS =====
+
+  getSubscriptionDiscounts(
+    ...args: Parameters<DiscountMethods<Products>["getSubscriptionDiscounts"]>
+  ) {
+    return this.discountMethods.getSubscriptionDiscounts(...args);
+  }
+
+  applyPromotionCode(
+    ...args: Parameters<DiscountMethods<Products>["applyPromotionCode"]>
+  ) {
+    return this.discountMethods.applyPromotionCode(...args);
+  }
+
+  removeDiscount(
+    ...args: Parameters<DiscountMethods<Products>["removeDiscount"]>
+  ) {
+    return this.discountMethods.removeDiscount(...args);
+  }
+
+  syncCoupons(ctx: Parameters<DiscountMethods<Products>["syncCoupons"]>[0]) {
+    return this.discountMethods.syncCoupons(ctx, {
+      stripeSecretKey: this.stripeSecretKey,
+    });
+  }
+
+  // ===== PAYMENT METHOD METHODS =====
+
+  listPaymentMethods(
+    ...args: Parameters<PaymentMethodMethods["listPaymentMethods"]>
+  ) {
+    return this.paymentMethodMethods.listPaymentMethods(...args);
+  }
+
+  createSetupIntent(
+    ...args: Parameters<PaymentMethodMethods["createSetupIntent"]>
+  ) {
+    return this.paymentMethodMethods.createSetupIntent(...args);
+  }
+
+  setDefaultPaymentMethod(
+    ...args: Parameters<PaymentMethodMethods["setDefaultPaymentMethod"]>
+  ) {
+    return this.paymentMethodMethods.setDefaultPaymentMethod(...args);
+  }
+
+  detachPaymentMethod(
+    ...args: Parameters<PaymentMethodMethods["detachPaymentMethod"]>
+  ) {
+    return this.paymentMethodMethods.detachPaymentMethod(...args);
+  }
+
   // ===== INVOICE METHODS =====
 
   listUserInvoices(...args: Parameters<InvoiceMethods["listUserInvoices"]>) {
     return this.invoiceMethods.listUserInvoices(...args);
   }
 
+  getUpcomingInvoice(
+    ...args: Parameters<InvoiceMethods["getUpcomingInvoice"]>
+  ) {
+    return this.invoiceMethods.getUpcomingInvoice(...args);
+  }
+
+  getCachedUpcomingInvoice(
+    ...args: Parameters<InvoiceMethods["getCachedUpcomingInvoice"]>
+  ) {
+    return this.invoiceMethods.getCachedUpcomingInvoice(...args);
+  }
+
   syncInvoices(ctx: Parameters<InvoiceMethods["syncInvoices"]>[0]) {
     return this.invoiceMethods.syncInvoices(ctx, {
       stripeSecretKey: this.stripeSecretKey,
@@ -216,9 +610,40 @@ export class StripeComponent<
   async syncAll(ctx: Parameters<typeof this.syncProducts>[0]) {
     await ctx.runAction(this.component.lib.syncAll, {
       stripeSecretKey: this.stripeSecretKey,
+      ...(await createCallbackHandles(this.config.mutationCallbacks)),
     });
   }
 
+  // ===== WEBHOOK EVENT METHODS =====
+
+  /**
+   * Process a stored webhook event payload
+   * Used by the asynchronous webhook queue (see `WebhookConfig.processor`)
+   */
+  processWebhookEvent(
+    ...args: Parameters<WebhookHandler<Products>["processEvent"]>
+  ) {
+    return this.webhookHandler.processEvent(...args);
+  }
+
+  listWebhookEvents(
+    ...args: Parameters<WebhookHandler<Products>["listWebhookEvents"]>
+  ) {
+    return this.webhookHandler.listWebhookEvents(...args);
+  }
+
+  getWebhookEvent(
+    ...args: Parameters<WebhookHandler<Products>["getWebhookEvent"]>
+  ) {
+    return this.webhookHandler.getWebhookEvent(...args);
+  }
+
+  replayWebhookEvents(
+    ...args: Parameters<WebhookHandler<Products>["replayWebhookEvents"]>
+  ) {
+    return this.webhookHandler.replayWebhookEvents(...args);
+  }
+
   // ===== PUBLIC API =====
 
   /**
@@ -230,16 +655,57 @@ export class StripeComponent<
    * export const {
    *   getCurrentSubscription,
    *   listUserSubscriptions,
+   *   getSubscriptionTimeline,
+   *   listSubscriptionItems,
    *   getConfiguredProducts,
    *   listUserInvoices,
+   *   getCachedUpcomingInvoice,
+   *   getCheckoutSession,
+   *   getTrialStatus,
+   *   listPaymentMethods,
+   *   getEntitlements,
+   *   hasFeature,
+   *   listActiveEntitlements,
+   *   checkLimit,
+   *   getUsageSummary,
+   *   getCurrentPeriodUsage,
+   *   getSeats,
+   *   getCreditBalance,
+   *   listCreditTransactions,
+   *   getSubscriptionDiscounts,
    *   generateCheckoutLink,
+   *   confirmCheckoutSession,
    *   generateBillingPortalLink,
    *   cancelSubscription,
+   *   resumeSubscription,
+   *   pauseSubscription,
+   *   unpauseSubscription,
+   *   applyPromotionCode,
+   *   removeDiscount,
+   *   startTrial,
+   *   getUpcomingInvoice,
+   *   previewPlanChange,
+   *   changePlan,
+   *   updateSeats,
+   *   addSubscriptionItem,
+   *   removeSubscriptionItem,
+   *   createSetupIntent,
+   *   setDefaultPaymentMethod,
+   *   detachPaymentMethod,
    *   syncAll,
    *   syncProducts,
+   *   syncCoupons,
+   *   syncEntitlements,
    *   syncCustomers,
    *   syncSubscriptions,
    *   syncInvoices,
+   *   applySeatUpdate,
+   *   extendTrial,
+   *   flushMeterEvents,
+   *   processWebhookEvent,
+   *   listWebhookEvents,
+   *   getWebhookEvent,
+   *   replayWebhookEvents,
    * } = stripe.api();
    * ```
    */
@@ -262,6 +728,32 @@ export class StripeComponent<
         },
       }),
 
+      getSubscriptionTimeline: queryGeneric({
+        args: { stripeSubscriptionId: vStripeSubscriptionId },
+        handler: async (ctx, args) => {
+          const { userId } = await this.config.getUserInfo(ctx);
+          const subscription = await ctx.runQuery(
+            this.component.lib.getSubscriptionByStripeId,
+            { stripeSubscriptionId: args.stripeSubscriptionId }
+          );
+          if (!subscription || subscription.userId !== userId) {
+            throw new Error("Subscription not found");
+          }
+          return await this.getSubscriptionTimeline(ctx, args);
+        },
+      }),
+
+      listSubscriptionItems: queryGeneric({
+        args: vListSubscriptionItemsArgs.fields,
+        handler: async (ctx, args) => {
+          const { userId } = await this.config.getUserInfo(ctx);
+          return await this.listSubscriptionItems(ctx, {
+            userId,
+            stripeSubscriptionId: args.stripeSubscriptionId,
+          });
+        },
+      }),
+
       listActiveProducts: queryGeneric({
         args: {},
         handler: async (ctx) => await this.listActiveProducts(ctx),
@@ -283,6 +775,134 @@ export class StripeComponent<
         },
       }),
 
+      getCachedUpcomingInvoice: queryGeneric({
+        args: {},
+        handler: async (ctx) => {
+          const { userId } = await this.config.getUserInfo(ctx);
+          return await this.getCachedUpcomingInvoice(ctx, { userId });
+        },
+      }),
+
+      getCheckoutSession: queryGeneric({
+        args: vCheckoutSessionArgs.fields,
+        handler: async (ctx, args) => {
+          const { userId } = await this.config.getUserInfo(ctx);
+          return await this.getCheckoutSession(ctx, {
+            userId,
+            sessionId: args.sessionId,
+          });
+        },
+      }),
+
+      getTrialStatus: queryGeneric({
+        args: {},
+        handler: async (ctx) => {
+          const { userId } = await this.config.getUserInfo(ctx);
+          return await this.getTrialStatus(ctx, { userId });
+        },
+      }),
+
+      listPaymentMethods: queryGeneric({
+        args: {},
+        handler: async (ctx) => {
+          const { userId } = await this.config.getUserInfo(ctx);
+          return await this.listPaymentMethods(ctx, { userId });
+        },
+      }),
+
+      getEntitlements: queryGeneric({
+        args: {},
+        handler: async (ctx) => {
+          const { userId } = await this.config.getUserInfo(ctx);
+          return await this.getEntitlements(ctx, { userId });
+        },
+      }),
+
+      hasFeature: queryGeneric({
+        args: vHasFeatureArgs.fields,
+        handler: async (ctx, args) => {
+          const { userId } = await this.config.getUserInfo(ctx);
+          return await this.hasFeature(ctx, {
+            userId,
+            feature: args.feature as ProductFeature<Products>,
+          });
+        },
+      }),
+
+      listActiveEntitlements: queryGeneric({
+        args: {},
+        handler: async (ctx) => {
+          const { userId } = await this.config.getUserInfo(ctx);
+          return await this.listActiveEntitlements(ctx, { userId });
+        },
+      }),
+
+      checkLimit: queryGeneric({
+        args: vCheckLimitArgs.fields,
+        handler: async (ctx, args) => {
+          const { userId } = await this.config.getUserInfo(ctx);
+          return await this.checkLimit(ctx, {
+            userId,
+            limit: args.limit as ProductLimit<Products>,
+            amount: args.amount,
+          });
+        },
+      }),
+
+      getUsageSummary: queryGeneric({
+        args: {},
+        handler: async (ctx) => {
+          const { userId } = await this.config.getUserInfo(ctx);
+          return await this.getUsageSummary(ctx, { userId });
+        },
+      }),
+
+      getCurrentPeriodUsage: queryGeneric({
+        args: vGetCurrentPeriodUsageArgs.fields,
+        handler: async (ctx, args) => {
+          const { userId } = await this.config.getUserInfo(ctx);
+          return await this.getCurrentPeriodUsage(ctx, {
+            userId,
+            meter: args.meter,
+          });
+        },
+      }),
+
+      getSeats: queryGeneric({
+        args: {},
+        handler: async (ctx) => {
+          const { userId } = await this.config.getUserInfo(ctx);
+          return await this.getSeats(ctx, { userId });
+        },
+      }),
+
+      getCreditBalance: queryGeneric({
+        args: {},
+        handler: async (ctx) => {
+          const { userId } = await this.config.getUserInfo(ctx);
+          return await this.getCreditBalance(ctx, { userId });
+        },
+      }),
+
+      getSubscriptionDiscounts: queryGeneric({
+        args: {},
+        handler: async (ctx) => {
+          const { userId } = await this.config.getUserInfo(ctx);
+          return await this.getSubscriptionDiscounts(ctx, { userId });
+        },
+      }),
+
+      listCreditTransactions: queryGeneric({
+        args: vListCreditTransactionsArgs.fields,
+        handler: async (ctx, args) => {
+          const { userId } = await this.config.getUserInfo(ctx);
+          return await this.listCreditTransactions(ctx, {
+            userId,
+            limit: args.limit,
+          });
+        },
+      }),
+
       // Actions
       generateCheckoutLink: actionGeneric({
         args: vGenerateCheckoutLinkArgs.fields,
@@ -290,6 +910,12 @@ export class StripeComponent<
           await this.generateCheckoutLink(ctx, args),
       }),
 
+      confirmCheckoutSession: actionGeneric({
+        args: vCheckoutSessionArgs.fields,
+        handler: async (ctx, args) =>
+          await this.confirmCheckoutSession(ctx, args),
+      }),
+
       generateBillingPortalLink: actionGeneric({
         args: vGenerateBillingPortalLinkArgs.fields,
         handler: async (ctx, args) =>
@@ -304,6 +930,115 @@ export class StripeComponent<
           }),
       }),
 
+      resumeSubscription: actionGeneric({
+        args: {},
+        handler: async (ctx) => await this.resumeSubscription(ctx),
+      }),
+
+      pauseSubscription: actionGeneric({
+        args: vPauseSubscriptionArgs.fields,
+        handler: async (ctx, args) => await this.pauseSubscription(ctx, args),
+      }),
+
+      unpauseSubscription: actionGeneric({
+        args: {},
+        handler: async (ctx) => await this.unpauseSubscription(ctx),
+      }),
+
+      applyPromotionCode: actionGeneric({
+        args: vApplyPromotionCodeArgs.fields,
+        handler: async (ctx, args) => await this.applyPromotionCode(ctx, args),
+      }),
+
+      removeDiscount: actionGeneric({
+        args: {},
+        handler: async (ctx) => await this.removeDiscount(ctx),
+      }),
+
+      startTrial: actionGeneric({
+        args: vStartTrialArgs.fields,
+        handler: async (ctx, args) => await this.startTrial(ctx, args),
+      }),
+
+      getUpcomingInvoice: actionGeneric({
+        args: {},
+        handler: async (ctx) => {
+          const { userId } = await this.config.getUserInfo(ctx);
+          return await this.getUpcomingInvoice(ctx, { userId });
+        },
+      }),
+
+      previewPlanChange: actionGeneric({
+        args: vPreviewPlanChangeArgs.fields,
+        handler: async (ctx, args) =>
+          await this.previewPlanChange(ctx, {
+            ...args,
+            productSlug: args.productSlug as keyof Products & string,
+          }),
+      }),
+
+      changePlan: actionGeneric({
+        args: vChangePlanArgs.fields,
+        handler: async (ctx, args) =>
+          await this.changePlan(ctx, {
+            ...args,
+            productSlug: args.productSlug as keyof Products & string,
+          }),
+      }),
+
+      updateSeats: actionGeneric({
+        args: vUpdateSeatsArgs.fields,
+        handler: async (ctx, args) => {
+          const { userId } = await this.config.getUserInfo(ctx);
+          await this.updateSeats(ctx, { userId, ...args });
+        },
+      }),
+
+      addSubscriptionItem: actionGeneric({
+        args: vAddSubscriptionItemArgs.fields,
+        handler: async (ctx, args) => await this.addSubscriptionItem(ctx, args),
+      }),
+
+      removeSubscriptionItem: actionGeneric({
+        args: vRemoveSubscriptionItemArgs.fields,
+        handler: async (ctx, args) =>
+          await this.removeSubscriptionItem(ctx, args),
+      }),
+
+      createSetupIntent: actionGeneric({
+        args: vCreateSetupIntentArgs.fields,
+        handler: async (ctx, args) => {
+          const { userId, email } = await this.config.getUserInfo(ctx);
+          return await this.createSetupIntent(ctx, {
+            userId,
+            email,
+            usage: args.usage,
+          });
+        },
+      }),
+
+      setDefaultPaymentMethod: actionGeneric({
+        args: vPaymentMethodArgs.fields,
+        handler: async (ctx, args) => {
+          const { userId } = await this.config.getUserInfo(ctx);
+          await this.setDefaultPaymentMethod(ctx, {
+            userId,
+            paymentMethodId: args.paymentMethodId,
+          });
+        },
+      }),
+
+      detachPaymentMethod: actionGeneric({
+        args: vPaymentMethodArgs.fields,
+        handler: async (ctx, args) => {
+          const { userId } = await this.config.getUserInfo(ctx);
+          await this.detachPaymentMethod(ctx, {
+            userId,
+            paymentMethodId: args.paymentMethodId,
+          });
+        },
+      }),
+
       // Internal Actions (Sync)
       syncAll: internalActionGeneric({
         handler: (ctx, _args) => this.syncAll(ctx),
@@ -313,6 +1048,14 @@ export class StripeComponent<
         handler: (ctx, _args) => this.syncProducts(ctx),
       }),
 
+      syncCoupons: internalActionGeneric({
+        handler: (ctx, _args) => this.syncCoupons(ctx),
+      }),
+
+      syncEntitlements: internalActionGeneric({
+        handler: (ctx, _args) => this.syncEntitlements(ctx),
+      }),
+
       syncCustomers: internalActionGeneric({
         handler: (ctx, _args) => this.syncCustomers(ctx),
       }),
@@ -324,11 +1067,93 @@ export class StripeComponent<
       syncInvoices: internalActionGeneric({
         handler: (ctx, _args) => this.syncInvoices(ctx),
       }),
+
+      // Internal (Seat updates)
+      applySeatUpdate: internalActionGeneric({
+        args: { stripeSubscriptionId: vStripeSubscriptionId },
+        handler: async (ctx, args) => await this.applySeatUpdate(ctx, args),
+      }),
+
+      // Internal (Trials)
+      extendTrial: internalActionGeneric({
+        args: vExtendTrialArgs.fields,
+        handler: async (ctx, args) => await this.extendTrial(ctx, args),
+      }),
+
+      // Internal (Meter event queue)
+      flushMeterEvents: internalActionGeneric({
+        handler: (ctx, _args) => this.flushMeterEvents(ctx),
+      }),
+
+      // Internal (Webhook queue)
+      processWebhookEvent: internalActionGeneric({
+        args: vProcessWebhookEventArgs.fields,
+        handler: (ctx, args) => this.processWebhookEvent(ctx, args),
+      }),
+
+      listWebhookEvents: internalQueryGeneric({
+        args: vListWebhookEventsArgs.fields,
+        handler: (ctx, args) => this.listWebhookEvents(ctx, args),
+      }),
+
+      getWebhookEvent: internalQueryGeneric({
+        args: { stripeEventId: vStripeEventId },
+        handler: (ctx, args) => this.getWebhookEvent(ctx, args),
+      }),
+
+      replayWebhookEvents: internalActionGeneric({
+        args: vReplayWebhookEventsArgs.fields,
+        handler: (ctx, args) => this.replayWebhookEvents(ctx, args),
+      }),
     };
   }
 
   // ===== WEBHOOK REGISTRATION =====
 
+  /**
+   * Register a handler for any Stripe event type
+   * The event parameter is narrowed to the matching event type
+   *
+   * Usage:
+   * ```ts
+   * stripe
+   *   .on("charge.refunded", async (ctx, event) => {})
+   *   .on("customer.subscription.trial_will_end", async (ctx, event) => {});
+   * ```
+   */
+  on<T extends StripeEventType>(type: T, handler: WebhookEventHandler<T>) {
+    this.webhookHandler.on(type, handler);
+    return this;
+  }
+
+  /**
+   * Register a handler that runs for every Stripe event
+   */
+  onAnyEvent(handler: WebhookEventHandler) {
+    this.webhookHandler.onAnyEvent(handler);
+    return this;
+  }
+
+  /**
+   * Register a handler for a derived subscription lifecycle event
+   * Updates are classified by comparing `previous_attributes` (or the stored
+   * subscription row) with the new subscription state
+   *
+   * Usage:
+   * ```ts
+   * stripe.onSubscriptionLifecycle("plan_upgraded", async (ctx, event) => {
+   *   // event.previousUnitAmount, event.unitAmount
+   * });
+   * ```
+   */
+  onSubscriptionLifecycle<T extends SubscriptionLifecycleEventType>(
+    type: T,
+    handler: SubscriptionLifecycleHandler<T>
+  ) {
+    this.webhookHandler.onSubscriptionLifecycle(type, handler);
+    return this;
+  }
+
   /**
    * Register webhook routes on your HTTP router
    */
@@ -1,14 +1,34 @@
+import type Stripe from "stripe";
 import type { api } from "../component/_generated/api.js";
 import type { RunActionCtx, RunQueryCtx, UseApi } from "../component/util.js";
+import type { UpcomingInvoice } from "../validators.js";
+import { refreshUpcomingInvoice } from "./sync.js";
+
+// How long a cached upcoming invoice is returned without asking Stripe again
+const UPCOMING_INVOICE_TTL_MS = 5 * 60 * 1000;
 
 /**
  * Invoice-related methods for the Stripe component
  */
 export class InvoiceMethods {
   private readonly component: UseApi<typeof api>;
+  private readonly stripe: Stripe;
+  private readonly getCurrentSubscription: (
+    ctx: RunQueryCtx,
+    args: { userId: string }
+  ) => Promise<{ stripeSubscriptionId: string } | null>;
 
-  constructor(component: UseApi<typeof api>) {
+  constructor(
+    component: UseApi<typeof api>,
+    stripe: Stripe,
+    getCurrentSubscription: (
+      ctx: RunQueryCtx,
+      args: { userId: string }
+    ) => Promise<{ stripeSubscriptionId: string } | null>
+  ) {
     this.component = component;
+    this.stripe = stripe;
+    this.getCurrentSubscription = getCurrentSubscription;
   }
 
   /**
@@ -24,6 +44,59 @@ export class InvoiceMethods {
     });
   }
 
+  /**
+   * Get the next invoice of the user's current subscription
+   * Served from the component's cache when it was fetched in the last few minutes
+   */
+  async getUpcomingInvoice(
+    ctx: RunActionCtx,
+    { userId }: { userId: string }
+  ): Promise<UpcomingInvoice | null> {
+    const subscription = await this.getCurrentSubscription(ctx, { userId });
+    if (!subscription) {
+      return null;
+    }
+    const { stripeSubscriptionId } = subscription;
+
+    const cached = await this.getStoredUpcomingInvoice(ctx, {
+      stripeSubscriptionId,
+    });
+    if (cached && Date.now() - cached.fetchedAt < UPCOMING_INVOICE_TTL_MS) {
+      return cached;
+    }
+
+    await refreshUpcomingInvoice(ctx, this.component, this.stripe, {
+      stripeSubscriptionId,
+    });
+    return await this.getStoredUpcomingInvoice(ctx, { stripeSubscriptionId });
+  }
+
+  /**
+   * Get the cached next invoice of the user's current subscription
+   * Reactive: refreshed by webhooks once `getUpcomingInvoice` has cached it
+   */
+  async getCachedUpcomingInvoice(
+    ctx: RunQueryCtx,
+    { userId }: { userId: string }
+  ): Promise<UpcomingInvoice | null> {
+    const subscription = await this.getCurrentSubscription(ctx, { userId });
+    if (!subscription) {
+      return null;
+    }
+    return await this.getStoredUpcomingInvoice(ctx, {
+      stripeSubscriptionId: subscription.stripeSubscriptionId,
+    });
+  }
+
+  private async getStoredUpcomingInvoice(
+    ctx: RunQueryCtx,
+    { stripeSubscriptionId }: { stripeSubscriptionId: string }
+  ) {
+    return (await ctx.runQuery(this.component.lib.getUpcomingInvoice, {
+      stripeSubscriptionId,
+    })) as UpcomingInvoice | null;
+  }
+
   /**
    * Sync all invoices from Stripe to Convex
    * This is useful when migrating from another system or backfilling data
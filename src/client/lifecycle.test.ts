@@ -0,0 +1,64 @@
+import type Stripe from "stripe";
+import { describe, expect, it } from "vitest";
+import {
+  classifySubscriptionUpdate,
+  previousSnapshot,
+  type SubscriptionSnapshot,
+} from "./lifecycle.js";
+
+const subscription = {} as Stripe.Subscription;
+
+const current: SubscriptionSnapshot = {
+  status: "active",
+  stripePriceId: "price_pro",
+  unitAmount: 4900,
+  currentPeriodStart: 1_700_086_400,
+  currentPeriodEnd: 1_702_678_400,
+  cancelAtPeriodEnd: false,
+};
+
+const types = (previous: SubscriptionSnapshot) =>
+  classifySubscriptionUpdate(subscription, previous, current).map(
+    (event) => event.type
+  );
+
+describe("classifySubscriptionUpdate", () => {
+  it("detects upgrades and renewals", () => {
+    expect(
+      types({
+        ...current,
+        stripePriceId: "price_basic",
+        unitAmount: 1900,
+        currentPeriodStart: 1_697_494_400,
+      })
+    ).toEqual(["plan_upgraded", "renewed"]);
+    expect(types({ ...current, currentPeriodStart: 0 })).toEqual([]);
+  });
+
+  it("detects reverted cancellations and trial conversions", () => {
+    expect(
+      types({ ...current, status: "trialing", cancelAtPeriodEnd: true })
+    ).toEqual(["cancellation_reverted", "trial_converted"]);
+  });
+
+  it("detects payment recovery", () => {
+    expect(types({ ...current, status: "past_due" })).toEqual([
+      "payment_recovered",
+    ]);
+  });
+});
+
+describe("previousSnapshot", () => {
+  it("falls back to the stored row when previous_attributes is incomplete", () => {
+    const stored = { ...current, status: "past_due", unitAmount: 1900 };
+    const previous = previousSnapshot(
+      current,
+      { cancel_at_period_end: true },
+      stored
+    );
+
+    expect(previous.status).toBe("past_due");
+    expect(previous.cancelAtPeriodEnd).toBe(true);
+    expect(previous.unitAmount).toBe(1900);
+  });
+});
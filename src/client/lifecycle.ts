@@ -0,0 +1,202 @@
+import type Stripe from "stripe";
+import { extractSubscriptionPeriod } from "./stripeUtils.js";
+
+/**
+ * The subscription fields used to classify an update
+ */
+export type SubscriptionSnapshot = {
+  status: string;
+  stripePriceId?: string;
+  unitAmount?: number;
+  currentPeriodStart: number;
+  currentPeriodEnd: number;
+  cancelAtPeriodEnd: boolean;
+  cancelAt?: number;
+};
+
+/**
+ * Higher-level subscription changes derived from `customer.subscription.updated`
+ * and `customer.subscription.trial_will_end`
+ */
+export type SubscriptionLifecycleEvent =
+  | {
+      type: "plan_upgraded" | "plan_downgraded";
+      subscription: Stripe.Subscription;
+      previousPriceId?: string;
+      priceId?: string;
+      previousUnitAmount: number;
+      unitAmount: number;
+    }
+  | {
+      type: "renewed";
+      subscription: Stripe.Subscription;
+      previousPeriodEnd: number;
+      currentPeriodStart: number;
+      currentPeriodEnd: number;
+    }
+  | {
+      type: "cancellation_scheduled";
+      subscription: Stripe.Subscription;
+      cancelAt?: number;
+    }
+  | {
+      type: "cancellation_reverted" | "trial_converted";
+      subscription: Stripe.Subscription;
+    }
+  | {
+      type: "trial_ending";
+      subscription: Stripe.Subscription;
+      trialEnd: number;
+      // Whether the user has a payment method to bill when the trial ends
+      hasPaymentMethod: boolean;
+    }
+  | {
+      type: "payment_past_due" | "payment_recovered";
+      subscription: Stripe.Subscription;
+      previousStatus: string;
+    };
+
+export type SubscriptionLifecycleEventType = SubscriptionLifecycleEvent["type"];
+
+/**
+ * The lifecycle event matching a lifecycle event type
+ */
+export type SubscriptionLifecycleEventOf<
+  T extends SubscriptionLifecycleEventType,
+> = Extract<SubscriptionLifecycleEvent, { type: T }>;
+
+const DELINQUENT_STATUSES = ["past_due", "unpaid"];
+
+/**
+ * Build a snapshot from a Stripe subscription object
+ */
+export function snapshotFromSubscription(
+  subscription: Stripe.Subscription
+): SubscriptionSnapshot {
+  const price = subscription.items.data[0]?.price;
+  return {
+    status: subscription.status,
+    stripePriceId: price?.id,
+    unitAmount: price?.unit_amount ?? undefined,
+    ...extractSubscriptionPeriod(subscription),
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    cancelAt: subscription.cancel_at ?? undefined,
+  };
+}
+
+/**
+ * Reconstruct the snapshot before an update
+ * Uses `previous_attributes` where present, then the stored row, then the
+ * current values (meaning the field did not change)
+ */
+export function previousSnapshot(
+  current: SubscriptionSnapshot,
+  previousAttributes: Partial<Stripe.Subscription> | undefined,
+  stored: SubscriptionSnapshot | undefined
+): SubscriptionSnapshot {
+  // Fields the stored row does not track fall back to the current values
+  const base = { ...current, ...stored };
+  const previous = previousAttributes ?? {};
+  const previousItem =
+    "items" in previous ? previous.items?.data[0] : undefined;
+
+  return {
+    status:
+      "status" in previous && previous.status ? previous.status : base.status,
+    stripePriceId: previousItem ? previousItem.price.id : base.stripePriceId,
+    unitAmount: previousItem
+      ? (previousItem.price.unit_amount ?? undefined)
+      : base.unitAmount,
+    currentPeriodStart:
+      previousItem?.current_period_start ?? base.currentPeriodStart,
+    currentPeriodEnd: previousItem?.current_period_end ?? base.currentPeriodEnd,
+    cancelAtPeriodEnd:
+      "cancel_at_period_end" in previous &&
+      previous.cancel_at_period_end !== undefined
+        ? previous.cancel_at_period_end
+        : base.cancelAtPeriodEnd,
+    cancelAt:
+      "cancel_at" in previous
+        ? (previous.cancel_at ?? undefined)
+        : base.cancelAt,
+  };
+}
+
+/**
+ * Classify a subscription update into lifecycle events
+ */
+export function classifySubscriptionUpdate(
+  subscription: Stripe.Subscription,
+  previous: SubscriptionSnapshot,
+  current: SubscriptionSnapshot
+): SubscriptionLifecycleEvent[] {
+  const events: SubscriptionLifecycleEvent[] = [];
+
+  if (
+    previous.stripePriceId !== current.stripePriceId &&
+    previous.unitAmount !== undefined &&
+    current.unitAmount !== undefined &&
+    previous.unitAmount !== current.unitAmount
+  ) {
+    events.push({
+      type:
+        current.unitAmount > previous.unitAmount
+          ? "plan_upgraded"
+          : "plan_downgraded",
+      subscription,
+      previousPriceId: previous.stripePriceId,
+      priceId: current.stripePriceId,
+      previousUnitAmount: previous.unitAmount,
+      unitAmount: current.unitAmount,
+    });
+  }
+
+  // Rows written before periods were synced store 0, which is not a renewal
+  if (
+    previous.currentPeriodStart > 0 &&
+    current.currentPeriodStart > previous.currentPeriodStart
+  ) {
+    events.push({
+      type: "renewed",
+      subscription,
+      previousPeriodEnd: previous.currentPeriodEnd,
+      currentPeriodStart: current.currentPeriodStart,
+      currentPeriodEnd: current.currentPeriodEnd,
+    });
+  }
+
+  const wasCanceling = previous.cancelAtPeriodEnd || !!previous.cancelAt;
+  const isCanceling = current.cancelAtPeriodEnd || !!current.cancelAt;
+  if (!wasCanceling && isCanceling) {
+    events.push({
+      type: "cancellation_scheduled",
+      subscription,
+      cancelAt: current.cancelAt ?? current.currentPeriodEnd,
+    });
+  } else if (wasCanceling && !isCanceling && current.status !== "canceled") {
+    events.push({ type: "cancellation_reverted", subscription });
+  }
+
+  if (previous.status === "trialing" && current.status === "active") {
+    events.push({ type: "trial_converted", subscription });
+  }
+
+  if (current.status === "past_due" && previous.status !== "past_due") {
+    events.push({
+      type: "payment_past_due",
+      subscription,
+      previousStatus: previous.status,
+    });
+  } else if (
+    DELINQUENT_STATUSES.includes(previous.status) &&
+    current.status === "active"
+  ) {
+    events.push({
+      type: "payment_recovered",
+      subscription,
+      previousStatus: previous.status,
+    });
+  }
+
+  return events;
+}
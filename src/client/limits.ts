@@ -0,0 +1,224 @@
+import { ConvexError } from "convex/values";
+import type { api } from "../component/_generated/api.js";
+import type { RunMutationCtx, RunQueryCtx, UseApi } from "../component/util.js";
+import type { UsageCounter } from "../validators.js";
+import { resolveProductSlug } from "./products.js";
+import type { LimitConfig, ProductConfig, ProductLimit } from "./types.js";
+
+/**
+ * Thrown by `incrementUsage` when an increment would exceed the user's limit
+ * The data is sent to the client, so the UI can prompt for an upgrade
+ */
+export class LimitExceededError extends ConvexError<{
+  code: "LIMIT_EXCEEDED";
+  limit: string;
+  max: number;
+}> {
+  readonly limit: string;
+  readonly max: number;
+
+  constructor(limit: string, max: number) {
+    super({ code: "LIMIT_EXCEEDED", limit, max });
+    this.name = "LimitExceededError";
+    this.limit = limit;
+    this.max = max;
+  }
+}
+
+type LimitSubscription = {
+  stripePriceId?: string;
+  productSlug?: string;
+  currentPeriodStart: number;
+};
+
+type ResolvedLimit = {
+  max: number;
+  resetsEachPeriod: boolean;
+  periodStart?: number;
+};
+
+/**
+ * Start of the current UTC calendar month (Unix timestamp)
+ * Period for per-period limits of users without a subscription
+ */
+function startOfUtcMonth(now: number) {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1) / 1000;
+}
+
+/**
+ * Usage quotas based on the limits declared in the product config
+ */
+export class LimitMethods<Products extends Record<string, ProductConfig>> {
+  private readonly component: UseApi<typeof api>;
+  private readonly products: Products;
+  private readonly defaultLimits: Partial<Record<string, LimitConfig>>;
+  private readonly getCurrentSubscription: (
+    ctx: RunQueryCtx,
+    args: { userId: string }
+  ) => Promise<LimitSubscription | null>;
+
+  constructor(
+    component: UseApi<typeof api>,
+    products: Products,
+    defaultLimits: Partial<Record<string, LimitConfig>>,
+    getCurrentSubscription: (
+      ctx: RunQueryCtx,
+      args: { userId: string }
+    ) => Promise<LimitSubscription | null>
+  ) {
+    this.component = component;
+    this.products = products;
+    this.defaultLimits = defaultLimits;
+    this.getCurrentSubscription = getCurrentSubscription;
+  }
+
+  /**
+   * Check whether the user can use `amount` more of a limit, without recording it
+   */
+  async checkLimit(
+    ctx: RunQueryCtx,
+    {
+      userId,
+      limit,
+      amount = 1,
+    }: { userId: string; limit: ProductLimit<Products>; amount?: number }
+  ) {
+    const resolve = await this.getLimitResolver(ctx, { userId });
+    const resolved = resolve(limit);
+    const counters = await this.listCounters(ctx, { userId });
+    const used = this.currentValue(counters, limit, resolved);
+    return {
+      allowed: used + amount <= resolved.max,
+      used,
+      max: resolved.max,
+      remaining: Math.max(0, resolved.max - used),
+    };
+  }
+
+  /**
+   * Record usage of a limit
+   * Throws a `LimitExceededError` if the increment would exceed the limit;
+   * pass a negative amount to release usage (e.g., when a project is deleted)
+   */
+  async incrementUsage(
+    ctx: RunMutationCtx,
+    {
+      userId,
+      limit,
+      amount = 1,
+    }: { userId: string; limit: ProductLimit<Products>; amount?: number }
+  ) {
+    const resolve = await this.getLimitResolver(ctx, { userId });
+    const resolved = resolve(limit);
+    const result = await ctx.runMutation(
+      this.component.lib.incrementUsageCounter,
+      {
+        userId,
+        name: limit,
+        amount,
+        max: Number.isFinite(resolved.max) ? resolved.max : undefined,
+        periodStart: resolved.periodStart,
+      }
+    );
+    if (!result.allowed) {
+      throw new LimitExceededError(limit, resolved.max);
+    }
+    return {
+      used: result.value,
+      max: resolved.max,
+      remaining: Math.max(0, resolved.max - result.value),
+    };
+  }
+
+  /**
+   * Usage of every limit that applies to the user
+   */
+  async getUsageSummary(ctx: RunQueryCtx, { userId }: { userId: string }) {
+    const names = new Set<string>(Object.keys(this.defaultLimits));
+    for (const config of Object.values(this.products)) {
+      for (const name of Object.keys(config.limits ?? {})) {
+        names.add(name);
+      }
+    }
+
+    const resolve = await this.getLimitResolver(ctx, { userId });
+    const counters = await this.listCounters(ctx, { userId });
+    return [...names].map((name) => {
+      const limit = name as ProductLimit<Products>;
+      const resolved = resolve(limit);
+      const { max, resetsEachPeriod, periodStart } = resolved;
+      const used = this.currentValue(counters, limit, resolved);
+      return {
+        limit,
+        used,
+        max,
+        remaining: Math.max(0, max - used),
+        resetsEachPeriod,
+        periodStart,
+      };
+    });
+  }
+
+  /**
+   * Resolve limits from the user's current subscription, then the default limits
+   * Limits declared nowhere resolve to 0
+   * @internal
+   */
+  private async getLimitResolver(
+    ctx: RunQueryCtx,
+    { userId }: { userId: string }
+  ): Promise<(limit: string) => ResolvedLimit> {
+    const subscription = await this.getCurrentSubscription(ctx, { userId });
+    const slug = subscription
+      ? await resolveProductSlug(
+          ctx,
+          this.component,
+          this.products,
+          subscription
+        )
+      : undefined;
+    const productLimits = slug ? this.products[slug]?.limits : undefined;
+
+    return (limit) => {
+      const config = productLimits?.[limit] ?? this.defaultLimits[limit] ?? 0;
+      if (typeof config === "number") {
+        return { max: config, resetsEachPeriod: false };
+      }
+      return {
+        max: config.max,
+        resetsEachPeriod: true,
+        periodStart:
+          subscription?.currentPeriodStart || startOfUtcMonth(Date.now()),
+      };
+    };
+  }
+
+  /**
+   * Stored counter value, or 0 if the counter belongs to an earlier period
+   * @internal
+   */
+  private currentValue(
+    counters: UsageCounter[],
+    limit: string,
+    resolved: ResolvedLimit
+  ) {
+    const counter = counters.find((c) => c.name === limit);
+    if (!counter) {
+      return 0;
+    }
+    if (
+      resolved.periodStart !== undefined &&
+      counter.periodStart !== resolved.periodStart
+    ) {
+      return 0;
+    }
+    return counter.value;
+  }
+
+  private async listCounters(ctx: RunQueryCtx, { userId }: { userId: string }) {
+    return (await ctx.runQuery(this.component.lib.listUsageCounters, {
+      userId,
+    })) as UsageCounter[];
+  }
+}
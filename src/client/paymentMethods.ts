@@ -0,0 +1,143 @@
+import type Stripe from "stripe";
+import type { api } from "../component/_generated/api.js";
+import type { RunActionCtx, RunQueryCtx, UseApi } from "../component/util.js";
+import type { PaymentMethod, StripeCustomer } from "../validators.js";
+import { createCallbackHandles } from "./callbacks.js";
+import { upsertStripeCustomer } from "./sync.js";
+import type { MutationCallbacks } from "./types.js";
+
+/**
+ * Payment method-related methods for the Stripe component
+ */
+export class PaymentMethodMethods {
+  private readonly component: UseApi<typeof api>;
+  private readonly stripe: Stripe;
+  private readonly getOrCreateCustomer: (
+    ctx: RunActionCtx,
+    args: { userId: string; email: string; name?: string }
+  ) => Promise<StripeCustomer>;
+  private readonly mutationCallbacks?: MutationCallbacks;
+
+  constructor(
+    component: UseApi<typeof api>,
+    stripe: Stripe,
+    getOrCreateCustomer: (
+      ctx: RunActionCtx,
+      args: { userId: string; email: string; name?: string }
+    ) => Promise<StripeCustomer>,
+    mutationCallbacks?: MutationCallbacks
+  ) {
+    this.component = component;
+    this.stripe = stripe;
+    this.getOrCreateCustomer = getOrCreateCustomer;
+    this.mutationCallbacks = mutationCallbacks;
+  }
+
+  /**
+   * List payment methods for a user, default first
+   */
+  async listPaymentMethods(
+    ctx: RunQueryCtx,
+    { userId }: { userId: string }
+  ): Promise<PaymentMethod[]> {
+    return (await ctx.runQuery(this.component.lib.listPaymentMethods, {
+      userId,
+    })) as PaymentMethod[];
+  }
+
+  /**
+   * Create a SetupIntent to save a payment method without a purchase
+   * Pass the returned client secret to the Payment Element
+   * The payment method becomes the default once `setup_intent.succeeded` is received
+   */
+  async createSetupIntent(
+    ctx: RunActionCtx,
+    {
+      userId,
+      email,
+      usage = "off_session",
+    }: {
+      userId: string;
+      email: string;
+      usage?: Stripe.SetupIntentCreateParams.Usage;
+    }
+  ) {
+    const customer = await this.getOrCreateCustomer(ctx, { userId, email });
+
+    const setupIntent = await this.stripe.setupIntents.create({
+      customer: customer.stripeCustomerId,
+      usage,
+      automatic_payment_methods: { enabled: true },
+      metadata: { userId },
+    });
+
+    if (!setupIntent.client_secret) {
+      throw new Error("Failed to create setup intent");
+    }
+    return {
+      setupIntentId: setupIntent.id,
+      clientSecret: setupIntent.client_secret,
+    };
+  }
+
+  /**
+   * Make a payment method the default for the user's invoices
+   */
+  async setDefaultPaymentMethod(
+    ctx: RunActionCtx,
+    { userId, paymentMethodId }: { userId: string; paymentMethodId: string }
+  ) {
+    const paymentMethod = await this.getOwnedPaymentMethod(ctx, {
+      userId,
+      paymentMethodId,
+    });
+
+    const customer = await this.stripe.customers.update(
+      paymentMethod.stripeCustomerId,
+      { invoice_settings: { default_payment_method: paymentMethodId } }
+    );
+
+    // Store the new default now rather than waiting for customer.updated
+    const { onCustomerChanged } = await createCallbackHandles(
+      this.mutationCallbacks
+    );
+    await upsertStripeCustomer(ctx, this.component, customer, {
+      syncedAt: Math.floor(Date.now() / 1000),
+      onChange: onCustomerChanged,
+    });
+  }
+
+  /**
+   * Detach a payment method from the user's customer
+   */
+  async detachPaymentMethod(
+    ctx: RunActionCtx,
+    { userId, paymentMethodId }: { userId: string; paymentMethodId: string }
+  ) {
+    await this.getOwnedPaymentMethod(ctx, { userId, paymentMethodId });
+
+    await this.stripe.paymentMethods.detach(paymentMethodId);
+    await ctx.runMutation(this.component.lib.deletePaymentMethod, {
+      stripePaymentMethodId: paymentMethodId,
+      syncedAt: Math.floor(Date.now() / 1000),
+    });
+  }
+
+  /**
+   * Get a stored payment method, ensuring it belongs to the user
+   * @internal
+   */
+  private async getOwnedPaymentMethod(
+    ctx: RunQueryCtx,
+    { userId, paymentMethodId }: { userId: string; paymentMethodId: string }
+  ) {
+    const paymentMethod = (await ctx.runQuery(
+      this.component.lib.getPaymentMethodByStripeId,
+      { stripePaymentMethodId: paymentMethodId }
+    )) as PaymentMethod | null;
+    if (!paymentMethod || paymentMethod.userId !== userId) {
+      throw new Error("Payment method not found");
+    }
+    return paymentMethod;
+  }
+}
@@ -2,6 +2,30 @@ import type { api } from "../component/_generated/api.js";
 import type { RunActionCtx, RunQueryCtx, UseApi } from "../component/util.js";
 import type { ProductConfig } from "./types.js";
 
+/**
+ * Resolve the configured product slug of a subscription through its price
+ * Falls back to the stored product slug when the price is not synced
+ */
+export async function resolveProductSlug<
+  Products extends Record<string, ProductConfig>,
+>(
+  ctx: RunQueryCtx,
+  component: UseApi<typeof api>,
+  products: Products,
+  subscription: { stripePriceId?: string; productSlug?: string }
+): Promise<(keyof Products & string) | undefined> {
+  const price = subscription.stripePriceId
+    ? await ctx.runQuery(component.lib.getPriceByStripeId, {
+        stripePriceId: subscription.stripePriceId,
+      })
+    : null;
+  return Object.keys(products).find((key) =>
+    price
+      ? products[key]?.productId === price.stripeProductId
+      : key === subscription.productSlug
+  );
+}
+
 /**
  * Product and price-related methods for the Stripe component
  */
@@ -0,0 +1,169 @@
+import { createFunctionHandle, type FunctionReference } from "convex/server";
+import type Stripe from "stripe";
+import type { api } from "../component/_generated/api.js";
+import type {
+  RunActionCtx,
+  RunMutationCtx,
+  RunQueryCtx,
+  UseApi,
+} from "../component/util.js";
+import type { SeatUpdate } from "../validators.js";
+import { createCallbackHandles } from "./callbacks.js";
+import { upsertStripeSubscription } from "./sync.js";
+import type { MutationCallbacks } from "./types.js";
+
+type SeatSubscription = {
+  stripeSubscriptionId: string;
+  quantity?: number;
+};
+
+/**
+ * Seat-based billing through the quantity of the subscription's base plan item
+ * Seat changes are debounced in the component and sent to Stripe as one update
+ */
+export class SeatMethods {
+  private readonly component: UseApi<typeof api>;
+  private readonly stripe: Stripe;
+  private readonly updater?: FunctionReference<"action", "internal">;
+  private readonly prorationBehavior: Stripe.SubscriptionItemUpdateParams.ProrationBehavior;
+  private readonly getCurrentSubscription: (
+    ctx: RunQueryCtx,
+    args: { userId: string }
+  ) => Promise<SeatSubscription | null>;
+  private readonly mutationCallbacks?: MutationCallbacks;
+
+  constructor(
+    component: UseApi<typeof api>,
+    stripe: Stripe,
+    updater: FunctionReference<"action", "internal"> | undefined,
+    prorationBehavior: Stripe.SubscriptionItemUpdateParams.ProrationBehavior,
+    getCurrentSubscription: (
+      ctx: RunQueryCtx,
+      args: { userId: string }
+    ) => Promise<SeatSubscription | null>,
+    mutationCallbacks?: MutationCallbacks
+  ) {
+    this.component = component;
+    this.stripe = stripe;
+    this.updater = updater;
+    this.prorationBehavior = prorationBehavior;
+    this.getCurrentSubscription = getCurrentSubscription;
+    this.mutationCallbacks = mutationCallbacks;
+  }
+
+  /**
+   * Change the seat count of the user's current subscription
+   * Changes made in quick succession are sent to Stripe as a single update
+   */
+  async updateSeats(
+    ctx: RunMutationCtx,
+    {
+      userId,
+      quantity,
+      prorationBehavior = this.prorationBehavior,
+    }: {
+      userId: string;
+      quantity: number;
+      prorationBehavior?: Stripe.SubscriptionItemUpdateParams.ProrationBehavior;
+    }
+  ) {
+    if (!this.updater) {
+      throw new Error(
+        "updateSeats requires `seatUpdater` in the StripeComponent config"
+      );
+    }
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw new Error("Seat quantity must be a positive integer");
+    }
+    const subscription = await this.getCurrentSubscription(ctx, { userId });
+    if (!subscription) {
+      throw new Error("No active subscription found");
+    }
+
+    await ctx.runMutation(this.component.lib.requestSeatUpdate, {
+      stripeSubscriptionId: subscription.stripeSubscriptionId,
+      quantity,
+      prorationBehavior,
+      updater: await createFunctionHandle(this.updater),
+    });
+  }
+
+  /**
+   * Seat count of the user's current subscription
+   * `quantity` is the count Stripe last confirmed; `pendingQuantity` is a
+   * requested count that has not been confirmed yet
+   */
+  async getSeats(ctx: RunQueryCtx, { userId }: { userId: string }) {
+    const subscription = await this.getCurrentSubscription(ctx, { userId });
+    if (!subscription) {
+      return null;
+    }
+    const seatUpdate = (await ctx.runQuery(this.component.lib.getSeatUpdate, {
+      stripeSubscriptionId: subscription.stripeSubscriptionId,
+    })) as SeatUpdate | null;
+
+    return {
+      stripeSubscriptionId: subscription.stripeSubscriptionId,
+      quantity: subscription.quantity,
+      pendingQuantity: seatUpdate?.quantity,
+      status: seatUpdate?.status,
+      error: seatUpdate?.error,
+    };
+  }
+
+  /**
+   * Send a subscription's pending seat update to Stripe
+   * Scheduled by the component once seat changes settle
+   */
+  async applySeatUpdate(
+    ctx: RunActionCtx,
+    { stripeSubscriptionId }: { stripeSubscriptionId: string }
+  ) {
+    const seatUpdate = await ctx.runMutation(
+      this.component.lib.claimSeatUpdate,
+      { stripeSubscriptionId }
+    );
+    if (!seatUpdate) {
+      return;
+    }
+
+    let error: string | undefined;
+    try {
+      const subscription =
+        await this.stripe.subscriptions.retrieve(stripeSubscriptionId);
+      const baseItem = subscription.items.data[0];
+      if (!baseItem) {
+        throw new Error("Subscription has no items");
+      }
+      await this.stripe.subscriptionItems.update(baseItem.id, {
+        quantity: seatUpdate.quantity,
+        proration_behavior: seatUpdate.prorationBehavior,
+      });
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    await ctx.runMutation(this.component.lib.settleSeatUpdate, {
+      stripeSubscriptionId,
+      quantity: seatUpdate.quantity,
+      error,
+    });
+    if (error !== undefined) {
+      return;
+    }
+
+    // Store the new count through the stale-write guard, so a late webhook cannot revert it
+    const updated = await this.stripe.subscriptions.retrieve(
+      stripeSubscriptionId,
+      { expand: ["discounts"] }
+    );
+    const { onSubscriptionChanged } = await createCallbackHandles(
+      this.mutationCallbacks
+    );
+    await upsertStripeSubscription(ctx, this.component, updated, {
+      syncedAt: Math.floor(Date.now() / 1000),
+      source: "api",
+      onChange: onSubscriptionChanged,
+    });
+  }
+}
@@ -14,6 +14,15 @@ export function extractMetadata(
   return metadata || undefined;
 }
 
+/**
+ * Extract the ID of an expandable Stripe field
+ */
+export function extractId(
+  value: string | { id: string } | null | undefined
+): string | undefined {
+  return typeof value === "string" ? value : value?.id;
+}
+
 /**
  * Extract subscription period fields from Stripe subscription
  * Period fields are on the subscription items, not the subscription itself
@@ -28,3 +37,57 @@ export function extractSubscriptionPeriod(subscription: Stripe.Subscription): {
     currentPeriodEnd: firstItem?.current_period_end ?? 0,
   };
 }
+
+/**
+ * Extract every item (base plan and add-ons) from Stripe subscription
+ */
+export function extractSubscriptionItems(subscription: Stripe.Subscription) {
+  return subscription.items.data.map((item) => ({
+    stripeSubscriptionItemId: item.id,
+    stripePriceId: item.price.id,
+    stripeProductId: extractId(item.price.product) ?? "",
+    quantity: item.quantity,
+    created: item.created,
+    metadata: extractMetadata(item.metadata),
+  }));
+}
+
+/**
+ * Extract the discounts applied to a Stripe subscription
+ * Unexpanded discounts only carry their ID
+ */
+export function extractDiscounts(
+  discounts: (string | Stripe.Discount | Stripe.DeletedDiscount)[]
+) {
+  return discounts.flatMap((discount) => {
+    if (typeof discount === "string") {
+      return [{ stripeDiscountId: discount }];
+    }
+    if (discount.deleted) {
+      return [];
+    }
+    return [
+      {
+        stripeDiscountId: discount.id,
+        stripeCouponId: extractId(discount.source.coupon),
+        stripePromotionCodeId: extractId(discount.promotion_code),
+        start: discount.start,
+        end: discount.end ?? undefined,
+      },
+    ];
+  });
+}
+
+/**
+ * Extract the amount taken off by each discount on a Stripe invoice
+ */
+export function extractInvoiceDiscounts(invoice: Stripe.Invoice) {
+  const discounts = (invoice.total_discount_amounts ?? []).map((discount) => ({
+    stripeDiscountId: extractId(discount.discount) ?? "",
+    amount: discount.amount,
+  }));
+  return {
+    discount: discounts.reduce((total, discount) => total + discount.amount, 0),
+    discounts,
+  };
+}
@@ -1,11 +1,33 @@
 import type Stripe from "stripe";
 import type { api } from "../component/_generated/api.js";
 import type { RunActionCtx, RunQueryCtx, UseApi } from "../component/util.js";
-import type { StripeCustomer } from "../validators.js";
+import type {
+  CheckoutOptions,
+  CheckoutSession,
+  StripeCustomer,
+  SubscriptionItem,
+} from "../validators.js";
+import { createCallbackHandles } from "./callbacks.js";
+import { resolvePromotionCode } from "./discounts.js";
+import { resolveProductSlug } from "./products.js";
+import { extractId, extractSubscriptionPeriod } from "./stripeUtils.js";
+import {
+  type GrantProductCredits,
+  upsertStripeCheckoutSession,
+  upsertStripeCustomer,
+  upsertStripeInvoice,
+  upsertStripePaymentIntent,
+  upsertStripeSubscription,
+} from "./sync.js";
 import type { ProductConfig, StripeConfig } from "./types.js";
 
 type Customer = StripeCustomer;
 
+const DAY_SECONDS = 24 * 60 * 60;
+
+// Subscription statuses that no longer block a new subscription
+const ENDED_STATUSES = ["canceled", "incomplete_expired"];
+
 /**
  * Subscription-related methods for the Stripe component
  */
@@ -19,10 +41,11 @@ export class SubscriptionMethods<
     ctx: RunQueryCtx,
     args: { userId: string }
   ) => Promise<Customer | null>;
-  private readonly createCustomer: (
+  private readonly getOrCreateCustomer: (
     ctx: RunActionCtx,
     args: { userId: string; email: string; name?: string }
   ) => Promise<Customer>;
+  private readonly grantProductCredits: GrantProductCredits;
 
   constructor(
     component: UseApi<typeof api>,
@@ -32,16 +55,18 @@ export class SubscriptionMethods<
       ctx: RunQueryCtx,
       args: { userId: string }
     ) => Promise<Customer | null>,
-    createCustomer: (
+    getOrCreateCustomer: (
       ctx: RunActionCtx,
       args: { userId: string; email: string; name?: string }
-    ) => Promise<Customer>
+    ) => Promise<Customer>,
+    grantProductCredits: GrantProductCredits
   ) {
     this.component = component;
     this.stripe = stripe;
     this.config = config;
     this.getCustomerByUserId = getCustomerByUserId;
-    this.createCustomer = createCustomer;
+    this.getOrCreateCustomer = getOrCreateCustomer;
+    this.grantProductCredits = grantProductCredits;
   }
 
   /**
@@ -79,50 +104,248 @@ export class SubscriptionMethods<
   }
 
   /**
-   * Generate a Stripe Checkout session URL
+   * Get the status, price and cancellation history of a subscription
+   * Includes subscriptions that have ended
    */
-  async generateCheckoutLink(
-    ctx: RunActionCtx,
-    {
+  getSubscriptionTimeline(
+    ctx: RunQueryCtx,
+    { stripeSubscriptionId }: { stripeSubscriptionId: string }
+  ) {
+    return ctx.runQuery(this.component.lib.getSubscriptionTimeline, {
+      stripeSubscriptionId,
+    });
+  }
+
+  /**
+   * Create a Stripe Checkout session
+   * Returns the hosted page URL, or the client secret of the embedded form
+   * with `uiMode: "embedded"`
+   */
+  async generateCheckoutLink(ctx: RunActionCtx, requested: CheckoutOptions) {
+    const { userId, email } = await this.config.getUserInfo(ctx);
+    const options = this.config.checkoutOptions
+      ? await this.config.checkoutOptions(ctx, {
+          userId,
+          options: requested,
+        })
+      : requested;
+    const {
       priceIds,
+      quantities = {},
       successUrl,
       cancelUrl,
+      returnUrl,
+      uiMode = "hosted",
       mode = "subscription",
-    }: {
-      priceIds: string[];
-      successUrl: string;
-      cancelUrl: string;
-      mode?: "subscription" | "payment";
-    }
-  ) {
-    const { userId, email } = await this.config.getUserInfo(ctx);
+      currency,
+      trialDays,
+      promotionCode,
+      allowPromotionCodes,
+      metadata,
+      subscriptionMetadata,
+      clientReferenceId,
+      automaticTax,
+      billingAddressCollection,
+      shippingAddressCountries,
+      taxIdCollection,
+      locale,
+      consentCollection,
+    } = options;
 
-    // Get or create customer
-    let customer = await this.getCustomerByUserId(ctx, { userId });
-    if (!customer) {
-      customer = await this.createCustomer(ctx, { userId, email });
+    if (promotionCode && allowPromotionCodes) {
+      throw new Error("Pass either promotionCode or allowPromotionCodes");
     }
-
-    if (!customer) {
-      throw new Error("Failed to create customer");
+    if (uiMode === "embedded" ? !returnUrl : !successUrl) {
+      throw new Error(
+        uiMode === "embedded"
+          ? "Embedded checkout requires returnUrl"
+          : "Hosted checkout requires successUrl"
+      );
     }
 
+    const customer = await this.getOrCreateCustomer(ctx, { userId, email });
+    const resolvedPromotionCode =
+      promotionCode && mode !== "setup"
+        ? await resolvePromotionCode(this.stripe, promotionCode, {
+            stripeCustomerId: customer.stripeCustomerId,
+          })
+        : undefined;
+
+    const trialPeriodDays =
+      mode === "subscription"
+        ? (trialDays ??
+          (await this.getEligibleTrialDays(ctx, { userId, priceIds })))
+        : undefined;
+
     // Create checkout session
+    // Setup mode only collects a payment method, so it has no line items
     const session = await this.stripe.checkout.sessions.create({
       customer: customer.stripeCustomerId,
       mode,
-      line_items: priceIds.map((priceId) => ({
-        price: priceId,
-        quantity: 1,
-      })),
-      success_url: successUrl,
-      cancel_url: cancelUrl,
+      ui_mode: uiMode,
+      line_items:
+        mode === "setup"
+          ? undefined
+          : priceIds.map((priceId) => ({
+              price: priceId,
+              quantity: quantities[priceId] ?? 1,
+            })),
+      currency:
+        mode === "setup" ? (currency ?? customer.currency ?? "usd") : undefined,
+      subscription_data:
+        mode === "subscription" && (trialPeriodDays || subscriptionMetadata)
+          ? {
+              trial_period_days: trialPeriodDays || undefined,
+              metadata: subscriptionMetadata,
+            }
+          : undefined,
+      discounts: resolvedPromotionCode
+        ? [{ promotion_code: resolvedPromotionCode.id }]
+        : undefined,
+      allow_promotion_codes: mode === "setup" ? undefined : allowPromotionCodes,
+      metadata,
+      client_reference_id: clientReferenceId,
+      automatic_tax: automaticTax ? { enabled: true } : undefined,
+      billing_address_collection: billingAddressCollection,
+      shipping_address_collection: shippingAddressCountries
+        ? {
+            allowed_countries:
+              shippingAddressCountries as Stripe.Checkout.SessionCreateParams.ShippingAddressCollection.AllowedCountry[],
+          }
+        : undefined,
+      tax_id_collection: taxIdCollection ? { enabled: true } : undefined,
+      // Tax and tax IDs are calculated from what the existing customer enters
+      customer_update:
+        automaticTax || taxIdCollection
+          ? {
+              address: "auto",
+              name: taxIdCollection ? "auto" : undefined,
+              shipping: shippingAddressCountries ? "auto" : undefined,
+            }
+          : undefined,
+      locale: locale as Stripe.Checkout.SessionCreateParams.Locale | undefined,
+      consent_collection: consentCollection
+        ? {
+            promotions: consentCollection.promotions,
+            terms_of_service: consentCollection.termsOfService,
+          }
+        : undefined,
+      success_url: uiMode === "embedded" ? undefined : successUrl,
+      cancel_url: uiMode === "embedded" ? undefined : cancelUrl,
+      return_url: uiMode === "embedded" ? returnUrl : undefined,
     });
 
+    // Record the session, so its outcome can be followed from the success page
+    await upsertStripeCheckoutSession(ctx, this.component, session, {
+      syncedAt: session.created,
+      userId,
+      priceIds: mode === "setup" ? undefined : priceIds,
+    });
+
+    if (uiMode === "embedded") {
+      if (!session.client_secret) {
+        throw new Error("Failed to create checkout session");
+      }
+      return { sessionId: session.id, clientSecret: session.client_secret };
+    }
     if (!session.url) {
       throw new Error("Failed to create checkout session");
     }
-    return { url: session.url };
+    return { sessionId: session.id, url: session.url };
+  }
+
+  /**
+   * Get one of the user's Checkout sessions, with the subscription it created
+   * Returns null for sessions of other users, so a session ID from the URL is safe to pass
+   */
+  async getCheckoutSession(
+    ctx: RunQueryCtx,
+    { userId, sessionId }: { userId: string; sessionId: string }
+  ) {
+    const session = (await ctx.runQuery(this.component.lib.getCheckoutSession, {
+      stripeCheckoutSessionId: sessionId,
+    })) as CheckoutSession | null;
+    if (!session || session.userId !== userId) {
+      return null;
+    }
+
+    const subscription = session.stripeSubscriptionId
+      ? await ctx.runQuery(this.component.lib.getSubscriptionByStripeId, {
+          stripeSubscriptionId: session.stripeSubscriptionId,
+        })
+      : null;
+    return { ...session, subscription };
+  }
+
+  /**
+   * Sync a Checkout session and what it created straight from Stripe
+   * Call it from the success page, so the new subscription shows before its webhooks land;
+   * returns the session like `getCheckoutSession`
+   */
+  async confirmCheckoutSession(
+    ctx: RunActionCtx,
+    { sessionId }: { sessionId: string }
+  ) {
+    const { userId } = await this.config.getUserInfo(ctx);
+
+    const session = await this.stripe.checkout.sessions.retrieve(sessionId, {
+      expand: [
+        "customer",
+        "invoice",
+        "payment_intent",
+        "subscription",
+        "subscription.discounts",
+        "subscription.latest_invoice",
+      ],
+    });
+    const customer = session.customer;
+    if (!customer || typeof customer === "string" || customer.deleted) {
+      throw new Error("Checkout session not found");
+    }
+    const storedCustomer = await ctx.runQuery(
+      this.component.lib.getCustomerByStripeId,
+      { stripeCustomerId: customer.id }
+    );
+    if ((storedCustomer?.userId ?? customer.metadata.userId) !== userId) {
+      throw new Error("Checkout session not found");
+    }
+
+    const syncedAt = Math.floor(Date.now() / 1000);
+    const { onCustomerChanged, onSubscriptionChanged } =
+      await createCallbackHandles(this.config.mutationCallbacks);
+    await upsertStripeCustomer(ctx, this.component, customer, {
+      syncedAt,
+      onChange: onCustomerChanged,
+    });
+
+    const subscription =
+      typeof session.subscription === "string" ? null : session.subscription;
+    if (subscription) {
+      await upsertStripeSubscription(ctx, this.component, subscription, {
+        syncedAt,
+        source: "api",
+        onChange: onSubscriptionChanged,
+      });
+    }
+    // Subscription mode invoices through the subscription, payment mode through the session
+    const invoice = session.invoice ?? subscription?.latest_invoice;
+    if (invoice && typeof invoice !== "string") {
+      await upsertStripeInvoice(ctx, this.component, invoice, { syncedAt });
+    }
+    // Payment mode without an invoice records the purchase from its payment intent
+    const paymentIntent = session.payment_intent;
+    if (paymentIntent && typeof paymentIntent !== "string") {
+      await upsertStripePaymentIntent(ctx, this.component, paymentIntent, {
+        syncedAt,
+        grantProductCredits: this.grantProductCredits,
+      });
+    }
+
+    await upsertStripeCheckoutSession(ctx, this.component, session, {
+      syncedAt,
+      userId,
+    });
+    return await this.getCheckoutSession(ctx, { userId, sessionId });
   }
 
   /**
@@ -175,6 +398,566 @@ export class SubscriptionMethods<
     }
   }
 
+  /**
+   * Undo a scheduled cancellation of the current subscription
+   */
+  async resumeSubscription(ctx: RunActionCtx) {
+    const { userId } = await this.config.getUserInfo(ctx);
+
+    const subscription = await this.getCurrentSubscription(ctx, { userId });
+    if (!subscription) {
+      throw new Error("No active subscription found");
+    }
+    if (!subscription.cancelAtPeriodEnd) {
+      throw new Error("Subscription is not scheduled to cancel");
+    }
+
+    await this.stripe.subscriptions.update(subscription.stripeSubscriptionId, {
+      cancel_at_period_end: false,
+    });
+  }
+
+  /**
+   * Pause payment collection for the current subscription
+   * The subscription stays active; invoices are handled according to `behavior`
+   */
+  async pauseSubscription(
+    ctx: RunActionCtx,
+    {
+      behavior = "void",
+      resumesAt,
+    }: {
+      behavior?: Stripe.SubscriptionUpdateParams.PauseCollection.Behavior;
+      resumesAt?: number;
+    } = {}
+  ) {
+    const { userId } = await this.config.getUserInfo(ctx);
+
+    const subscription = await this.getCurrentSubscription(ctx, { userId });
+    if (!subscription) {
+      throw new Error("No active subscription found");
+    }
+
+    await this.stripe.subscriptions.update(subscription.stripeSubscriptionId, {
+      pause_collection: { behavior, resumes_at: resumesAt },
+    });
+  }
+
+  /**
+   * Resume payment collection for the current subscription
+   */
+  async unpauseSubscription(ctx: RunActionCtx) {
+    const { userId } = await this.config.getUserInfo(ctx);
+
+    const subscription = await this.getCurrentSubscription(ctx, { userId });
+    if (!subscription) {
+      throw new Error("No active subscription found");
+    }
+    if (!subscription.pauseBehavior) {
+      throw new Error("Subscription is not paused");
+    }
+
+    await this.stripe.subscriptions.update(subscription.stripeSubscriptionId, {
+      pause_collection: "",
+    });
+  }
+
+  /**
+   * Start a free trial without collecting a payment method
+   * Uses the product's `trialDays` unless `trialDays` is passed; when the trial
+   * ends without a payment method, Stripe applies `missingPaymentMethod`
+   */
+  async startTrial(
+    ctx: RunActionCtx,
+    {
+      productSlug,
+      priceId,
+      trialDays,
+      missingPaymentMethod = "cancel",
+    }: {
+      productSlug?: string;
+      priceId?: string;
+      trialDays?: number;
+      missingPaymentMethod?: Stripe.SubscriptionCreateParams.TrialSettings.EndBehavior.MissingPaymentMethod;
+    }
+  ) {
+    const { userId, email } = await this.config.getUserInfo(ctx);
+
+    const price = await this.resolvePlanPriceId(ctx, { productSlug, priceId });
+    const days = trialDays ?? (await this.getConfiguredTrialDays(ctx, [price]));
+    if (!days) {
+      throw new Error(`No trial configured for price ${price}`);
+    }
+
+    const subscriptions = await this.listUserSubscriptions(ctx, { userId });
+    if (subscriptions.some((existing) => existing.trialStart !== undefined)) {
+      throw new Error("User has already had a trial");
+    }
+    if (
+      subscriptions.some(
+        (existing) => !ENDED_STATUSES.includes(existing.status)
+      )
+    ) {
+      throw new Error("User already has a subscription");
+    }
+
+    const customer = await this.getOrCreateCustomer(ctx, { userId, email });
+    const subscription = await this.stripe.subscriptions.create(
+      {
+        customer: customer.stripeCustomerId,
+        items: [{ price }],
+        trial_period_days: days,
+        payment_settings: { save_default_payment_method: "on_subscription" },
+        trial_settings: {
+          end_behavior: { missing_payment_method: missingPaymentMethod },
+        },
+      },
+      // Repeated calls before the webhook syncs return the same trial
+      { idempotencyKey: `trial:${customer.stripeCustomerId}:${price}` }
+    );
+
+    return {
+      stripeSubscriptionId: subscription.id,
+      trialEnd: subscription.trial_end ?? undefined,
+    };
+  }
+
+  /**
+   * Push back the end of a user's trial by a number of days
+   */
+  async extendTrial(
+    ctx: RunActionCtx,
+    { userId, days }: { userId: string; days: number }
+  ) {
+    if (!(days > 0)) {
+      throw new Error("Trial extension must be a positive number of days");
+    }
+    const trialing = await this.getTrialingSubscription(ctx, { userId });
+    if (!trialing) {
+      throw new Error("No trialing subscription found");
+    }
+
+    // Extend from Stripe's trial end, which may be ahead of the synced row
+    const subscription = await this.stripe.subscriptions.retrieve(
+      trialing.stripeSubscriptionId
+    );
+    if (subscription.status !== "trialing" || !subscription.trial_end) {
+      throw new Error("Subscription is no longer trialing");
+    }
+    const trialEnd = subscription.trial_end + Math.round(days * DAY_SECONDS);
+    await this.stripe.subscriptions.update(subscription.id, {
+      trial_end: trialEnd,
+      proration_behavior: "none",
+    });
+    return { trialEnd };
+  }
+
+  /**
+   * Days left in the user's trial, or null when the user is not trialing
+   * `hasPaymentMethod` tells the UI whether to ask for a card before the trial ends
+   */
+  async getTrialStatus(ctx: RunQueryCtx, { userId }: { userId: string }) {
+    const subscription = await this.getTrialingSubscription(ctx, { userId });
+    if (!subscription?.trialEnd) {
+      return null;
+    }
+    const paymentMethods = await ctx.runQuery(
+      this.component.lib.listPaymentMethods,
+      { userId }
+    );
+    const secondsLeft = subscription.trialEnd - Math.floor(Date.now() / 1000);
+
+    return {
+      stripeSubscriptionId: subscription.stripeSubscriptionId,
+      productSlug: subscription.productSlug,
+      trialEnd: subscription.trialEnd,
+      daysLeft: Math.max(0, Math.ceil(secondsLeft / DAY_SECONDS)),
+      hasPaymentMethod: paymentMethods.length > 0,
+    };
+  }
+
+  /**
+   * Preview the invoice impact of changing the current subscription's plan
+   * `amountDueToday` is charged when the change is made; prorations created
+   * without `"always_invoice"` are added to the next invoice instead.
+   * Changing the billing interval (e.g., monthly to yearly) starts a new
+   * billing period, so Stripe invoices the change immediately.
+   */
+  async previewPlanChange(
+    ctx: RunActionCtx,
+    {
+      productSlug,
+      priceId,
+      prorationBehavior = this.config.prorationBehavior ?? "create_prorations",
+      at = "now",
+    }: {
+      productSlug?: keyof Products & string;
+      priceId?: string;
+      prorationBehavior?: Stripe.SubscriptionUpdateParams.ProrationBehavior;
+      at?: "now" | "period_end";
+    }
+  ) {
+    const targetPriceId = await this.resolvePlanPriceId(ctx, {
+      productSlug,
+      priceId,
+    });
+    const { subscription, baseItem } =
+      await this.getPlanChangeSubscription(ctx);
+    const targetPrice = await this.stripe.prices.retrieve(targetPriceId);
+    const resetsBillingCycle =
+      at === "now" &&
+      (targetPrice.recurring?.interval !== baseItem.price.recurring?.interval ||
+        targetPrice.recurring?.interval_count !==
+          baseItem.price.recurring?.interval_count);
+
+    const prorationDate = Math.floor(Date.now() / 1000);
+    const preview = await this.stripe.invoices.createPreview({
+      customer: extractId(subscription.customer),
+      subscription: subscription.id,
+      subscription_details: {
+        items: [{ id: baseItem.id, price: targetPriceId }],
+        // Prorations are previewed on the upcoming invoice either way
+        proration_behavior:
+          at === "period_end" || prorationBehavior === "none"
+            ? "none"
+            : "create_prorations",
+        proration_date: prorationDate,
+      },
+    });
+
+    const proratedAmount = preview.lines.data
+      .filter(
+        (line) =>
+          line.parent?.subscription_item_details?.proration ||
+          line.parent?.invoice_item_details?.proration
+      )
+      .reduce((total, line) => total + line.amount, 0);
+
+    let amountDueToday = 0;
+    let nextInvoiceTotal = preview.total;
+    if (resetsBillingCycle) {
+      amountDueToday = preview.amount_due;
+    } else if (at === "now" && prorationBehavior === "always_invoice") {
+      amountDueToday = Math.max(0, proratedAmount);
+      nextInvoiceTotal = preview.total - proratedAmount;
+    }
+
+    return {
+      priceId: targetPriceId,
+      currency: preview.currency,
+      proratedAmount,
+      amountDueToday,
+      nextInvoiceTotal,
+      nextInvoiceAt: preview.next_payment_attempt ?? preview.period_end,
+      // Pass to changePlan so the charge matches the preview
+      prorationDate,
+    };
+  }
+
+  /**
+   * Change the current subscription to another plan
+   * With `at: "period_end"`, the current plan runs until the end of the
+   * billing period through a Stripe subscription schedule
+   * The stored subscription is updated when Stripe sends the subscription webhooks
+   */
+  async changePlan(
+    ctx: RunActionCtx,
+    {
+      productSlug,
+      priceId,
+      prorationBehavior = this.config.prorationBehavior ?? "create_prorations",
+      at = "now",
+      prorationDate,
+    }: {
+      productSlug?: keyof Products & string;
+      priceId?: string;
+      prorationBehavior?: Stripe.SubscriptionUpdateParams.ProrationBehavior;
+      at?: "now" | "period_end";
+      prorationDate?: number;
+    }
+  ) {
+    const targetPriceId = await this.resolvePlanPriceId(ctx, {
+      productSlug,
+      priceId,
+    });
+    const { subscription, baseItem } =
+      await this.getPlanChangeSubscription(ctx);
+    if (baseItem.price.id === targetPriceId) {
+      throw new Error("Subscription is already on this plan");
+    }
+    const scheduleId = extractId(subscription.schedule);
+
+    if (at === "now") {
+      // A plan change scheduled for period end no longer applies
+      if (scheduleId) {
+        await this.stripe.subscriptionSchedules.release(scheduleId);
+      }
+      await this.stripe.subscriptions.update(subscription.id, {
+        items: [{ id: baseItem.id, price: targetPriceId }],
+        proration_behavior: prorationBehavior,
+        proration_date: prorationDate,
+      });
+      return {
+        stripeSubscriptionId: subscription.id,
+        priceId: targetPriceId,
+        effectiveAt: Math.floor(Date.now() / 1000),
+      };
+    }
+
+    const schedule = scheduleId
+      ? await this.stripe.subscriptionSchedules.retrieve(scheduleId)
+      : await this.stripe.subscriptionSchedules.create({
+          from_subscription: subscription.id,
+        });
+    const targetPrice = await this.stripe.prices.retrieve(targetPriceId);
+    const currentItems = subscription.items.data.map((item) => ({
+      price: item.price.id,
+      quantity: item.quantity,
+    }));
+    const { currentPeriodStart, currentPeriodEnd } =
+      extractSubscriptionPeriod(subscription);
+
+    await this.stripe.subscriptionSchedules.update(schedule.id, {
+      end_behavior: "release",
+      phases: [
+        {
+          items: currentItems,
+          start_date: schedule.current_phase?.start_date ?? currentPeriodStart,
+          end_date: currentPeriodEnd,
+        },
+        {
+          items: currentItems.map((item, index) =>
+            index === 0 ? { ...item, price: targetPriceId } : item
+          ),
+          duration: {
+            interval: targetPrice.recurring?.interval ?? "month",
+            interval_count: targetPrice.recurring?.interval_count ?? 1,
+          },
+        },
+      ],
+    });
+    return {
+      stripeSubscriptionId: subscription.id,
+      priceId: targetPriceId,
+      effectiveAt: currentPeriodEnd,
+    };
+  }
+
+  /**
+   * Resolve the Stripe price of a plan change from a configured product or a price
+   * Prices of products that are not configured are rejected
+   * @internal
+   */
+  private async resolvePlanPriceId(
+    ctx: RunQueryCtx,
+    {
+      productSlug,
+      priceId,
+    }: {
+      productSlug?: string;
+      priceId?: string;
+    }
+  ) {
+    if (priceId) {
+      if (!(await this.resolvePriceSlug(ctx, priceId))) {
+        throw new Error(`Price ${priceId} is not a configured product`);
+      }
+      return priceId;
+    }
+    if (!productSlug) {
+      throw new Error("Pass a productSlug or a priceId");
+    }
+    const configured = this.config.products?.[productSlug]?.priceId;
+    if (!configured) {
+      throw new Error(`Product ${productSlug} has no priceId configured`);
+    }
+    return configured;
+  }
+
+  /**
+   * Configured product of a Stripe price: by its `priceId`, then by the synced price's product
+   * @internal
+   */
+  private async resolvePriceSlug(ctx: RunQueryCtx, priceId: string) {
+    const products = this.config.products ?? ({} as Products);
+    return (
+      Object.keys(products).find((key) => products[key]?.priceId === priceId) ??
+      (await resolveProductSlug(ctx, this.component, products, {
+        stripePriceId: priceId,
+      }))
+    );
+  }
+
+  /**
+   * Longest trial configured for the products of the given prices
+   * @internal
+   */
+  private async getConfiguredTrialDays(ctx: RunQueryCtx, priceIds: string[]) {
+    const products = this.config.products ?? ({} as Products);
+    let trialDays: number | undefined;
+    for (const priceId of priceIds) {
+      const slug = await this.resolvePriceSlug(ctx, priceId);
+      const days = slug ? products[slug]?.trialDays : undefined;
+      if (days !== undefined) {
+        trialDays = Math.max(trialDays ?? 0, days);
+      }
+    }
+    return trialDays;
+  }
+
+  /**
+   * Configured trial for a checkout, unless the user has already had a trial
+   * @internal
+   */
+  private async getEligibleTrialDays(
+    ctx: RunQueryCtx,
+    { userId, priceIds }: { userId: string; priceIds: string[] }
+  ) {
+    const subscriptions = await this.listUserSubscriptions(ctx, { userId });
+    if (subscriptions.some((existing) => existing.trialStart !== undefined)) {
+      return;
+    }
+    return await this.getConfiguredTrialDays(ctx, priceIds);
+  }
+
+  /**
+   * The user's trialing subscription, if any
+   * @internal
+   */
+  private async getTrialingSubscription(
+    ctx: RunQueryCtx,
+    { userId }: { userId: string }
+  ) {
+    const subscriptions = await this.listUserSubscriptions(ctx, { userId });
+    return (
+      subscriptions.find(
+        (subscription) => subscription.status === "trialing"
+      ) ?? null
+    );
+  }
+
+  /**
+   * Get the user's current subscription from Stripe, with its base plan item
+   * @internal
+   */
+  private async getPlanChangeSubscription(ctx: RunActionCtx) {
+    const { userId } = await this.config.getUserInfo(ctx);
+
+    const current = await this.getCurrentSubscription(ctx, { userId });
+    if (!current) {
+      throw new Error("No active subscription found");
+    }
+
+    const subscription = await this.stripe.subscriptions.retrieve(
+      current.stripeSubscriptionId
+    );
+    const baseItem = subscription.items.data[0];
+    if (!baseItem) {
+      throw new Error("Subscription has no items");
+    }
+    return { subscription, baseItem };
+  }
+
+  /**
+   * List the items (base plan and add-ons) of a user's subscriptions
+   */
+  async listSubscriptionItems(
+    ctx: RunQueryCtx,
+    {
+      userId,
+      stripeSubscriptionId,
+    }: { userId: string; stripeSubscriptionId?: string }
+  ): Promise<SubscriptionItem[]> {
+    return (await ctx.runQuery(this.component.lib.listSubscriptionItems, {
+      userId,
+      stripeSubscriptionId,
+    })) as SubscriptionItem[];
+  }
+
+  /**
+   * Add a price of a configured add-on product to the current subscription
+   * The stored items are updated when `customer.subscription.updated` is received
+   */
+  async addSubscriptionItem(
+    ctx: RunActionCtx,
+    {
+      priceId,
+      quantity,
+      prorationBehavior = this.config.prorationBehavior ?? "create_prorations",
+    }: {
+      priceId: string;
+      quantity?: number;
+      prorationBehavior?: Stripe.SubscriptionItemCreateParams.ProrationBehavior;
+    }
+  ) {
+    const { userId } = await this.config.getUserInfo(ctx);
+
+    const slug = await this.resolvePriceSlug(ctx, priceId);
+    if (!(slug && this.config.products?.[slug]?.addOn)) {
+      throw new Error(`Price ${priceId} is not a configured add-on`);
+    }
+
+    const subscription = await this.getCurrentSubscription(ctx, { userId });
+    if (!subscription) {
+      throw new Error("No active subscription found");
+    }
+
+    const items = await this.listSubscriptionItems(ctx, {
+      userId,
+      stripeSubscriptionId: subscription.stripeSubscriptionId,
+    });
+    if (items.some((existing) => existing.stripePriceId === priceId)) {
+      throw new Error("Price is already on the subscription");
+    }
+
+    const item = await this.stripe.subscriptionItems.create({
+      subscription: subscription.stripeSubscriptionId,
+      price: priceId,
+      quantity,
+      proration_behavior: prorationBehavior,
+    });
+    return { subscriptionItemId: item.id };
+  }
+
+  /**
+   * Remove an item (e.g., an add-on) from one of the user's subscriptions
+   * The last item cannot be removed; cancel the subscription instead
+   */
+  async removeSubscriptionItem(
+    ctx: RunActionCtx,
+    {
+      subscriptionItemId,
+      prorationBehavior = this.config.prorationBehavior ?? "create_prorations",
+    }: {
+      subscriptionItemId: string;
+      prorationBehavior?: Stripe.SubscriptionItemDeleteParams.ProrationBehavior;
+    }
+  ) {
+    const { userId } = await this.config.getUserInfo(ctx);
+
+    const item = (await ctx.runQuery(
+      this.component.lib.getSubscriptionItemByStripeId,
+      { stripeSubscriptionItemId: subscriptionItemId }
+    )) as SubscriptionItem | null;
+    if (!item || item.userId !== userId) {
+      throw new Error("Subscription item not found");
+    }
+
+    const items = await this.listSubscriptionItems(ctx, {
+      userId,
+      stripeSubscriptionId: item.stripeSubscriptionId,
+    });
+    if (items.length <= 1) {
+      throw new Error(
+        "Cannot remove the last subscription item; cancel the subscription instead"
+      );
+    }
+
+    await this.stripe.subscriptionItems.del(subscriptionItemId, {
+      proration_behavior: prorationBehavior,
+    });
+  }
+
   /**
    * Sync all subscriptions from Stripe to Convex
    * This is useful when migrating from another system or backfilling data
@@ -185,6 +968,7 @@ export class SubscriptionMethods<
   ) {
     await ctx.runAction(this.component.lib.syncSubscriptions, {
       stripeSecretKey,
+      ...(await createCallbackHandles(this.config.mutationCallbacks)),
     });
   }
 }
@@ -0,0 +1,534 @@
+import Stripe from "stripe";
+import type { api } from "../component/_generated/api.js";
+import type { Id } from "../component/_generated/dataModel.js";
+import type {
+  RunActionCtx,
+  RunMutationCtx,
+  UseApi,
+} from "../component/util.js";
+import type { SubscriptionEvent } from "../validators.js";
+import {
+  extractDiscounts,
+  extractId,
+  extractInvoiceDiscounts,
+  extractMetadata,
+  extractSubscriptionItems,
+  extractSubscriptionPeriod,
+} from "./stripeUtils.js";
+
+/**
+ * Store a Stripe customer object in the component
+ * Resolves the app user from `metadata.userId`, then from the stored row
+ * Returns null if the customer does not belong to a known user
+ */
+export async function upsertStripeCustomer(
+  ctx: RunActionCtx,
+  component: UseApi<typeof api>,
+  customer: Stripe.Customer,
+  { syncedAt, onChange }: { syncedAt: number; onChange?: string }
+) {
+  let userId: string | undefined;
+  if (customer.metadata && typeof customer.metadata.userId === "string") {
+    userId = customer.metadata.userId;
+  } else {
+    const existing = await ctx.runQuery(component.lib.getCustomerByStripeId, {
+      stripeCustomerId: customer.id,
+    });
+    userId = existing?.userId;
+  }
+  if (!userId) {
+    return null;
+  }
+  return await ctx.runMutation(component.lib.upsertCustomer, {
+    stripeCustomerId: customer.id,
+    userId,
+    email: customer.email || "",
+    name: customer.name || undefined,
+    currency: customer.currency || undefined,
+    defaultPaymentMethodId: extractId(
+      customer.invoice_settings?.default_payment_method
+    ),
+    created: customer.created,
+    syncedAt,
+    metadata: customer.metadata,
+    onChange,
+  });
+}
+
+/**
+ * Store a Stripe payment method object in the component
+ * Returns null if the payment method is not attached to a synced customer
+ */
+export async function upsertStripePaymentMethod(
+  ctx: RunActionCtx,
+  component: UseApi<typeof api>,
+  paymentMethod: Stripe.PaymentMethod,
+  { syncedAt }: { syncedAt: number }
+) {
+  const stripeCustomerId = extractId(paymentMethod.customer);
+  if (!stripeCustomerId) {
+    return null;
+  }
+  const customer = await ctx.runQuery(component.lib.getCustomerByStripeId, {
+    stripeCustomerId,
+  });
+  if (!customer) {
+    console.error("Customer not found for payment method:", paymentMethod.id);
+    return null;
+  }
+
+  const { card } = paymentMethod;
+  const last4 =
+    card?.last4 ??
+    paymentMethod.sepa_debit?.last4 ??
+    paymentMethod.us_bank_account?.last4 ??
+    undefined;
+
+  return await ctx.runMutation(component.lib.upsertPaymentMethod, {
+    stripePaymentMethodId: paymentMethod.id,
+    customerId: customer._id,
+    stripeCustomerId,
+    userId: customer.userId,
+    type: paymentMethod.type,
+    brand: card?.brand,
+    last4,
+    expMonth: card?.exp_month,
+    expYear: card?.exp_year,
+    created: paymentMethod.created,
+    syncedAt,
+    metadata: paymentMethod.metadata ?? undefined,
+  });
+}
+
+/**
+ * Where a write came from and when Stripe produced the data
+ */
+export type SubscriptionWriteOptions = {
+  syncedAt: number;
+  source: SubscriptionEvent["source"];
+  stripeEventId?: string;
+  onChange?: string;
+};
+
+/**
+ * Store a Stripe subscription object in the component
+ * Shared by webhooks and direct API reads so both map fields the same way
+ * Returns null if the subscription's customer is not synced yet
+ */
+export async function upsertStripeSubscription(
+  ctx: RunActionCtx,
+  component: UseApi<typeof api>,
+  subscription: Stripe.Subscription,
+  { syncedAt, source, stripeEventId, onChange }: SubscriptionWriteOptions
+) {
+  const customerStripeId =
+    typeof subscription.customer === "string"
+      ? subscription.customer
+      : subscription.customer.id;
+
+  const customer = await ctx.runQuery(component.lib.getCustomerByStripeId, {
+    stripeCustomerId: customerStripeId,
+  });
+
+  if (!customer) {
+    console.error("Customer not found for subscription:", subscription.id);
+    return null;
+  }
+
+  const firstItem = subscription.items.data[0];
+  const stripePriceId = firstItem?.price.id;
+  let priceId: Id<"prices"> | undefined;
+  let productSlug: string | undefined;
+  let currency: string | undefined;
+
+  if (stripePriceId) {
+    const price = await ctx.runQuery(component.lib.getPriceByStripeId, {
+      stripePriceId,
+    });
+    priceId = price?._id as Id<"prices"> | undefined;
+    productSlug = price?.slug;
+    currency = price?.currency;
+  }
+
+  const { currentPeriodStart, currentPeriodEnd } =
+    extractSubscriptionPeriod(subscription);
+
+  return await ctx.runMutation(component.lib.upsertSubscription, {
+    stripeSubscriptionId: subscription.id,
+    customerId: customer._id,
+    stripeCustomerId: customerStripeId,
+    userId: customer.userId,
+    status: subscription.status,
+    priceId: priceId ?? undefined,
+    stripePriceId,
+    productSlug,
+    quantity: firstItem?.quantity,
+    // Prefer currency from stored price; fall back to the item's price
+    currency: currency ?? firstItem?.price.currency ?? "usd",
+    currentPeriodStart,
+    currentPeriodEnd,
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    pauseBehavior: subscription.pause_collection?.behavior,
+    pauseResumesAt: subscription.pause_collection?.resumes_at ?? undefined,
+    discounts: extractDiscounts(subscription.discounts ?? []),
+    canceledAt: subscription.canceled_at || undefined,
+    endedAt: subscription.ended_at || undefined,
+    trialStart: subscription.trial_start || undefined,
+    trialEnd: subscription.trial_end || undefined,
+    created: subscription.created,
+    syncedAt,
+    metadata: subscription.metadata,
+    items: extractSubscriptionItems(subscription),
+    source,
+    stripeEventId,
+    onChange,
+  });
+}
+
+/**
+ * Store a Stripe invoice object in the component
+ * Returns null if the invoice's customer is not synced yet
+ */
+export async function upsertStripeInvoice(
+  ctx: RunActionCtx,
+  component: UseApi<typeof api>,
+  invoice: Stripe.Invoice,
+  { syncedAt }: { syncedAt: number }
+) {
+  const customerStripeId =
+    typeof invoice.customer === "string"
+      ? invoice.customer
+      : invoice.customer?.id || "";
+
+  const customer = await ctx.runQuery(component.lib.getCustomerByStripeId, {
+    stripeCustomerId: customerStripeId,
+  });
+
+  if (!customer) {
+    console.error("Customer not found for invoice:", invoice.id);
+    return null;
+  }
+
+  const subscriptionId: Id<"subscriptions"> | undefined = undefined;
+  const stripeSubscriptionId: string | undefined = undefined;
+
+  // Link to subscription only if available via typed fields (not available in current types)
+  // Leave subscriptionId undefined in this handler to respect SDK typings
+
+  return await ctx.runMutation(component.lib.upsertInvoice, {
+    stripeInvoiceId: invoice.id,
+    customerId: customer._id,
+    stripeCustomerId: customerStripeId,
+    userId: customer.userId,
+    subscriptionId: subscriptionId ?? undefined,
+    stripeSubscriptionId,
+    status: invoice.status || "draft",
+    currency: invoice.currency,
+    amountDue: invoice.amount_due,
+    amountPaid: invoice.amount_paid,
+    amountRemaining: invoice.amount_remaining,
+    subtotal: invoice.subtotal,
+    total: invoice.total,
+    tax: undefined,
+    ...extractInvoiceDiscounts(invoice),
+    invoicePdf: invoice.invoice_pdf || undefined,
+    hostedInvoiceUrl: invoice.hosted_invoice_url || undefined,
+    billingReason: invoice.billing_reason || undefined,
+    periodStart: invoice.period_start,
+    periodEnd: invoice.period_end,
+    dueDate: invoice.due_date || undefined,
+    paidAt: invoice.status_transitions?.paid_at || undefined,
+    created: invoice.created,
+    syncedAt,
+    metadata: invoice.metadata || undefined,
+  });
+}
+
+/**
+ * Grant the credits a configured product declares for a purchase
+ */
+export type GrantProductCredits = (
+  ctx: RunMutationCtx,
+  args: {
+    userId: string;
+    productSlug: string;
+    quantity: number;
+    purchaseId: string;
+  }
+) => Promise<{ granted: boolean }>;
+
+/**
+ * Store a Stripe payment intent as a purchase in the invoices table
+ * A succeeded payment intent created outside Checkout names the purchased product
+ * in `metadata.productSlug`, which grants that product's credits
+ * Returns null if the payment intent does not belong to a synced customer
+ */
+export async function upsertStripePaymentIntent(
+  ctx: RunActionCtx,
+  component: UseApi<typeof api>,
+  paymentIntent: Stripe.PaymentIntent,
+  {
+    syncedAt,
+    grantProductCredits,
+  }: { syncedAt: number; grantProductCredits: GrantProductCredits }
+) {
+  const stripeCustomerId = extractId(paymentIntent.customer);
+  if (!stripeCustomerId) {
+    return null;
+  }
+  const customer = await ctx.runQuery(component.lib.getCustomerByStripeId, {
+    stripeCustomerId,
+  });
+  if (!customer) {
+    return null;
+  }
+
+  const succeeded = paymentIntent.status === "succeeded";
+  const result = await ctx.runMutation(component.lib.upsertInvoice, {
+    // Use PaymentIntent id to record purchase in invoices store
+    stripeInvoiceId: paymentIntent.id,
+    customerId: customer._id,
+    stripeCustomerId,
+    userId: customer.userId,
+    subscriptionId: undefined,
+    stripeSubscriptionId: undefined,
+    status: paymentIntent.status,
+    currency: paymentIntent.currency,
+    amountDue: paymentIntent.amount ?? 0,
+    amountPaid: succeeded ? (paymentIntent.amount ?? 0) : 0,
+    amountRemaining: 0,
+    subtotal: paymentIntent.amount ?? 0,
+    total: paymentIntent.amount ?? 0,
+    tax: undefined,
+    invoicePdf: undefined,
+    hostedInvoiceUrl: undefined,
+    billingReason: undefined,
+    periodStart: paymentIntent.created,
+    periodEnd: paymentIntent.created,
+    dueDate: undefined,
+    paidAt: succeeded ? paymentIntent.created : undefined,
+    created: paymentIntent.created,
+    syncedAt,
+    metadata: paymentIntent.metadata || undefined,
+  });
+
+  const productSlug = paymentIntent.metadata?.productSlug;
+  if (succeeded && productSlug) {
+    await grantProductCredits(ctx, {
+      userId: customer.userId,
+      productSlug,
+      quantity: Number(paymentIntent.metadata.quantity ?? 1) || 1,
+      purchaseId: paymentIntent.id,
+    });
+  }
+  return result;
+}
+
+/**
+ * Store the upcoming invoice of a subscription in the component
+ * Returns null if the subscription is not synced yet
+ */
+export async function upsertStripeUpcomingInvoice(
+  ctx: RunActionCtx,
+  component: UseApi<typeof api>,
+  invoice: Stripe.Invoice,
+  {
+    stripeSubscriptionId,
+    syncedAt,
+  }: { stripeSubscriptionId: string; syncedAt: number }
+) {
+  const subscription = await ctx.runQuery(
+    component.lib.getSubscriptionByStripeId,
+    { stripeSubscriptionId }
+  );
+  if (!subscription) {
+    return null;
+  }
+
+  const { discount, discounts } = extractInvoiceDiscounts(invoice);
+
+  return await ctx.runMutation(component.lib.upsertUpcomingInvoice, {
+    stripeSubscriptionId,
+    stripeCustomerId: subscription.stripeCustomerId,
+    userId: subscription.userId,
+    currency: invoice.currency,
+    subtotal: invoice.subtotal,
+    discount,
+    tax: (invoice.total_taxes ?? []).reduce(
+      (total, tax) => total + tax.amount,
+      0
+    ),
+    total: invoice.total,
+    amountDue: invoice.amount_due,
+    lines: invoice.lines.data.map((line) => ({
+      description: line.description ?? undefined,
+      amount: line.amount,
+      quantity: line.quantity ?? undefined,
+      stripePriceId: line.pricing?.price_details?.price,
+      proration: Boolean(
+        line.parent?.subscription_item_details?.proration ||
+          line.parent?.invoice_item_details?.proration
+      ),
+      periodStart: line.period.start,
+      periodEnd: line.period.end,
+    })),
+    discounts,
+    periodStart: invoice.period_start,
+    periodEnd: invoice.period_end,
+    nextPaymentAttempt: invoice.next_payment_attempt ?? undefined,
+    syncedAt,
+  });
+}
+
+/**
+ * Fetch the upcoming invoice of a subscription from Stripe and cache it
+ * Removes the cached invoice if the subscription will not be invoiced again
+ */
+export async function refreshUpcomingInvoice(
+  ctx: RunActionCtx,
+  component: UseApi<typeof api>,
+  stripe: Stripe,
+  { stripeSubscriptionId }: { stripeSubscriptionId: string }
+) {
+  const syncedAt = Math.floor(Date.now() / 1000);
+  let invoice: Stripe.Invoice;
+  try {
+    invoice = await stripe.invoices.createPreview({
+      subscription: stripeSubscriptionId,
+    });
+  } catch (error) {
+    if (
+      error instanceof Stripe.errors.StripeInvalidRequestError &&
+      error.code === "invoice_upcoming_none"
+    ) {
+      await ctx.runMutation(component.lib.deleteUpcomingInvoice, {
+        stripeSubscriptionId,
+      });
+      return null;
+    }
+    throw error;
+  }
+  return await upsertStripeUpcomingInvoice(ctx, component, invoice, {
+    stripeSubscriptionId,
+    syncedAt,
+  });
+}
+
+/**
+ * Store a Stripe coupon object in the component
+ * Deleted coupons are kept so applied discounts can still be described
+ */
+export async function upsertStripeCoupon(
+  ctx: RunActionCtx,
+  component: UseApi<typeof api>,
+  coupon: Stripe.Coupon,
+  { syncedAt, deleted = false }: { syncedAt: number; deleted?: boolean }
+) {
+  return await ctx.runMutation(component.lib.upsertCoupon, {
+    stripeCouponId: coupon.id,
+    name: coupon.name ?? undefined,
+    percentOff: coupon.percent_off ?? undefined,
+    amountOff: coupon.amount_off ?? undefined,
+    currency: coupon.currency ?? undefined,
+    duration: coupon.duration,
+    durationInMonths: coupon.duration_in_months ?? undefined,
+    appliesToProducts: coupon.applies_to?.products,
+    maxRedemptions: coupon.max_redemptions ?? undefined,
+    timesRedeemed: coupon.times_redeemed,
+    redeemBy: coupon.redeem_by ?? undefined,
+    valid: coupon.valid && !deleted,
+    created: coupon.created,
+    syncedAt,
+    metadata: extractMetadata(coupon.metadata),
+  });
+}
+
+/**
+ * Store a Stripe promotion code object in the component
+ * Returns null for promotion codes that do not redeem a coupon
+ */
+export async function upsertStripePromotionCode(
+  ctx: RunActionCtx,
+  component: UseApi<typeof api>,
+  promotionCode: Stripe.PromotionCode,
+  { syncedAt }: { syncedAt: number }
+) {
+  const stripeCouponId = extractId(promotionCode.promotion.coupon);
+  if (!stripeCouponId) {
+    return null;
+  }
+  return await ctx.runMutation(component.lib.upsertPromotionCode, {
+    stripePromotionCodeId: promotionCode.id,
+    code: promotionCode.code,
+    stripeCouponId,
+    active: promotionCode.active,
+    stripeCustomerId: extractId(promotionCode.customer),
+    maxRedemptions: promotionCode.max_redemptions ?? undefined,
+    timesRedeemed: promotionCode.times_redeemed,
+    expiresAt: promotionCode.expires_at ?? undefined,
+    firstTimeTransaction: promotionCode.restrictions.first_time_transaction,
+    minimumAmount: promotionCode.restrictions.minimum_amount ?? undefined,
+    minimumAmountCurrency:
+      promotionCode.restrictions.minimum_amount_currency ?? undefined,
+    created: promotionCode.created,
+    syncedAt,
+    metadata: extractMetadata(promotionCode.metadata),
+  });
+}
+
+/**
+ * Store a Stripe Checkout session object in the component
+ * Resolves the app user from the session's customer unless `userId` is given
+ * Returns null if the session has no customer or it does not belong to a known user
+ */
+export async function upsertStripeCheckoutSession(
+  ctx: RunActionCtx,
+  component: UseApi<typeof api>,
+  session: Stripe.Checkout.Session,
+  {
+    syncedAt,
+    userId,
+    priceIds,
+    paymentFailed = false,
+  }: {
+    syncedAt: number;
+    userId?: string;
+    priceIds?: string[];
+    paymentFailed?: boolean;
+  }
+) {
+  const stripeCustomerId = extractId(session.customer);
+  if (!stripeCustomerId) {
+    return null;
+  }
+  let sessionUserId = userId;
+  if (!sessionUserId) {
+    const customer = await ctx.runQuery(component.lib.getCustomerByStripeId, {
+      stripeCustomerId,
+    });
+    sessionUserId = customer?.userId;
+  }
+  if (!sessionUserId) {
+    return null;
+  }
+
+  return await ctx.runMutation(component.lib.upsertCheckoutSession, {
+    stripeCheckoutSessionId: session.id,
+    userId: sessionUserId,
+    stripeCustomerId,
+    mode: session.mode,
+    status: session.status ?? "open",
+    paymentStatus: paymentFailed ? "failed" : session.payment_status,
+    priceIds,
+    amountTotal: session.amount_total ?? undefined,
+    currency: session.currency ?? undefined,
+    stripeSubscriptionId: extractId(session.subscription),
+    stripePaymentIntentId: extractId(session.payment_intent),
+    stripeInvoiceId: extractId(session.invoice),
+    clientReferenceId: session.client_reference_id ?? undefined,
+    expiresAt: session.expires_at,
+    created: session.created,
+    syncedAt,
+    metadata: extractMetadata(session.metadata),
+  });
+}
@@ -1,5 +1,16 @@
+import type { FunctionReference } from "convex/server";
 import type Stripe from "stripe";
 import type { RunActionCtx, RunQueryCtx } from "../component/util.js";
+import type {
+  CheckoutOptions,
+  CustomerChange,
+  SubscriptionChange,
+} from "../validators.js";
+import type {
+  SubscriptionLifecycleEvent,
+  SubscriptionLifecycleEventOf,
+  SubscriptionLifecycleEventType,
+} from "./lifecycle.js";
 
 /**
  * Configuration for a single product
@@ -7,24 +18,163 @@ import type { RunActionCtx, RunQueryCtx } from "../component/util.js";
 export type ProductConfig = {
   productId: string;
   priceId?: string;
+  /**
+   * Features granted while the user has an active subscription to this product
+   */
+  features?: readonly string[];
+  /**
+   * Numeric quotas while the user has an active subscription to this product
+   */
+  limits?: Record<string, LimitConfig>;
+  /**
+   * Prepaid credits granted once per purchased unit of this product
+   */
+  credits?: CreditConfig;
+  /**
+   * Free trial length for new subscriptions to this product
+   */
+  trialDays?: number;
+  /**
+   * Sold as an add-on: its prices can be added to a subscription with `addSubscriptionItem`
+   */
+  addOn?: boolean;
 };
 
+/**
+ * A numeric quota: a fixed maximum, or a maximum that resets each billing period
+ * Use `Number.POSITIVE_INFINITY` for unlimited
+ */
+export type LimitConfig = number | { max: number; per: "period" };
+
+/**
+ * Credits granted by a purchase, optionally expiring a number of days after it
+ */
+export type CreditConfig =
+  | number
+  | { amount: number; expiresAfterDays: number };
+
+/**
+ * Feature names declared across the configured products
+ */
+export type ProductFeature<Products extends Record<string, ProductConfig>> =
+  Products[keyof Products] extends infer Config
+    ? Config extends { features: readonly (infer Feature extends string)[] }
+      ? Feature
+      : never
+    : never;
+
+/**
+ * Limit names declared across the configured products
+ */
+export type ProductLimit<Products extends Record<string, ProductConfig>> =
+  Products[keyof Products] extends infer Config
+    ? Config extends { limits: infer Limits }
+      ? keyof Limits & string
+      : never
+    : never;
+
 /**
  * Configuration for the Stripe component
  */
 export type StripeConfig<Products extends Record<string, ProductConfig>> = {
   getUserInfo: (ctx: RunQueryCtx) => Promise<{ userId: string; email: string }>;
   products?: Products;
+  /**
+   * Limits for users without an active subscription, and for limits a
+   * subscribed product does not declare
+   */
+  defaultLimits?: Partial<Record<ProductLimit<Products>, LimitConfig>>;
   stripe: Stripe;
   stripeSecretKey: string;
-  webhookSecret: string;
+  /**
+   * Webhook signing secret(s)
+   * Pass several secrets to accept events signed with any of them during a rotation
+   */
+  webhookSecret: string | string[];
+  /**
+   * Webhook callbacks available to every route and to the asynchronous
+   * processor (`processWebhookEvent`)
+   */
+  webhooks?: WebhookCallbacks;
+  /**
+   * App mutations run inside the component's own mutations, so denormalized
+   * app data commits atomically with the synced Stripe data
+   */
+  mutationCallbacks?: MutationCallbacks;
+  /**
+   * Adjust the options of every Checkout session before it is created
+   * Runs on the server, so values it sets cannot be overridden by the frontend
+   */
+  checkoutOptions?: (
+    ctx: RunActionCtx,
+    args: { userId: string; options: CheckoutOptions }
+  ) => Promise<CheckoutOptions>;
+  /**
+   * Proration for plan, seat and add-on changes made through the API
+   * Defaults to `"create_prorations"`; the frontend cannot choose it, so users
+   * cannot skip the charge for an upgrade
+   */
+  prorationBehavior?: Stripe.SubscriptionUpdateParams.ProrationBehavior;
+  /**
+   * App action that sends queued meter events to Stripe
+   * Export `flushMeterEvents` from `api()` and pass its reference here
+   */
+  meterEventFlusher?: FunctionReference<"action", "internal">;
+  /**
+   * App action that sends debounced seat updates to Stripe
+   * Export `applySeatUpdate` from `api()` and pass its reference here
+   */
+  seatUpdater?: FunctionReference<"action", "internal">;
 };
 
 /**
- * Configuration for webhook handling
+ * App mutations called by the component when synced data changes
+ * Define them with `vSubscriptionChange` / `vCustomerChange` as args
  */
-export type WebhookConfig = {
-  path?: string;
+export type MutationCallbacks = {
+  onSubscriptionChanged?: FunctionReference<
+    "mutation",
+    "internal",
+    SubscriptionChange
+  >;
+  onCustomerChanged?: FunctionReference<"mutation", "internal", CustomerChange>;
+};
+
+/**
+ * Any Stripe event type (e.g., "charge.refunded")
+ */
+export type StripeEventType = Stripe.Event["type"];
+
+/**
+ * The Stripe event matching an event type
+ */
+export type StripeEventOf<T extends StripeEventType> = Extract<
+  Stripe.Event,
+  { type: T }
+>;
+
+/**
+ * Handler for a single Stripe event type
+ */
+export type WebhookEventHandler<T extends StripeEventType = StripeEventType> = (
+  ctx: RunActionCtx,
+  event: StripeEventOf<T>
+) => Promise<void>;
+
+/**
+ * Handler for a derived subscription lifecycle event (e.g. "plan_upgraded")
+ */
+export type SubscriptionLifecycleHandler<
+  T extends SubscriptionLifecycleEventType = SubscriptionLifecycleEventType,
+> = (
+  ctx: RunActionCtx,
+  event: SubscriptionLifecycleEventOf<T>
+) => Promise<void>;
+
+/**
+ * Callbacks run after the component has synced a webhook event
+ */
+export type WebhookCallbacks = {
   onCheckoutComplete?: (
     ctx: RunActionCtx,
     event: Stripe.CheckoutSessionCompletedEvent
@@ -49,4 +199,41 @@ export type WebhookConfig = {
     ctx: RunActionCtx,
     event: Stripe.InvoicePaymentFailedEvent
   ) => Promise<void>;
+  onSubscriptionLifecycle?: (
+    ctx: RunActionCtx,
+    event: SubscriptionLifecycleEvent
+  ) => Promise<void>;
+  onAnyEvent?: (ctx: RunActionCtx, event: Stripe.Event) => Promise<void>;
+};
+
+/**
+ * A named webhook endpoint with its own signing secrets
+ * e.g. separate endpoints for platform and Connect events
+ */
+export type WebhookEndpointConfig = {
+  name: string;
+  path: string;
+  secrets: string | string[];
+};
+
+/**
+ * Configuration for webhook handling
+ */
+export type WebhookConfig = WebhookCallbacks & {
+  path?: string;
+  /**
+   * Signing secret(s) for the default route, overriding `webhookSecret`
+   */
+  secrets?: string | string[];
+  /**
+   * Register several named endpoints instead of the default route
+   */
+  endpoints?: WebhookEndpointConfig[];
+  /**
+   * Internal action that processes events asynchronously, usually the
+   * `processWebhookEvent` export of `stripe.api()`
+   * Callbacks must then be set with the `webhooks` option of StripeComponent,
+   * since the processor does not run inside your HTTP router module
+   */
+  processor?: FunctionReference<"action", "internal", { payload: string }>;
 };
@@ -0,0 +1,144 @@
+import { createFunctionHandle, type FunctionReference } from "convex/server";
+import type Stripe from "stripe";
+import type { api } from "../component/_generated/api.js";
+import type {
+  RunActionCtx,
+  RunMutationCtx,
+  RunQueryCtx,
+  UseApi,
+} from "../component/util.js";
+
+/**
+ * Usage-based billing through Stripe Billing Meters
+ * Usage is queued in the component and sent to Stripe by a background flush
+ */
+export class UsageMethods {
+  private readonly component: UseApi<typeof api>;
+  private readonly stripe: Stripe;
+  private readonly flusher?: FunctionReference<"action", "internal">;
+  private readonly getCurrentSubscription: (
+    ctx: RunQueryCtx,
+    args: { userId: string }
+  ) => Promise<{ currentPeriodStart: number } | null>;
+
+  constructor(
+    component: UseApi<typeof api>,
+    stripe: Stripe,
+    flusher: FunctionReference<"action", "internal"> | undefined,
+    getCurrentSubscription: (
+      ctx: RunQueryCtx,
+      args: { userId: string }
+    ) => Promise<{ currentPeriodStart: number } | null>
+  ) {
+    this.component = component;
+    this.stripe = stripe;
+    this.flusher = flusher;
+    this.getCurrentSubscription = getCurrentSubscription;
+  }
+
+  /**
+   * Queue usage for a meter
+   * The identifier makes reporting idempotent; reuse it when retrying the same usage
+   */
+  async recordUsage(
+    ctx: RunMutationCtx,
+    {
+      userId,
+      meter,
+      value,
+      identifier = crypto.randomUUID(),
+      timestamp = Math.floor(Date.now() / 1000),
+    }: {
+      userId: string;
+      meter: string;
+      value: number;
+      identifier?: string;
+      timestamp?: number;
+    }
+  ) {
+    if (!this.flusher) {
+      throw new Error(
+        "recordUsage requires `meterEventFlusher` in the StripeComponent config"
+      );
+    }
+    await ctx.runMutation(this.component.lib.recordMeterEvent, {
+      userId,
+      eventName: meter,
+      value,
+      identifier,
+      timestamp,
+      flusher: await createFunctionHandle(this.flusher),
+    });
+    return { identifier };
+  }
+
+  /**
+   * Send a batch of up to 100 queued meter events to Stripe in one request
+   * on the high-throughput meter event stream
+   * Scheduled by the component; a rejected batch is retried with backoff.
+   * Stripe validates stream events asynchronously and reports invalid ones
+   * with `v1.billing.meter.error_report_triggered` events
+   */
+  async flushMeterEvents(ctx: RunActionCtx) {
+    const events = await ctx.runMutation(
+      this.component.lib.claimMeterEvents,
+      {}
+    );
+    // Another flush already took the due events and schedules the next one
+    if (events.length === 0) {
+      return { sent: 0, failed: 0 };
+    }
+
+    const identifiers = events.map((event) => event.identifier);
+    try {
+      // Stream requests authenticate with a short-lived session token
+      const session = await this.stripe.v2.billing.meterEventSession.create();
+      await this.stripe.v2.billing.meterEventStream.create(
+        {
+          events: events.map((event) => ({
+            event_name: event.eventName,
+            identifier: event.identifier,
+            timestamp: new Date(event.timestamp * 1000).toISOString(),
+            payload: {
+              stripe_customer_id: event.stripeCustomerId,
+              value: String(event.value),
+            },
+          })),
+        },
+        { apiKey: session.authentication_token }
+      );
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      await ctx.runMutation(this.component.lib.settleMeterEvents, {
+        sent: [],
+        failed: identifiers.map((identifier) => ({ identifier, error })),
+      });
+      return { sent: 0, failed: identifiers.length };
+    }
+
+    await ctx.runMutation(this.component.lib.settleMeterEvents, {
+      sent: identifiers,
+      failed: [],
+    });
+    return { sent: identifiers.length, failed: 0 };
+  }
+
+  /**
+   * Usage recorded for a meter in the user's current subscription period
+   */
+  async getCurrentPeriodUsage(
+    ctx: RunQueryCtx,
+    { userId, meter }: { userId: string; meter: string }
+  ) {
+    const subscription = await this.getCurrentSubscription(ctx, { userId });
+    if (!subscription) {
+      return { value: 0, periodStart: undefined };
+    }
+    const value = await ctx.runQuery(this.component.lib.getMeterUsage, {
+      userId,
+      eventName: meter,
+      since: subscription.currentPeriodStart,
+    });
+    return { value, periodStart: subscription.currentPeriodStart };
+  }
+}
@@ -1,10 +1,52 @@
 import type { HttpRouter } from "convex/server";
-import { httpActionGeneric } from "convex/server";
-import type Stripe from "stripe";
+import { createFunctionHandle, httpActionGeneric } from "convex/server";
+import Stripe from "stripe";
 import type { api } from "../component/_generated/api.js";
-import type { Id } from "../component/_generated/dataModel.js";
-import type { RunActionCtx, UseApi } from "../component/util.js";
-import type { ProductConfig, WebhookConfig } from "./types.js";
+import type {
+  RunActionCtx,
+  RunMutationCtx,
+  RunQueryCtx,
+  UseApi,
+} from "../component/util.js";
+import type { WebhookEvent } from "../validators.js";
+import { createCallbackHandles } from "./callbacks.js";
+import {
+  classifySubscriptionUpdate,
+  previousSnapshot,
+  type SubscriptionLifecycleEvent,
+  type SubscriptionLifecycleEventType,
+  type SubscriptionSnapshot,
+  snapshotFromSubscription,
+} from "./lifecycle.js";
+import { extractId } from "./stripeUtils.js";
+import {
+  type GrantProductCredits,
+  refreshUpcomingInvoice,
+  upsertStripeCheckoutSession,
+  upsertStripeCoupon,
+  upsertStripeCustomer,
+  upsertStripeInvoice,
+  upsertStripePaymentIntent,
+  upsertStripePaymentMethod,
+  upsertStripePromotionCode,
+  upsertStripeSubscription,
+  upsertStripeUpcomingInvoice,
+} from "./sync.js";
+import type {
+  MutationCallbacks,
+  ProductConfig,
+  StripeEventType,
+  SubscriptionLifecycleHandler,
+  WebhookCallbacks,
+  WebhookConfig,
+  WebhookEventHandler,
+} from "./types.js";
+
+const DEFAULT_ENDPOINT_NAME = "default";
+
+function toSecretList(secrets: string | string[]) {
+  return Array.isArray(secrets) ? secrets : [secrets];
+}
 
 /**
  * Webhook handling for the Stripe component
@@ -12,75 +54,256 @@ import type { ProductConfig, WebhookConfig } from "./types.js";
 export class WebhookHandler<Products extends Record<string, ProductConfig>> {
   private readonly component: UseApi<typeof api>;
   private readonly stripe: Stripe;
-  private readonly webhookSecret: string;
+  private readonly secrets: string[];
   private readonly products: Products;
+  private readonly grantProductCredits: GrantProductCredits;
+  private readonly callbacks: WebhookCallbacks;
+  private readonly mutationCallbacks?: MutationCallbacks;
+  private readonly cryptoProvider: Stripe.CryptoProvider;
+  private readonly eventHandlers = new Map<
+    StripeEventType,
+    WebhookEventHandler[]
+  >();
+  private readonly anyEventHandlers: WebhookEventHandler[] = [];
+  private readonly lifecycleHandlers = new Map<
+    SubscriptionLifecycleEventType,
+    SubscriptionLifecycleHandler[]
+  >();
 
   constructor(
     component: UseApi<typeof api>,
     stripe: Stripe,
-    webhookSecret: string,
-    products: Products
+    webhookSecret: string | string[],
+    products: Products,
+    grantProductCredits: GrantProductCredits,
+    callbacks: WebhookCallbacks = {},
+    mutationCallbacks?: MutationCallbacks
   ) {
     this.component = component;
     this.stripe = stripe;
-    this.webhookSecret = webhookSecret;
+    this.secrets = toSecretList(webhookSecret);
     this.products = products;
+    this.grantProductCredits = grantProductCredits;
+    this.callbacks = callbacks;
+    this.mutationCallbacks = mutationCallbacks;
+    this.cryptoProvider = Stripe.createSubtleCryptoProvider();
+  }
+
+  /**
+   * Register a handler for a Stripe event type
+   * Handlers run after the component has synced the event, in registration order
+   */
+  on<T extends StripeEventType>(type: T, handler: WebhookEventHandler<T>) {
+    const handlers = this.eventHandlers.get(type) ?? [];
+    // Handlers are only called with events of the type they were registered for
+    handlers.push(handler as unknown as WebhookEventHandler);
+    this.eventHandlers.set(type, handlers);
+  }
+
+  /**
+   * Register a handler for every Stripe event
+   * Runs after the component's sync logic and the event type handlers
+   */
+  onAnyEvent(handler: WebhookEventHandler) {
+    this.anyEventHandlers.push(handler);
+  }
+
+  /**
+   * Register a handler for a derived subscription lifecycle event
+   * e.g. "plan_upgraded", "renewed" or "payment_recovered"
+   */
+  onSubscriptionLifecycle<T extends SubscriptionLifecycleEventType>(
+    type: T,
+    handler: SubscriptionLifecycleHandler<T>
+  ) {
+    const handlers = this.lifecycleHandlers.get(type) ?? [];
+    // Handlers are only called with events of the type they were registered for
+    handlers.push(handler as unknown as SubscriptionLifecycleHandler);
+    this.lifecycleHandlers.set(type, handlers);
   }
 
   /**
    * Register webhook routes on your HTTP router
+   * Registers one route per configured endpoint, or a single default route
    */
   registerRoutes(http: HttpRouter, config: WebhookConfig = {}) {
     const {
       path = "/stripe/webhook",
-      onCheckoutComplete,
-      onSubscriptionCreated,
-      onSubscriptionUpdated,
-      onSubscriptionDeleted,
-      onInvoicePaid,
-      onInvoiceFailed,
+      secrets,
+      endpoints,
+      processor,
+      ...routeCallbacks
     } = config;
 
-    http.route({
-      path,
-      method: "POST",
-      handler: httpActionGeneric(async (ctx, request) => {
-        const body = await request.text();
-        const signature = request.headers.get("stripe-signature");
+    if (processor && Object.keys(routeCallbacks).length > 0) {
+      throw new Error(
+        "Webhook callbacks passed to registerRoutes are not available to the processor; use the `webhooks` option of StripeComponent instead"
+      );
+    }
+    const callbacks = { ...this.callbacks, ...routeCallbacks };
+
+    const routes = endpoints ?? [
+      { name: DEFAULT_ENDPOINT_NAME, path, secrets: secrets ?? this.secrets },
+    ];
+    for (const endpoint of routes) {
+      http.route({
+        path: endpoint.path,
+        method: "POST",
+        handler: this.createRouteHandler(
+          endpoint.name,
+          toSecretList(endpoint.secrets),
+          callbacks,
+          processor
+        ),
+      });
+    }
+  }
+
+  /**
+   * Create the HTTP action for a single webhook endpoint
+   * @internal
+   */
+  private createRouteHandler(
+    endpoint: string,
+    secrets: string[],
+    callbacks: WebhookCallbacks,
+    processor: WebhookConfig["processor"]
+  ) {
+    return httpActionGeneric(async (ctx, request) => {
+      const body = await request.text();
+      const signature = request.headers.get("stripe-signature");
 
-        if (!signature) {
-          return new Response("Missing signature", { status: 400 });
-        }
+      if (!signature) {
+        return new Response("Missing signature", { status: 400 });
+      }
 
-        let event: Stripe.Event;
-        try {
-          event = this.stripe.webhooks.constructEvent(
-            body,
-            signature,
-            this.webhookSecret
-          );
-        } catch (err) {
-          console.error("Webhook signature verification failed:", err);
-          return new Response("Invalid signature", { status: 403 });
-        }
+      const event = await this.verifyEvent(body, signature, secrets);
+      if (!event) {
+        console.error(
+          `Webhook signature verification failed for endpoint "${endpoint}"`
+        );
+        return new Response("Invalid signature", { status: 403 });
+      }
 
-        // Handle the event
-        try {
-          await this.handleWebhookEvent(ctx, event, {
-            onCheckoutComplete,
-            onSubscriptionCreated,
-            onSubscriptionUpdated,
-            onSubscriptionDeleted,
-            onInvoicePaid,
-            onInvoiceFailed,
-          });
-        } catch (err) {
-          console.error("Error handling webhook:", err);
-          return new Response("Webhook handler error", { status: 500 });
-        }
+      // Store the event and let the component process it in the background
+      if (processor) {
+        await ctx.runMutation(this.component.lib.enqueueWebhookEvent, {
+          stripeEventId: event.id,
+          type: event.type,
+          endpoint,
+          created: event.created,
+          payload: body,
+          processor: await createFunctionHandle(processor),
+        });
+        return new Response("OK", { status: 200 });
+      }
 
+      // Skip events that were already processed (Stripe retries deliveries)
+      const claim = await ctx.runMutation(
+        this.component.lib.claimWebhookEvent,
+        {
+          stripeEventId: event.id,
+          type: event.type,
+          endpoint,
+          created: event.created,
+        }
+      );
+      if (claim === "duplicate") {
         return new Response("OK", { status: 200 });
-      }),
+      }
+      if (claim === "in_progress") {
+        return new Response("Event is already being processed", {
+          status: 409,
+        });
+      }
+
+      // Handle the event
+      try {
+        await this.handleWebhookEvent(ctx, event, callbacks);
+      } catch (err) {
+        console.error("Error handling webhook:", err);
+        await ctx.runMutation(this.component.lib.failWebhookEvent, {
+          stripeEventId: event.id,
+          error: err instanceof Error ? err.message : String(err),
+        });
+        return new Response("Webhook handler error", { status: 500 });
+      }
+
+      await ctx.runMutation(this.component.lib.completeWebhookEvent, {
+        stripeEventId: event.id,
+      });
+
+      return new Response("OK", { status: 200 });
+    });
+  }
+
+  /**
+   * Verify the webhook signature against each secret in turn
+   * Uses Web Crypto, so it works in the default Convex runtime
+   * @internal
+   */
+  private async verifyEvent(
+    body: string,
+    signature: string,
+    secrets: string[]
+  ): Promise<Stripe.Event | null> {
+    for (const secret of secrets) {
+      try {
+        return await this.stripe.webhooks.constructEventAsync(
+          body,
+          signature,
+          secret,
+          undefined,
+          this.cryptoProvider
+        );
+      } catch {
+        // Try the next secret (e.g. during a secret rotation)
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Process a stored webhook event payload
+   * Called by the component's webhook queue through the processor action
+   */
+  async processEvent(ctx: RunActionCtx, { payload }: { payload: string }) {
+    const event = JSON.parse(payload) as Stripe.Event;
+    await this.handleWebhookEvent(ctx, event, this.callbacks);
+  }
+
+  /**
+   * List stored webhook events, e.g. dead-lettered ones
+   */
+  listWebhookEvents(
+    ctx: RunQueryCtx,
+    { status, limit }: { status?: WebhookEvent["status"]; limit?: number }
+  ) {
+    return ctx.runQuery(this.component.lib.listWebhookEvents, {
+      status,
+      limit,
+    });
+  }
+
+  /**
+   * Get a stored webhook event by Stripe event ID
+   */
+  getWebhookEvent(
+    ctx: RunQueryCtx,
+    { stripeEventId }: { stripeEventId: string }
+  ) {
+    return ctx.runQuery(this.component.lib.getWebhookEvent, { stripeEventId });
+  }
+
+  /**
+   * Replay one webhook event, or all dead-lettered events if no ID is given
+   */
+  replayWebhookEvents(
+    ctx: RunMutationCtx,
+    { stripeEventId }: { stripeEventId?: string } = {}
+  ) {
+    return ctx.runMutation(this.component.lib.replayWebhookEvents, {
+      stripeEventId,
     });
   }
 
@@ -91,19 +314,25 @@ export class WebhookHandler<Products extends Record<string, ProductConfig>> {
   private async handleWebhookEvent(
     ctx: RunActionCtx,
     event: Stripe.Event,
-    callbacks: Omit<WebhookConfig, "path">
+    callbacks: WebhookCallbacks
   ) {
     switch (event.type) {
       case "checkout.session.completed":
-        await this.handleCheckoutComplete(ctx, event);
+        await this.handleCheckoutSessionEvent(ctx, event);
         if (callbacks.onCheckoutComplete) {
           await callbacks.onCheckoutComplete(ctx, event);
         }
         break;
 
+      case "checkout.session.expired":
+      case "checkout.session.async_payment_succeeded":
+      case "checkout.session.async_payment_failed":
+        await this.handleCheckoutSessionEvent(ctx, event);
+        break;
+
       case "customer.subscription.created":
       case "customer.subscription.updated":
-        await this.handleSubscriptionUpdate(ctx, event);
+        await this.handleSubscriptionUpdate(ctx, event, callbacks);
         if (
           event.type === "customer.subscription.created" &&
           callbacks.onSubscriptionCreated
@@ -117,6 +346,10 @@ export class WebhookHandler<Products extends Record<string, ProductConfig>> {
         }
         break;
 
+      case "customer.subscription.trial_will_end":
+        await this.handleTrialWillEnd(ctx, event, callbacks);
+        break;
+
       case "customer.subscription.deleted":
         await this.handleSubscriptionDelete(ctx, event);
         if (callbacks.onSubscriptionDeleted) {
@@ -140,6 +373,18 @@ export class WebhookHandler<Products extends Record<string, ProductConfig>> {
         }
         break;
 
+      case "invoice.upcoming":
+        await this.handleInvoiceUpcoming(ctx, event);
+        break;
+      case "invoice.created":
+        await this.refreshCachedUpcomingInvoice(
+          ctx,
+          extractId(
+            event.data.object.parent?.subscription_details?.subscription
+          )
+        );
+        break;
+
       case "product.created":
       case "product.updated":
         await this.handleProductUpdate(ctx, event);
@@ -156,6 +401,24 @@ export class WebhookHandler<Products extends Record<string, ProductConfig>> {
         await this.handlePriceDeleted(ctx, event);
         break;
 
+      case "coupon.created":
+      case "coupon.updated":
+      case "coupon.deleted":
+        await upsertStripeCoupon(ctx, this.component, event.data.object, {
+          syncedAt: event.created,
+          deleted: event.type === "coupon.deleted",
+        });
+        break;
+      case "promotion_code.created":
+      case "promotion_code.updated":
+        await upsertStripePromotionCode(
+          ctx,
+          this.component,
+          event.data.object,
+          { syncedAt: event.created }
+        );
+        break;
+
       case "customer.updated":
         await this.handleCustomerUpdated(ctx, event);
         break;
@@ -163,90 +426,283 @@ export class WebhookHandler<Products extends Record<string, ProductConfig>> {
         await this.handleCustomerDeleted(ctx, event);
         break;
 
+      case "payment_method.attached":
+      case "payment_method.updated":
+        await this.handlePaymentMethodUpdate(ctx, event);
+        break;
+      case "payment_method.detached":
+        await this.handlePaymentMethodDetached(ctx, event);
+        break;
+      case "entitlements.active_entitlement_summary.updated":
+        await this.handleActiveEntitlementSummaryUpdated(ctx, event);
+        break;
+
+      case "setup_intent.succeeded":
+        await this.handleSetupIntentSucceeded(ctx, event);
+        break;
+
       case "payment_intent.succeeded":
       case "payment_intent.canceled":
         await this.handlePaymentIntentEvent(ctx, event);
         break;
 
       default:
-        // Unhandled event type
+        // Not synced by the component; handled by event handlers below
         break;
     }
+
+    for (const handler of this.eventHandlers.get(event.type) ?? []) {
+      await handler(ctx, event);
+    }
+    for (const handler of this.anyEventHandlers) {
+      await handler(ctx, event);
+    }
+    if (callbacks.onAnyEvent) {
+      await callbacks.onAnyEvent(ctx, event);
+    }
   }
 
-  private async handleCheckoutComplete(
-    _ctx: RunActionCtx,
-    _event: Stripe.CheckoutSessionCompletedEvent
+  private async handleCheckoutSessionEvent(
+    ctx: RunActionCtx,
+    event:
+      | Stripe.CheckoutSessionCompletedEvent
+      | Stripe.CheckoutSessionExpiredEvent
+      | Stripe.CheckoutSessionAsyncPaymentSucceededEvent
+      | Stripe.CheckoutSessionAsyncPaymentFailedEvent
   ) {
-    // Checkout completed
+    const session = event.data.object;
+    const result = await upsertStripeCheckoutSession(
+      ctx,
+      this.component,
+      session,
+      {
+        syncedAt: event.created,
+        paymentFailed: event.type === "checkout.session.async_payment_failed",
+      }
+    );
+    if (!result) {
+      console.warn("Customer not found for checkout session:", session.id);
+      return;
+    }
+
+    // Asynchronous payment methods complete the session before the payment succeeds,
+    // so their credits are granted by async_payment_succeeded
+    if (
+      (event.type === "checkout.session.completed" &&
+        session.payment_status !== "unpaid") ||
+      event.type === "checkout.session.async_payment_succeeded"
+    ) {
+      await this.grantCheckoutCredits(ctx, session);
+    }
+  }
+
+  private async grantCheckoutCredits(
+    ctx: RunActionCtx,
+    session: Stripe.Checkout.Session
+  ) {
+    const stripeCustomerId = extractId(session.customer);
+    if (!stripeCustomerId) {
+      return;
+    }
+    const customer = await ctx.runQuery(
+      this.component.lib.getCustomerByStripeId,
+      { stripeCustomerId }
+    );
+    if (!customer) {
+      return;
+    }
+
+    // Key the grant by the payment intent, like payment_intent.succeeded does
+    const purchaseId = extractId(session.payment_intent) ?? session.id;
+    const lineItems = await this.stripe.checkout.sessions
+      .listLineItems(session.id)
+      .autoPagingToArray({ limit: 10_000 });
+    for (const item of lineItems) {
+      const productSlug = this.getProductSlug(extractId(item.price?.product));
+      if (!productSlug) {
+        continue;
+      }
+      await this.grantProductCredits(ctx, {
+        userId: customer.userId,
+        productSlug,
+        quantity: item.quantity ?? 1,
+        purchaseId,
+      });
+    }
   }
 
   private async handleSubscriptionUpdate(
     ctx: RunActionCtx,
     event:
       | Stripe.CustomerSubscriptionCreatedEvent
-      | Stripe.CustomerSubscriptionUpdatedEvent
+      | Stripe.CustomerSubscriptionUpdatedEvent,
+    callbacks: WebhookCallbacks
   ) {
-    const subscription = event.data.object;
-    const customerStripeId =
-      typeof subscription.customer === "string"
-        ? subscription.customer
-        : subscription.customer.id;
+    const subscription = await this.withExpandedDiscounts(event.data.object);
 
-    const customer = await ctx.runQuery(
-      this.component.lib.getCustomerByStripeId,
+    // Read the stored row before it is overwritten, to classify the update
+    const stored =
+      event.type === "customer.subscription.updated"
+        ? await this.getStoredSnapshot(ctx, subscription.id)
+        : undefined;
+
+    const { onSubscriptionChanged } = await createCallbackHandles(
+      this.mutationCallbacks
+    );
+    const result = await upsertStripeSubscription(
+      ctx,
+      this.component,
+      subscription,
       {
-        stripeCustomerId: customerStripeId,
+        syncedAt: event.created,
+        source: "webhook",
+        stripeEventId: event.id,
+        onChange: onSubscriptionChanged,
       }
     );
 
-    if (!customer) {
-      console.error("Customer not found for subscription:", subscription.id);
+    if (event.type === "customer.subscription.updated" && result?.applied) {
+      await this.refreshCachedUpcomingInvoice(ctx, subscription.id);
+      const current = snapshotFromSubscription(subscription);
+      const previous = previousSnapshot(
+        current,
+        event.data.previous_attributes,
+        stored
+      );
+      for (const lifecycleEvent of classifySubscriptionUpdate(
+        subscription,
+        previous,
+        current
+      )) {
+        await this.dispatchLifecycleEvent(ctx, lifecycleEvent, callbacks);
+      }
+    }
+  }
+
+  private async handleTrialWillEnd(
+    ctx: RunActionCtx,
+    event: Stripe.CustomerSubscriptionTrialWillEndEvent,
+    callbacks: WebhookCallbacks
+  ) {
+    const subscription = await this.withExpandedDiscounts(event.data.object);
+    const { onSubscriptionChanged } = await createCallbackHandles(
+      this.mutationCallbacks
+    );
+    await upsertStripeSubscription(ctx, this.component, subscription, {
+      syncedAt: event.created,
+      source: "webhook",
+      stripeEventId: event.id,
+      onChange: onSubscriptionChanged,
+    });
+
+    if (!subscription.trial_end) {
       return;
     }
+    const hasPaymentMethod =
+      Boolean(subscription.default_payment_method) ||
+      (await this.hasStoredPaymentMethod(
+        ctx,
+        extractId(subscription.customer)
+      ));
+    await this.dispatchLifecycleEvent(
+      ctx,
+      {
+        type: "trial_ending",
+        subscription,
+        trialEnd: subscription.trial_end,
+        hasPaymentMethod,
+      },
+      callbacks
+    );
+  }
 
-    const firstItem = subscription.items.data[0];
-    const stripePriceId = firstItem?.price.id;
-    let priceId: Id<"prices"> | undefined;
-    let productSlug: string | undefined;
-    let currency: string | undefined;
+  /**
+   * Webhook payloads only carry discount IDs; fetch the coupons and
+   * promotion codes behind them
+   * @internal
+   */
+  private async withExpandedDiscounts(subscription: Stripe.Subscription) {
+    if (
+      !subscription.discounts?.some((discount) => typeof discount === "string")
+    ) {
+      return subscription;
+    }
+    const { discounts } = await this.stripe.subscriptions.retrieve(
+      subscription.id,
+      { expand: ["discounts"] }
+    );
+    return { ...subscription, discounts };
+  }
 
-    if (stripePriceId) {
-      const price = await ctx.runQuery(this.component.lib.getPriceByStripeId, {
-        stripePriceId,
-      });
-      priceId = price?._id as Id<"prices"> | undefined;
-      productSlug = price?.slug;
-      currency = price?.currency;
+  /**
+   * Whether the customer has any synced payment method
+   * @internal
+   */
+  private async hasStoredPaymentMethod(
+    ctx: RunActionCtx,
+    stripeCustomerId: string | undefined
+  ) {
+    const customer = stripeCustomerId
+      ? await ctx.runQuery(this.component.lib.getCustomerByStripeId, {
+          stripeCustomerId,
+        })
+      : null;
+    if (!customer) {
+      return false;
     }
+    const paymentMethods = await ctx.runQuery(
+      this.component.lib.listPaymentMethods,
+      { userId: customer.userId }
+    );
+    return paymentMethods.length > 0;
+  }
 
-    // Derive period and currency using only strongly typed fields
-    const currentPeriodStart = 0;
-    const currentPeriodEnd = 0;
-    // Price currency already derived above when possible
+  /**
+   * Run the registered handlers and the callback for a lifecycle event
+   * @internal
+   */
+  private async dispatchLifecycleEvent(
+    ctx: RunActionCtx,
+    lifecycleEvent: SubscriptionLifecycleEvent,
+    callbacks: WebhookCallbacks
+  ) {
+    for (const handler of this.lifecycleHandlers.get(lifecycleEvent.type) ??
+      []) {
+      await handler(ctx, lifecycleEvent);
+    }
+    if (callbacks.onSubscriptionLifecycle) {
+      await callbacks.onSubscriptionLifecycle(ctx, lifecycleEvent);
+    }
+  }
 
-    await ctx.runMutation(this.component.lib.upsertSubscription, {
-      stripeSubscriptionId: subscription.id,
-      customerId: customer._id,
-      stripeCustomerId: customerStripeId,
-      userId: customer.userId,
-      status: subscription.status,
-      priceId: priceId ?? undefined,
-      stripePriceId,
-      productSlug,
-      // Prefer currency from stored price; fall back to event item's price
-      currency: currency ?? firstItem?.price.currency ?? "usd",
-      // Use top-level subscription period fields
-      currentPeriodStart,
-      currentPeriodEnd,
-      cancelAtPeriodEnd: subscription.cancel_at_period_end,
-      canceledAt: subscription.canceled_at || undefined,
-      endedAt: subscription.ended_at || undefined,
-      trialStart: subscription.trial_start || undefined,
-      trialEnd: subscription.trial_end || undefined,
-      created: subscription.created,
-      metadata: subscription.metadata,
-    });
+  /**
+   * Snapshot of the stored subscription row, including its price amount
+   * @internal
+   */
+  private async getStoredSnapshot(
+    ctx: RunActionCtx,
+    stripeSubscriptionId: string
+  ): Promise<SubscriptionSnapshot | undefined> {
+    const row = await ctx.runQuery(
+      this.component.lib.getSubscriptionByStripeId,
+      { stripeSubscriptionId }
+    );
+    if (!row) {
+      return;
+    }
+    const price = row.stripePriceId
+      ? await ctx.runQuery(this.component.lib.getPriceByStripeId, {
+          stripePriceId: row.stripePriceId,
+        })
+      : null;
+    return {
+      status: row.status,
+      stripePriceId: row.stripePriceId,
+      unitAmount: price?.unitAmount,
+      currentPeriodStart: row.currentPeriodStart,
+      currentPeriodEnd: row.currentPeriodEnd,
+      cancelAtPeriodEnd: row.cancelAtPeriodEnd,
+    };
   }
 
   private async handleSubscriptionDelete(
@@ -254,8 +710,17 @@ export class WebhookHandler<Products extends Record<string, ProductConfig>> {
     event: Stripe.CustomerSubscriptionDeletedEvent
   ) {
     const subscription = event.data.object;
-    await ctx.runMutation(this.component.lib.deleteSubscription, {
+    const { onSubscriptionChanged } = await createCallbackHandles(
+      this.mutationCallbacks
+    );
+    await ctx.runMutation(this.component.lib.endSubscription, {
       stripeSubscriptionId: subscription.id,
+      status: subscription.status,
+      endedAt: subscription.ended_at ?? undefined,
+      syncedAt: event.created,
+      source: "webhook",
+      stripeEventId: event.id,
+      onChange: onSubscriptionChanged,
     });
   }
 
@@ -266,55 +731,56 @@ export class WebhookHandler<Products extends Record<string, ProductConfig>> {
       | Stripe.InvoicePaymentFailedEvent
       | Stripe.InvoiceFinalizedEvent
   ) {
-    const invoice = event.data.object;
-    const customerStripeId =
-      typeof invoice.customer === "string"
-        ? invoice.customer
-        : invoice.customer?.id || "";
+    await upsertStripeInvoice(ctx, this.component, event.data.object, {
+      syncedAt: event.created,
+    });
+  }
 
-    const customer = await ctx.runQuery(
-      this.component.lib.getCustomerByStripeId,
-      {
-        stripeCustomerId: customerStripeId,
-      }
+  private async handleInvoiceUpcoming(
+    ctx: RunActionCtx,
+    event: Stripe.InvoiceUpcomingEvent
+  ) {
+    const invoice = event.data.object;
+    const stripeSubscriptionId = extractId(
+      invoice.parent?.subscription_details?.subscription
     );
-
-    if (!customer) {
-      console.error("Customer not found for invoice:", invoice.id);
+    if (!stripeSubscriptionId) {
       return;
     }
+    await upsertStripeUpcomingInvoice(ctx, this.component, invoice, {
+      stripeSubscriptionId,
+      syncedAt: event.created,
+    });
+  }
 
-    const subscriptionId: Id<"subscriptions"> | undefined = undefined;
-    const stripeSubscriptionId: string | undefined = undefined;
-
-    // Link to subscription only if available via typed fields (not available in current types)
-    // Leave subscriptionId undefined in this handler to respect SDK typings
-
-    await ctx.runMutation(this.component.lib.upsertInvoice, {
-      stripeInvoiceId: invoice.id,
-      customerId: customer._id,
-      stripeCustomerId: customerStripeId,
-      userId: customer.userId,
-      subscriptionId: subscriptionId ?? undefined,
+  /**
+   * Refetch a subscription's upcoming invoice if the app has cached it
+   * The cache is best effort, so Stripe errors do not fail the webhook
+   * @internal
+   */
+  private async refreshCachedUpcomingInvoice(
+    ctx: RunActionCtx,
+    stripeSubscriptionId: string | undefined
+  ) {
+    if (!stripeSubscriptionId) {
+      return;
+    }
+    const cached = await ctx.runQuery(this.component.lib.getUpcomingInvoice, {
       stripeSubscriptionId,
-      status: invoice.status || "draft",
-      currency: invoice.currency,
-      amountDue: invoice.amount_due,
-      amountPaid: invoice.amount_paid,
-      amountRemaining: invoice.amount_remaining,
-      subtotal: invoice.subtotal,
-      total: invoice.total,
-      tax: undefined,
-      invoicePdf: invoice.invoice_pdf || undefined,
-      hostedInvoiceUrl: invoice.hosted_invoice_url || undefined,
-      billingReason: invoice.billing_reason || undefined,
-      periodStart: invoice.period_start,
-      periodEnd: invoice.period_end,
-      dueDate: invoice.due_date || undefined,
-      paidAt: invoice.status_transitions?.paid_at || undefined,
-      created: invoice.created,
-      metadata: invoice.metadata || undefined,
     });
+    if (!cached) {
+      return;
+    }
+    try {
+      await refreshUpcomingInvoice(ctx, this.component, this.stripe, {
+        stripeSubscriptionId,
+      });
+    } catch (error) {
+      console.error(
+        `Failed to refresh upcoming invoice for ${stripeSubscriptionId}:`,
+        error
+      );
+    }
   }
 
   private async handleProductUpdate(
@@ -322,9 +788,7 @@ export class WebhookHandler<Products extends Record<string, ProductConfig>> {
     event: Stripe.ProductCreatedEvent | Stripe.ProductUpdatedEvent
   ) {
     const product = event.data.object;
-    const slug = Object.keys(this.products).find(
-      (key) => this.products[key as keyof Products]?.productId === product.id
-    );
+    const slug = this.getProductSlug(product.id);
 
     await ctx.runMutation(this.component.lib.upsertProduct, {
       stripeProductId: product.id,
@@ -335,6 +799,7 @@ export class WebhookHandler<Products extends Record<string, ProductConfig>> {
       slug,
       created: product.created,
       updated: product.updated,
+      syncedAt: event.created,
       metadata: product.metadata,
     });
   }
@@ -346,6 +811,7 @@ export class WebhookHandler<Products extends Record<string, ProductConfig>> {
     const product = event.data.object;
     await ctx.runMutation(this.component.lib.deactivateProduct, {
       stripeProductId: product.id,
+      syncedAt: event.created,
     });
   }
 
@@ -386,6 +852,7 @@ export class WebhookHandler<Products extends Record<string, ProductConfig>> {
       recurringIntervalCount: price.recurring?.interval_count || undefined,
       slug: priceSlug,
       created: price.created,
+      syncedAt: event.created,
       metadata: price.metadata,
     });
   }
@@ -397,6 +864,7 @@ export class WebhookHandler<Products extends Record<string, ProductConfig>> {
     const price = event.data.object;
     await ctx.runMutation(this.component.lib.deactivatePrice, {
       stripePriceId: price.id,
+      syncedAt: event.created,
     });
   }
 
@@ -404,31 +872,100 @@ export class WebhookHandler<Products extends Record<string, ProductConfig>> {
     ctx: RunActionCtx,
     event: Stripe.CustomerUpdatedEvent
   ) {
-    const c = event.data.object;
-    // Determine userId: prefer metadata.userId; otherwise look up existing record
-    let userId: string | undefined;
-    if (c.metadata && typeof c.metadata.userId === "string") {
-      userId = c.metadata.userId;
-    } else {
-      const existing = await ctx.runQuery(
-        this.component.lib.getCustomerByStripeId,
-        {
-          stripeCustomerId: c.id,
-        }
-      );
-      userId = existing?.userId;
+    const { onCustomerChanged } = await createCallbackHandles(
+      this.mutationCallbacks
+    );
+    await upsertStripeCustomer(ctx, this.component, event.data.object, {
+      syncedAt: event.created,
+      onChange: onCustomerChanged,
+    });
+  }
+
+  private async handlePaymentMethodUpdate(
+    ctx: RunActionCtx,
+    event: Stripe.PaymentMethodAttachedEvent | Stripe.PaymentMethodUpdatedEvent
+  ) {
+    await upsertStripePaymentMethod(ctx, this.component, event.data.object, {
+      syncedAt: event.created,
+    });
+  }
+
+  private async handleActiveEntitlementSummaryUpdated(
+    ctx: RunActionCtx,
+    event: Stripe.EntitlementsActiveEntitlementSummaryUpdatedEvent
+  ) {
+    const summary = event.data.object;
+    // The summary embeds one page of entitlements; fetch the rest if needed
+    const entitlements = summary.entitlements.has_more
+      ? await this.stripe.entitlements.activeEntitlements
+          .list({ customer: summary.customer, limit: 100 })
+          .autoPagingToArray({ limit: 10_000 })
+      : summary.entitlements.data;
+
+    await ctx.runMutation(this.component.lib.replaceActiveEntitlements, {
+      stripeCustomerId: summary.customer,
+      entitlements: entitlements.map((entitlement) => ({
+        stripeEntitlementId: entitlement.id,
+        stripeFeatureId:
+          typeof entitlement.feature === "string"
+            ? entitlement.feature
+            : entitlement.feature.id,
+        lookupKey: entitlement.lookup_key,
+      })),
+      syncedAt: event.created,
+    });
+  }
+
+  /**
+   * Store the payment method saved by a SetupIntent and make it the default
+   * @internal
+   */
+  private async handleSetupIntentSucceeded(
+    ctx: RunActionCtx,
+    event: Stripe.SetupIntentSucceededEvent
+  ) {
+    const setupIntent = event.data.object;
+    const paymentMethodId = extractId(setupIntent.payment_method);
+    const stripeCustomerId = extractId(setupIntent.customer);
+    if (!(paymentMethodId && stripeCustomerId)) {
+      return;
     }
-    if (!userId) {
+
+    const customer = await ctx.runQuery(
+      this.component.lib.getCustomerByStripeId,
+      { stripeCustomerId }
+    );
+    if (!customer) {
+      console.error("Customer not found for setup intent:", setupIntent.id);
       return;
     }
-    await ctx.runMutation(this.component.lib.upsertCustomer, {
-      stripeCustomerId: c.id,
-      userId,
-      email: c.email || "",
-      name: c.name || undefined,
-      currency: c.currency || undefined,
-      created: c.created,
-      metadata: c.metadata,
+
+    // SetupIntents with a customer attach the payment method on success
+    const paymentMethod =
+      await this.stripe.paymentMethods.retrieve(paymentMethodId);
+    await upsertStripePaymentMethod(ctx, this.component, paymentMethod, {
+      syncedAt: event.created,
+    });
+
+    const updated = await this.stripe.customers.update(stripeCustomerId, {
+      invoice_settings: { default_payment_method: paymentMethodId },
+    });
+    const { onCustomerChanged } = await createCallbackHandles(
+      this.mutationCallbacks
+    );
+    await upsertStripeCustomer(ctx, this.component, updated, {
+      syncedAt: Math.floor(Date.now() / 1000),
+      onChange: onCustomerChanged,
+    });
+  }
+
+  private async handlePaymentMethodDetached(
+    ctx: RunActionCtx,
+    event: Stripe.PaymentMethodDetachedEvent
+  ) {
+    await ctx.runMutation(this.component.lib.deletePaymentMethod, {
+      stripePaymentMethodId: event.data.object.id,
+      syncedAt: event.created,
     });
   }
 
@@ -437,8 +974,12 @@ export class WebhookHandler<Products extends Record<string, ProductConfig>> {
     event: Stripe.CustomerDeletedEvent
   ) {
     const c = event.data.object;
+    const { onCustomerChanged } = await createCallbackHandles(
+      this.mutationCallbacks
+    );
     await ctx.runMutation(this.component.lib.deleteCustomer, {
       stripeCustomerId: c.id,
+      onChange: onCustomerChanged,
     });
   }
 
@@ -448,47 +989,23 @@ export class WebhookHandler<Products extends Record<string, ProductConfig>> {
       | Stripe.PaymentIntentSucceededEvent
       | Stripe.PaymentIntentCanceledEvent
   ) {
-    const pi = event.data.object;
-    const customerStripeId =
-      typeof pi.customer === "string" ? pi.customer : pi.customer?.id || "";
-    if (!customerStripeId) {
+    await upsertStripePaymentIntent(ctx, this.component, event.data.object, {
+      syncedAt: event.created,
+      grantProductCredits: this.grantProductCredits,
+    });
+  }
+
+  /**
+   * Configured slug of a Stripe product
+   * @internal
+   */
+  private getProductSlug(stripeProductId: string | undefined) {
+    if (!stripeProductId) {
       return;
     }
-    const customer = await ctx.runQuery(
-      this.component.lib.getCustomerByStripeId,
-      {
-        stripeCustomerId: customerStripeId,
-      }
+    return Object.keys(this.products).find(
+      (key) =>
+        this.products[key as keyof Products]?.productId === stripeProductId
     );
-    if (!customer) {
-      return;
-    }
-
-    await ctx.runMutation(this.component.lib.upsertInvoice, {
-      // Use PaymentIntent id to record purchase in invoices store
-      stripeInvoiceId: pi.id,
-      customerId: customer._id,
-      stripeCustomerId: customerStripeId,
-      userId: customer.userId,
-      subscriptionId: undefined,
-      stripeSubscriptionId: undefined,
-      status: pi.status,
-      currency: pi.currency,
-      amountDue: pi.amount ?? 0,
-      amountPaid: pi.status === "succeeded" ? (pi.amount ?? 0) : 0,
-      amountRemaining: 0,
-      subtotal: pi.amount ?? 0,
-      total: pi.amount ?? 0,
-      tax: undefined,
-      invoicePdf: undefined,
-      hostedInvoiceUrl: undefined,
-      billingReason: undefined,
-      periodStart: pi.created,
-      periodEnd: pi.created,
-      dueDate: undefined,
-      paidAt: pi.status === "succeeded" ? pi.created : undefined,
-      created: pi.created,
-      metadata: pi.metadata || undefined,
-    });
   }
 }
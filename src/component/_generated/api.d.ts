@@ -38,28 +38,73 @@ export type Mounts = {
     getPricesForProduct: FunctionReference<"query", "public", { productId: string }, any>;
     getPriceBySlug: FunctionReference<"query", "public", { slug: string }, any>;
     getPriceByStripeId: FunctionReference<"query", "public", { stripePriceId: string }, any>;
+    getCouponByStripeId: FunctionReference<"query", "public", { stripeCouponId: string }, any>;
+    getPromotionCodeByStripeId: FunctionReference<"query", "public", { stripePromotionCodeId: string }, any>;
+    listPromotionCodesByCode: FunctionReference<"query", "public", { code: string }, any>;
+    getCheckoutSession: FunctionReference<"query", "public", { stripeCheckoutSessionId: string }, any>;
     getCurrentSubscription: FunctionReference<"query", "public", { userId: string }, any>;
     listUserSubscriptions: FunctionReference<"query", "public", { userId: string }, any>;
     getSubscriptionByStripeId: FunctionReference<"query", "public", { stripeSubscriptionId: string }, any>;
+    getSubscriptionTimeline: FunctionReference<"query", "public", { stripeSubscriptionId: string }, any>;
+    getSeatUpdate: FunctionReference<"query", "public", { stripeSubscriptionId: string }, any>;
+    listSubscriptionItems: FunctionReference<"query", "public", { userId: string; stripeSubscriptionId?: string }, any>;
+    getSubscriptionItemByStripeId: FunctionReference<"query", "public", { stripeSubscriptionItemId: string }, any>;
+    listPaymentMethods: FunctionReference<"query", "public", { userId: string }, any>;
+    getPaymentMethodByStripeId: FunctionReference<"query", "public", { stripePaymentMethodId: string }, any>;
+    listActiveEntitlements: FunctionReference<"query", "public", { userId: string }, any>;
+    listProductFeatures: FunctionReference<"query", "public", { stripeProductId: string }, any>;
+    listUsageCounters: FunctionReference<"query", "public", { userId: string }, any>;
+    getMeterUsage: FunctionReference<"query", "public", { userId: string; eventName: string; since: number }, number>;
+    getCreditBalance: FunctionReference<"query", "public", { userId: string }, number>;
+    listCreditTransactions: FunctionReference<"query", "public", { userId: string; limit?: number }, any>;
     listUserInvoices: FunctionReference<"query", "public", { userId: string; limit?: number }, any>;
+    getUpcomingInvoice: FunctionReference<"query", "public", { stripeSubscriptionId: string }, any>;
+    getWebhookEvent: FunctionReference<"query", "public", { stripeEventId: string }, any>;
+    listWebhookEvents: FunctionReference<"query", "public", { status?: "pending" | "processing" | "processed" | "failed" | "dead"; limit?: number }, any>;
 
     // Mutations
     upsertCustomer: FunctionReference<"mutation", "public", any, any>;
     upsertProduct: FunctionReference<"mutation", "public", any, any>;
     upsertPrice: FunctionReference<"mutation", "public", any, any>;
+    upsertCoupon: FunctionReference<"mutation", "public", any, any>;
+    upsertPromotionCode: FunctionReference<"mutation", "public", any, any>;
+    upsertCheckoutSession: FunctionReference<"mutation", "public", any, any>;
     upsertSubscription: FunctionReference<"mutation", "public", any, any>;
-    deleteSubscription: FunctionReference<"mutation", "public", { stripeSubscriptionId: string }, void>;
+    endSubscription: FunctionReference<"mutation", "public", { stripeSubscriptionId: string; status?: string; endedAt?: number; syncedAt?: number; source?: "webhook" | "sync" | "api"; stripeEventId?: string; onChange?: string }, any>;
     upsertInvoice: FunctionReference<"mutation", "public", any, any>;
-    deleteCustomer: FunctionReference<"mutation", "public", { stripeCustomerId: string }, void>;
-    deactivateProduct: FunctionReference<"mutation", "public", { stripeProductId: string }, void>;
-    deactivatePrice: FunctionReference<"mutation", "public", { stripePriceId: string }, void>;
+    upsertPaymentMethod: FunctionReference<"mutation", "public", any, any>;
+    deletePaymentMethod: FunctionReference<"mutation", "public", { stripePaymentMethodId: string; syncedAt?: number }, void>;
+    incrementUsageCounter: FunctionReference<"mutation", "public", { userId: string; name: string; amount: number; max?: number; periodStart?: number }, { allowed: boolean; value: number }>;
+    recordMeterEvent: FunctionReference<"mutation", "public", { userId: string; eventName: string; value: number; identifier: string; timestamp: number; flusher: string }, string>;
+    claimMeterEvents: FunctionReference<"mutation", "public", {}, Array<{ identifier: string; eventName: string; stripeCustomerId: string; value: number; timestamp: number }>>;
+    settleMeterEvents: FunctionReference<"mutation", "public", { sent: string[]; failed: Array<{ identifier: string; error: string }> }, void>;
+    requestSeatUpdate: FunctionReference<"mutation", "public", { stripeSubscriptionId: string; quantity: number; prorationBehavior: "create_prorations" | "always_invoice" | "none"; updater: string }, void>;
+    claimSeatUpdate: FunctionReference<"mutation", "public", { stripeSubscriptionId: string }, { quantity: number; prorationBehavior: "create_prorations" | "always_invoice" | "none" } | null>;
+    settleSeatUpdate: FunctionReference<"mutation", "public", { stripeSubscriptionId: string; quantity: number; error?: string }, void>;
+    grantCredits: FunctionReference<"mutation", "public", { userId: string; amount: number; reason: string; sourceId?: string; expiresAt?: number }, { granted: boolean }>;
+    spendCredits: FunctionReference<"mutation", "public", { userId: string; amount: number; reason: string; sourceId?: string }, { allowed: boolean; balance: number }>;
+    upsertFeature: FunctionReference<"mutation", "public", any, any>;
+    replaceProductFeatures: FunctionReference<"mutation", "public", any, void>;
+    replaceActiveEntitlements: FunctionReference<"mutation", "public", any, any>;
+    upsertUpcomingInvoice: FunctionReference<"mutation", "public", any, any>;
+    deleteUpcomingInvoice: FunctionReference<"mutation", "public", { stripeSubscriptionId: string }, void>;
+    deleteCustomer: FunctionReference<"mutation", "public", { stripeCustomerId: string; onChange?: string }, void>;
+    deactivateProduct: FunctionReference<"mutation", "public", { stripeProductId: string; syncedAt?: number }, void>;
+    deactivatePrice: FunctionReference<"mutation", "public", { stripePriceId: string; syncedAt?: number }, void>;
+    claimWebhookEvent: FunctionReference<"mutation", "public", { stripeEventId: string; type: string; endpoint?: string; created: number }, "process" | "duplicate" | "in_progress">;
+    completeWebhookEvent: FunctionReference<"mutation", "public", { stripeEventId: string; attempt?: number }, void>;
+    failWebhookEvent: FunctionReference<"mutation", "public", { stripeEventId: string; error: string }, void>;
+    enqueueWebhookEvent: FunctionReference<"mutation", "public", { stripeEventId: string; type: string; endpoint?: string; created: number; payload: string; processor: string }, "queued" | "duplicate">;
+    replayWebhookEvents: FunctionReference<"mutation", "public", { stripeEventId?: string }, number>;
 
     // Actions (Sync)
     syncProducts: FunctionReference<"action", "public", { stripeSecretKey: string }, any>;
-    syncCustomers: FunctionReference<"action", "public", { stripeSecretKey: string }, any>;
-    syncSubscriptions: FunctionReference<"action", "public", { stripeSecretKey: string }, any>;
+    syncCoupons: FunctionReference<"action", "public", { stripeSecretKey: string }, any>;
+    syncEntitlements: FunctionReference<"action", "public", { stripeSecretKey: string }, any>;
+    syncCustomers: FunctionReference<"action", "public", { stripeSecretKey: string; onCustomerChanged?: string; onSubscriptionChanged?: string }, any>;
+    syncSubscriptions: FunctionReference<"action", "public", { stripeSecretKey: string; onCustomerChanged?: string; onSubscriptionChanged?: string }, any>;
     syncInvoices: FunctionReference<"action", "public", { stripeSecretKey: string }, any>;
-    syncAll: FunctionReference<"action", "public", { stripeSecretKey: string }, any>;
+    syncAll: FunctionReference<"action", "public", { stripeSecretKey: string; onCustomerChanged?: string; onSubscriptionChanged?: string }, any>;
   };
 };
 // For now fullApiWithMounts is only fullApi which provides
@@ -0,0 +1,1311 @@
+import {
+  createFunctionHandle,
+  makeFunctionReference,
+  mutationGeneric,
+} from "convex/server";
+import { convexTest } from "convex-test";
+import type Stripe from "stripe";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  upsertStripeInvoice,
+  upsertStripeSubscription,
+} from "../client/sync.js";
+import type { CustomerChange, SubscriptionChange } from "../validators.js";
+import { vCustomerChange, vSubscriptionChange } from "../validators.js";
+import { api, internal } from "./_generated/api.js";
+import schema from "./schema.js";
+import type { UseApi } from "./util.js";
+
+type GlobImportMeta = ImportMeta & {
+  glob: (pattern: string) => Record<string, () => Promise<unknown>>;
+};
+
+const modules = (import.meta as GlobImportMeta).glob("./**/*.ts");
+
+// What the Stripe client of the sync actions lists
+const stripeLists = vi.hoisted(() => ({
+  subscriptions: [] as unknown[],
+  invoices: [] as unknown[],
+}));
+
+vi.mock("stripe", () => ({
+  default: class {
+    subscriptions = {
+      list: async () => ({ data: stripeLists.subscriptions, has_more: false }),
+    };
+    invoices = {
+      list: async () => ({ data: stripeLists.invoices, has_more: false }),
+    };
+  },
+}));
+
+describe("webhook event ledger", () => {
+  it("processes each Stripe event once", async () => {
+    const t = convexTest(schema, modules);
+    const event = {
+      stripeEventId: "evt_1",
+      type: "invoice.paid",
+      created: 1_700_000_000,
+    };
+
+    expect(await t.mutation(api.lib.claimWebhookEvent, event)).toBe("process");
+    expect(await t.mutation(api.lib.claimWebhookEvent, event)).toBe(
+      "in_progress"
+    );
+
+    await t.mutation(api.lib.completeWebhookEvent, {
+      stripeEventId: event.stripeEventId,
+    });
+    expect(await t.mutation(api.lib.claimWebhookEvent, event)).toBe(
+      "duplicate"
+    );
+  });
+
+  it("lets a later delivery retry a failed event", async () => {
+    const t = convexTest(schema, modules);
+    const event = {
+      stripeEventId: "evt_2",
+      type: "invoice.paid",
+      created: 1_700_000_000,
+    };
+
+    await t.mutation(api.lib.claimWebhookEvent, event);
+    await t.mutation(api.lib.failWebhookEvent, {
+      stripeEventId: event.stripeEventId,
+      error: "boom",
+    });
+
+    expect(await t.mutation(api.lib.claimWebhookEvent, event)).toBe("process");
+    const stored = await t.query(api.lib.getWebhookEvent, {
+      stripeEventId: event.stripeEventId,
+    });
+    expect(stored?.attempts).toBe(2);
+  });
+});
+
+describe("out-of-order writes", () => {
+  it("ignores data older than the stored row", async () => {
+    const t = convexTest(schema, modules);
+    const customer = {
+      stripeCustomerId: "cus_1",
+      userId: "user_1",
+      email: "new@example.com",
+      created: 1_700_000_000,
+      syncedAt: 1_700_000_200,
+    };
+
+    await t.mutation(api.lib.upsertCustomer, customer);
+    const result = await t.mutation(api.lib.upsertCustomer, {
+      ...customer,
+      email: "old@example.com",
+      syncedAt: 1_700_000_100,
+    });
+
+    expect(result.applied).toBe(false);
+    const stored = await t.query(api.lib.getCustomerByStripeId, {
+      stripeCustomerId: customer.stripeCustomerId,
+    });
+    expect(stored?.email).toBe("new@example.com");
+  });
+});
+
+describe("asynchronous webhook queue", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("dead-letters events that keep failing and replays them", async () => {
+    const t = convexTest(schema, modules);
+    const stripeEventId = "evt_3";
+
+    expect(
+      await t.mutation(api.lib.enqueueWebhookEvent, {
+        stripeEventId,
+        type: "invoice.paid",
+        created: 1_700_000_000,
+        payload: "{}",
+        processor: "function://processor",
+      })
+    ).toBe("queued");
+
+    for (let attempt = 0; attempt < 8; attempt += 1) {
+      await t.mutation(internal.lib.startWebhookEventAttempt, {
+        stripeEventId,
+      });
+      await t.mutation(internal.lib.retryWebhookEvent, {
+        stripeEventId,
+        error: "boom",
+      });
+      vi.setSystemTime(Date.now() + 60 * 60 * 1000);
+    }
+
+    const dead = await t.query(api.lib.listWebhookEvents, { status: "dead" });
+    expect(dead.map((event) => event.stripeEventId)).toEqual([stripeEventId]);
+
+    expect(await t.mutation(api.lib.replayWebhookEvents, {})).toBe(1);
+    const replayed = await t.query(api.lib.getWebhookEvent, { stripeEventId });
+    expect(replayed?.status).toBe("pending");
+  });
+
+  it("ignores an attempt that settles after its event was taken back", async () => {
+    const t = convexTest(schema, modules);
+    const stripeEventId = "evt_5";
+    await t.mutation(api.lib.enqueueWebhookEvent, {
+      stripeEventId,
+      type: "invoice.paid",
+      created: 1_700_000_000,
+      payload: "{}",
+      processor: "function://processor",
+    });
+
+    const first = await t.mutation(internal.lib.startWebhookEventAttempt, {
+      stripeEventId,
+    });
+    vi.setSystemTime(Date.now() + 15 * 60 * 1000);
+    const second = await t.mutation(internal.lib.startWebhookEventAttempt, {
+      stripeEventId,
+    });
+    expect([first?.attempt, second?.attempt]).toEqual([1, 2]);
+
+    // The first attempt settles late, while the second is still running
+    await t.mutation(internal.lib.retryWebhookEvent, {
+      stripeEventId,
+      error: "boom",
+      attempt: 1,
+    });
+    await t.mutation(api.lib.completeWebhookEvent, {
+      stripeEventId,
+      attempt: 1,
+    });
+    expect(
+      await t.query(api.lib.getWebhookEvent, { stripeEventId })
+    ).toMatchObject({ status: "processing", attempts: 2 });
+
+    await t.mutation(api.lib.completeWebhookEvent, {
+      stripeEventId,
+      attempt: 2,
+    });
+    const processed = await t.query(api.lib.getWebhookEvent, { stripeEventId });
+    expect(processed?.status).toBe("processed");
+  });
+
+  it("takes back events whose processing lease expired", async () => {
+    const t = convexTest(schema, modules);
+    const stripeEventId = "evt_4";
+
+    await t.mutation(api.lib.enqueueWebhookEvent, {
+      stripeEventId,
+      type: "invoice.paid",
+      created: 1_700_000_000,
+      payload: "{}",
+      processor: "function://processor",
+    });
+
+    // The dispatch that claimed the event never settles it
+    expect(
+      await t.mutation(internal.lib.startWebhookEventAttempt, {
+        stripeEventId,
+      })
+    ).not.toBeNull();
+    expect(
+      await t.mutation(internal.lib.startWebhookEventAttempt, {
+        stripeEventId,
+      })
+    ).toBeNull();
+
+    const checks = await t.run((ctx) =>
+      ctx.db.system.query("_scheduled_functions").collect()
+    );
+    expect(
+      checks.some(
+        (job) =>
+          job.name.includes("dispatchWebhookEvent") &&
+          job.scheduledTime === Date.now() + 15 * 60 * 1000
+      )
+    ).toBe(true);
+
+    for (let attempt = 1; attempt < 8; attempt += 1) {
+      vi.setSystemTime(Date.now() + 15 * 60 * 1000);
+      expect(
+        await t.mutation(internal.lib.startWebhookEventAttempt, {
+          stripeEventId,
+        })
+      ).not.toBeNull();
+    }
+    const leased = await t.query(api.lib.getWebhookEvent, { stripeEventId });
+    expect(leased).toMatchObject({ status: "processing", attempts: 8 });
+
+    vi.setSystemTime(Date.now() + 15 * 60 * 1000);
+    expect(
+      await t.mutation(internal.lib.startWebhookEventAttempt, {
+        stripeEventId,
+      })
+    ).toBeNull();
+    const dead = await t.query(api.lib.getWebhookEvent, { stripeEventId });
+    expect(dead?.status).toBe("dead");
+  });
+});
+
+describe("subscription timeline", () => {
+  it("records status changes and keeps ended subscriptions", async () => {
+    const t = convexTest(schema, modules);
+    const { id: customerId } = await t.mutation(api.lib.upsertCustomer, {
+      stripeCustomerId: "cus_1",
+      userId: "user_1",
+      email: "user@example.com",
+      created: 1_700_000_000,
+    });
+    const subscription = {
+      stripeSubscriptionId: "sub_1",
+      customerId,
+      stripeCustomerId: "cus_1",
+      userId: "user_1",
+      status: "active",
+      stripePriceId: "price_1",
+      currency: "usd",
+      currentPeriodStart: 1_700_000_000,
+      currentPeriodEnd: 1_702_592_000,
+      cancelAtPeriodEnd: false,
+      created: 1_700_000_000,
+      syncedAt: 1_700_000_000,
+    };
+
+    await t.mutation(api.lib.upsertSubscription, {
+      ...subscription,
+      source: "webhook",
+      stripeEventId: "evt_created",
+    });
+    await t.mutation(api.lib.upsertSubscription, {
+      ...subscription,
+      status: "past_due",
+      syncedAt: 1_700_100_000,
+      source: "webhook",
+      stripeEventId: "evt_past_due",
+    });
+    await t.mutation(api.lib.upsertSubscription, {
+      ...subscription,
+      syncedAt: 1_700_200_000,
+      source: "sync",
+    });
+    await t.mutation(api.lib.endSubscription, {
+      stripeSubscriptionId: "sub_1",
+      status: "canceled",
+      endedAt: 1_700_300_000,
+      syncedAt: 1_700_300_000,
+      source: "webhook",
+      stripeEventId: "evt_deleted",
+    });
+
+    const timeline = await t.query(api.lib.getSubscriptionTimeline, {
+      stripeSubscriptionId: "sub_1",
+    });
+    expect(
+      timeline.map(
+        ({ type, status, previousStatus, source, stripeEventId }) => ({
+          type,
+          status,
+          previousStatus,
+          source,
+          stripeEventId,
+        })
+      )
+    ).toEqual([
+      {
+        type: "created",
+        status: "active",
+        previousStatus: undefined,
+        source: "webhook",
+        stripeEventId: "evt_created",
+      },
+      {
+        type: "status_changed",
+        status: "past_due",
+        previousStatus: "active",
+        source: "webhook",
+        stripeEventId: "evt_past_due",
+      },
+      {
+        type: "status_changed",
+        status: "active",
+        previousStatus: "past_due",
+        source: "sync",
+        stripeEventId: undefined,
+      },
+      {
+        type: "ended",
+        status: "canceled",
+        previousStatus: "active",
+        source: "webhook",
+        stripeEventId: "evt_deleted",
+      },
+    ]);
+
+    const stored = await t.query(api.lib.getSubscriptionByStripeId, {
+      stripeSubscriptionId: "sub_1",
+    });
+    expect(stored?.status).toBe("canceled");
+    expect(stored?.endedAt).toBe(1_700_300_000);
+  });
+
+  it("stores the pause state and clears it when collection resumes", async () => {
+    const t = convexTest(schema, modules);
+    const { id: customerId } = await t.mutation(api.lib.upsertCustomer, {
+      stripeCustomerId: "cus_1",
+      userId: "user_1",
+      email: "user@example.com",
+      created: 1_700_000_000,
+    });
+    const subscription = {
+      stripeSubscriptionId: "sub_1",
+      customerId,
+      stripeCustomerId: "cus_1",
+      userId: "user_1",
+      status: "active",
+      stripePriceId: "price_1",
+      currency: "usd",
+      currentPeriodStart: 1_700_000_000,
+      currentPeriodEnd: 1_702_592_000,
+      cancelAtPeriodEnd: false,
+      created: 1_700_000_000,
+      source: "webhook" as const,
+    };
+
+    await t.mutation(api.lib.upsertSubscription, {
+      ...subscription,
+      pauseBehavior: "void",
+      pauseResumesAt: 1_704_412_800,
+      syncedAt: 1_700_100_000,
+    });
+    const paused = await t.query(api.lib.getCurrentSubscription, {
+      userId: "user_1",
+    });
+    expect(paused?.pauseBehavior).toBe("void");
+    expect(paused?.pauseResumesAt).toBe(1_704_412_800);
+
+    await t.mutation(api.lib.upsertSubscription, {
+      ...subscription,
+      syncedAt: 1_700_200_000,
+    });
+    const resumed = await t.query(api.lib.getCurrentSubscription, {
+      userId: "user_1",
+    });
+    expect(resumed?.pauseBehavior).toBeUndefined();
+    expect(resumed?.pauseResumesAt).toBeUndefined();
+  });
+});
+
+describe("transactional callbacks", () => {
+  // Stand-ins for the app mutations passed to `mutationCallbacks`
+  const changes: unknown[] = [];
+  const callbackModules = {
+    ...modules,
+    "./callbacks.ts": async () => ({
+      onCustomerChanged: mutationGeneric({
+        args: vCustomerChange,
+        handler: async (ctx, change: CustomerChange) => {
+          // Sees the component write before it commits
+          const customer = await ctx.db
+            .query("customers")
+            .withIndex("stripeCustomerId", (q) =>
+              q.eq("stripeCustomerId", change.stripeCustomerId)
+            )
+            .first();
+          changes.push({ operation: change.operation, email: customer?.email });
+        },
+      }),
+      onSubscriptionChanged: mutationGeneric({
+        args: vSubscriptionChange,
+        handler: async (ctx, change: SubscriptionChange) => {
+          const subscription = await ctx.db
+            .query("subscriptions")
+            .withIndex("stripeSubscriptionId", (q) =>
+              q.eq("stripeSubscriptionId", change.stripeSubscriptionId)
+            )
+            .first();
+          changes.push({
+            operation: change.operation,
+            status: subscription?.status,
+            previousStatus: change.previousStatus,
+          });
+        },
+      }),
+      failing: mutationGeneric({
+        handler: () => {
+          throw new Error("App write failed");
+        },
+      }),
+    }),
+  };
+  const callback = (name: string) =>
+    createFunctionHandle(
+      makeFunctionReference<"mutation">(`callbacks:${name}`)
+    );
+
+  beforeEach(() => {
+    changes.length = 0;
+  });
+
+  it("runs the app mutation inside the customer and subscription upserts", async () => {
+    const t = convexTest(schema, callbackModules);
+    const [onCustomerChanged, onSubscriptionChanged] = await t.run(() =>
+      Promise.all([
+        callback("onCustomerChanged"),
+        callback("onSubscriptionChanged"),
+      ])
+    );
+
+    const { id: customerId } = await t.mutation(api.lib.upsertCustomer, {
+      stripeCustomerId: "cus_1",
+      userId: "user_1",
+      email: "user@example.com",
+      created: 1_700_000_000,
+      onChange: onCustomerChanged,
+    });
+    const subscription = {
+      stripeSubscriptionId: "sub_1",
+      customerId,
+      stripeCustomerId: "cus_1",
+      userId: "user_1",
+      status: "active",
+      currency: "usd",
+      currentPeriodStart: 1_700_000_000,
+      currentPeriodEnd: 1_702_592_000,
+      cancelAtPeriodEnd: false,
+      created: 1_700_000_000,
+      source: "sync" as const,
+      onChange: onSubscriptionChanged,
+    };
+    await t.mutation(api.lib.upsertSubscription, subscription);
+    await t.mutation(api.lib.upsertSubscription, {
+      ...subscription,
+      status: "past_due",
+    });
+
+    expect(changes).toEqual([
+      { operation: "created", email: "user@example.com" },
+      { operation: "created", status: "active", previousStatus: undefined },
+      { operation: "updated", status: "past_due", previousStatus: "active" },
+    ]);
+  });
+
+  it("rolls back the component write when the app mutation fails", async () => {
+    const t = convexTest(schema, callbackModules);
+    const failing = await t.run(() => callback("failing"));
+    const customer = {
+      stripeCustomerId: "cus_1",
+      userId: "user_1",
+      email: "user@example.com",
+      created: 1_700_000_000,
+    };
+
+    await expect(
+      t.mutation(api.lib.upsertCustomer, { ...customer, onChange: failing })
+    ).rejects.toThrow("App write failed");
+    expect(
+      await t.query(api.lib.getCustomerByStripeId, {
+        stripeCustomerId: "cus_1",
+      })
+    ).toBeNull();
+
+    const { id: customerId } = await t.mutation(
+      api.lib.upsertCustomer,
+      customer
+    );
+    await expect(
+      t.mutation(api.lib.upsertCustomer, {
+        ...customer,
+        email: "new@example.com",
+        onChange: failing,
+      })
+    ).rejects.toThrow("App write failed");
+    const unchanged = await t.query(api.lib.getCustomerByStripeId, {
+      stripeCustomerId: "cus_1",
+    });
+    expect(unchanged?.email).toBe("user@example.com");
+
+    await expect(
+      t.mutation(api.lib.upsertSubscription, {
+        stripeSubscriptionId: "sub_1",
+        customerId,
+        stripeCustomerId: "cus_1",
+        userId: "user_1",
+        status: "active",
+        currency: "usd",
+        currentPeriodStart: 1_700_000_000,
+        currentPeriodEnd: 1_702_592_000,
+        cancelAtPeriodEnd: false,
+        created: 1_700_000_000,
+        source: "sync",
+        onChange: failing,
+      })
+    ).rejects.toThrow("App write failed");
+    expect(
+      await t.query(api.lib.getSubscriptionByStripeId, {
+        stripeSubscriptionId: "sub_1",
+      })
+    ).toBeNull();
+  });
+});
+
+describe("current subscription", () => {
+  it("returns a trialing subscription and prefers an active one", async () => {
+    const t = convexTest(schema, modules);
+    const { id: customerId } = await t.mutation(api.lib.upsertCustomer, {
+      stripeCustomerId: "cus_1",
+      userId: "user_1",
+      email: "user@example.com",
+      created: 1_700_000_000,
+    });
+    const subscription = {
+      customerId,
+      stripeCustomerId: "cus_1",
+      userId: "user_1",
+      currency: "usd",
+      currentPeriodStart: 1_700_000_000,
+      currentPeriodEnd: 1_702_592_000,
+      cancelAtPeriodEnd: false,
+      created: 1_700_000_000,
+      syncedAt: 1_700_000_000,
+      source: "webhook" as const,
+    };
+
+    await t.mutation(api.lib.upsertSubscription, {
+      ...subscription,
+      stripeSubscriptionId: "sub_trial",
+      status: "trialing",
+    });
+    const trialing = await t.query(api.lib.getCurrentSubscription, {
+      userId: "user_1",
+    });
+    expect(trialing?.stripeSubscriptionId).toBe("sub_trial");
+
+    await t.mutation(api.lib.upsertSubscription, {
+      ...subscription,
+      stripeSubscriptionId: "sub_paid",
+      status: "active",
+    });
+    const active = await t.query(api.lib.getCurrentSubscription, {
+      userId: "user_1",
+    });
+    expect(active?.stripeSubscriptionId).toBe("sub_paid");
+  });
+});
+
+describe("subscription items", () => {
+  it("replaces the stored items with each write", async () => {
+    const t = convexTest(schema, modules);
+    const { id: customerId } = await t.mutation(api.lib.upsertCustomer, {
+      stripeCustomerId: "cus_1",
+      userId: "user_1",
+      email: "user@example.com",
+      created: 1_700_000_000,
+    });
+    const subscription = {
+      stripeSubscriptionId: "sub_1",
+      customerId,
+      stripeCustomerId: "cus_1",
+      userId: "user_1",
+      status: "active",
+      stripePriceId: "price_plan",
+      currency: "usd",
+      currentPeriodStart: 1_700_000_000,
+      currentPeriodEnd: 1_702_592_000,
+      cancelAtPeriodEnd: false,
+      created: 1_700_000_000,
+    };
+    const plan = {
+      stripeSubscriptionItemId: "si_plan",
+      stripePriceId: "price_plan",
+      stripeProductId: "prod_plan",
+      quantity: 1,
+      created: 1_700_000_000,
+    };
+    const storage = {
+      stripeSubscriptionItemId: "si_storage",
+      stripePriceId: "price_storage",
+      stripeProductId: "prod_storage",
+      quantity: 3,
+      created: 1_700_050_000,
+    };
+
+    await t.mutation(api.lib.upsertSubscription, {
+      ...subscription,
+      syncedAt: 1_700_000_000,
+      items: [plan, storage],
+    });
+    await t.mutation(api.lib.upsertSubscription, {
+      ...subscription,
+      syncedAt: 1_700_100_000,
+      items: [{ ...plan, quantity: 2 }],
+    });
+    // Stale writes leave the items unchanged
+    await t.mutation(api.lib.upsertSubscription, {
+      ...subscription,
+      syncedAt: 1_700_050_000,
+      items: [plan, storage],
+    });
+
+    const items = await t.query(api.lib.listSubscriptionItems, {
+      userId: "user_1",
+      stripeSubscriptionId: "sub_1",
+    });
+    expect(
+      items.map(({ stripeSubscriptionItemId, quantity }) => ({
+        stripeSubscriptionItemId,
+        quantity,
+      }))
+    ).toEqual([{ stripeSubscriptionItemId: "si_plan", quantity: 2 }]);
+  });
+});
+
+describe("seat updates", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("debounces requests and keeps newer requests pending", async () => {
+    const t = convexTest(schema, modules);
+    const { id: customerId } = await t.mutation(api.lib.upsertCustomer, {
+      stripeCustomerId: "cus_1",
+      userId: "user_1",
+      email: "user@example.com",
+      created: 1_700_000_000,
+    });
+    await t.mutation(api.lib.upsertSubscription, {
+      stripeSubscriptionId: "sub_1",
+      customerId,
+      stripeCustomerId: "cus_1",
+      userId: "user_1",
+      status: "active",
+      quantity: 5,
+      currency: "usd",
+      currentPeriodStart: 1_700_000_000,
+      currentPeriodEnd: 1_702_592_000,
+      cancelAtPeriodEnd: false,
+      created: 1_700_000_000,
+    });
+    const updater = await t.run(
+      async () => await createFunctionHandle(internal.lib.dispatchWebhookEvent)
+    );
+    const request = (quantity: number) =>
+      t.mutation(api.lib.requestSeatUpdate, {
+        stripeSubscriptionId: "sub_1",
+        quantity,
+        prorationBehavior: "create_prorations",
+        updater,
+      });
+
+    for (const quantity of [6, 7, 8]) {
+      await request(quantity);
+    }
+    const scheduled = await t.run(
+      async (ctx) => await ctx.db.system.query("_scheduled_functions").collect()
+    );
+    expect(scheduled.map((run) => run.state.kind).sort()).toEqual([
+      "canceled",
+      "canceled",
+      "pending",
+    ]);
+
+    const claim = { stripeSubscriptionId: "sub_1" };
+    expect(await t.mutation(api.lib.claimSeatUpdate, claim)).toEqual({
+      quantity: 8,
+      prorationBehavior: "create_prorations",
+    });
+    // Requested while 8 is being sent to Stripe
+    await request(9);
+    await t.mutation(api.lib.settleSeatUpdate, {
+      stripeSubscriptionId: "sub_1",
+      quantity: 8,
+    });
+
+    const seatUpdate = await t.query(api.lib.getSeatUpdate, claim);
+    expect(seatUpdate).toMatchObject({ quantity: 9, status: "pending" });
+  });
+});
+
+describe("upcoming invoices", () => {
+  it("ignores older previews and drops the cache when the subscription ends", async () => {
+    const t = convexTest(schema, modules);
+    const { id: customerId } = await t.mutation(api.lib.upsertCustomer, {
+      stripeCustomerId: "cus_1",
+      userId: "user_1",
+      email: "user@example.com",
+      created: 1_700_000_000,
+    });
+    await t.mutation(api.lib.upsertSubscription, {
+      stripeSubscriptionId: "sub_1",
+      customerId,
+      stripeCustomerId: "cus_1",
+      userId: "user_1",
+      status: "active",
+      currency: "usd",
+      currentPeriodStart: 1_700_000_000,
+      currentPeriodEnd: 1_702_592_000,
+      cancelAtPeriodEnd: false,
+      created: 1_700_000_000,
+    });
+    const preview = {
+      stripeSubscriptionId: "sub_1",
+      stripeCustomerId: "cus_1",
+      userId: "user_1",
+      currency: "usd",
+      subtotal: 4900,
+      discount: 0,
+      tax: 0,
+      total: 4900,
+      amountDue: 4900,
+      lines: [
+        {
+          amount: 4900,
+          quantity: 1,
+          stripePriceId: "price_pro",
+          proration: false,
+          periodStart: 1_702_592_000,
+          periodEnd: 1_705_270_400,
+        },
+      ],
+      discounts: [],
+      periodStart: 1_700_000_000,
+      periodEnd: 1_702_592_000,
+      nextPaymentAttempt: 1_702_595_600,
+    };
+
+    await t.mutation(api.lib.upsertUpcomingInvoice, {
+      ...preview,
+      syncedAt: 1_700_100_000,
+    });
+    expect(
+      await t.mutation(api.lib.upsertUpcomingInvoice, {
+        ...preview,
+        total: 9800,
+        syncedAt: 1_700_050_000,
+      })
+    ).toMatchObject({ applied: false });
+    expect(
+      await t.query(api.lib.getUpcomingInvoice, {
+        stripeSubscriptionId: "sub_1",
+      })
+    ).toMatchObject({ total: 4900 });
+
+    await t.mutation(api.lib.endSubscription, {
+      stripeSubscriptionId: "sub_1",
+      syncedAt: 1_700_200_000,
+    });
+    expect(
+      await t.query(api.lib.getUpcomingInvoice, {
+        stripeSubscriptionId: "sub_1",
+      })
+    ).toBeNull();
+  });
+});
+
+describe("payment methods", () => {
+  it("follows the customer's default payment method", async () => {
+    const t = convexTest(schema, modules);
+    const customer = {
+      stripeCustomerId: "cus_1",
+      userId: "user_1",
+      email: "user@example.com",
+      created: 1_700_000_000,
+      syncedAt: 1_700_000_000,
+    };
+    const { id: customerId } = await t.mutation(api.lib.upsertCustomer, {
+      ...customer,
+      defaultPaymentMethodId: "pm_1",
+    });
+    for (const { id, last4 } of [
+      { id: "pm_1", last4: "4242" },
+      { id: "pm_2", last4: "4444" },
+    ]) {
+      await t.mutation(api.lib.upsertPaymentMethod, {
+        stripePaymentMethodId: id,
+        customerId,
+        stripeCustomerId: "cus_1",
+        userId: "user_1",
+        type: "card",
+        brand: "visa",
+        last4,
+        expMonth: 4,
+        expYear: 2027,
+        created: 1_700_000_000,
+      });
+    }
+
+    await t.mutation(api.lib.upsertCustomer, {
+      ...customer,
+      defaultPaymentMethodId: "pm_2",
+      syncedAt: 1_700_000_100,
+    });
+    const paymentMethods = await t.query(api.lib.listPaymentMethods, {
+      userId: "user_1",
+    });
+    expect(
+      paymentMethods.map(({ last4, isDefault }) => ({ last4, isDefault }))
+    ).toEqual([
+      { last4: "4444", isDefault: true },
+      { last4: "4242", isDefault: false },
+    ]);
+
+    await t.mutation(api.lib.deletePaymentMethod, {
+      stripePaymentMethodId: "pm_2",
+    });
+    expect(
+      await t.query(api.lib.listPaymentMethods, { userId: "user_1" })
+    ).toHaveLength(1);
+  });
+});
+
+describe("active entitlements", () => {
+  it("replaces the set from each summary and ignores older summaries", async () => {
+    const t = convexTest(schema, modules);
+    await t.mutation(api.lib.upsertCustomer, {
+      stripeCustomerId: "cus_1",
+      userId: "user_1",
+      email: "user@example.com",
+      created: 1_700_000_000,
+    });
+    const exportEntitlement = {
+      stripeEntitlementId: "ent_export",
+      stripeFeatureId: "feat_export",
+      lookupKey: "export",
+    };
+    const apiEntitlement = {
+      stripeEntitlementId: "ent_api",
+      stripeFeatureId: "feat_api",
+      lookupKey: "api",
+    };
+
+    await t.mutation(api.lib.replaceActiveEntitlements, {
+      stripeCustomerId: "cus_1",
+      entitlements: [exportEntitlement, apiEntitlement],
+      syncedAt: 1_700_000_100,
+    });
+    await t.mutation(api.lib.replaceActiveEntitlements, {
+      stripeCustomerId: "cus_1",
+      entitlements: [apiEntitlement],
+      syncedAt: 1_700_000_300,
+    });
+    const stale = await t.mutation(api.lib.replaceActiveEntitlements, {
+      stripeCustomerId: "cus_1",
+      entitlements: [exportEntitlement, apiEntitlement],
+      syncedAt: 1_700_000_200,
+    });
+
+    expect(stale?.applied).toBe(false);
+    const entitlements = await t.query(api.lib.listActiveEntitlements, {
+      userId: "user_1",
+    });
+    expect(entitlements.map(({ lookupKey }) => lookupKey)).toEqual(["api"]);
+  });
+});
+
+describe("usage counters", () => {
+  it("rejects increments over the maximum and resets each period", async () => {
+    const t = convexTest(schema, modules);
+    const counter = { userId: "user_1", name: "exports", max: 2 };
+
+    await t.mutation(api.lib.incrementUsageCounter, {
+      ...counter,
+      amount: 2,
+      periodStart: 1_700_000_000,
+    });
+    expect(
+      await t.mutation(api.lib.incrementUsageCounter, {
+        ...counter,
+        amount: 1,
+        periodStart: 1_700_000_000,
+      })
+    ).toEqual({ allowed: false, value: 2 });
+
+    expect(
+      await t.mutation(api.lib.incrementUsageCounter, {
+        ...counter,
+        amount: 1,
+        periodStart: 1_702_592_000,
+      })
+    ).toEqual({ allowed: true, value: 1 });
+  });
+});
+
+describe("meter event queue", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("sends queued events once and retries failures", async () => {
+    const t = convexTest(schema, modules);
+    await t.mutation(api.lib.upsertCustomer, {
+      stripeCustomerId: "cus_1",
+      userId: "user_1",
+      email: "user@example.com",
+      created: 1_700_000_000,
+    });
+    const flusher = await t.run(
+      async () => await createFunctionHandle(internal.lib.dispatchWebhookEvent)
+    );
+    for (const identifier of ["usage_1", "usage_2", "usage_1"]) {
+      await t.mutation(api.lib.recordMeterEvent, {
+        userId: "user_1",
+        eventName: "api_requests",
+        value: 10,
+        identifier,
+        timestamp: 1_700_000_100,
+        flusher,
+      });
+    }
+
+    // Move the clock without running the scheduled flusher
+    vi.setSystemTime(Date.now() + 5000);
+    const claimed = await t.mutation(api.lib.claimMeterEvents, {});
+    expect(claimed.map(({ identifier }) => identifier)).toEqual([
+      "usage_1",
+      "usage_2",
+    ]);
+    expect(await t.mutation(api.lib.claimMeterEvents, {})).toEqual([]);
+
+    await t.mutation(api.lib.settleMeterEvents, {
+      sent: ["usage_1"],
+      failed: [{ identifier: "usage_2", error: "rate limited" }],
+    });
+    vi.setSystemTime(Date.now() + 10_000);
+    const retried = await t.mutation(api.lib.claimMeterEvents, {});
+    expect(retried.map(({ identifier }) => identifier)).toEqual(["usage_2"]);
+
+    expect(
+      await t.query(api.lib.getMeterUsage, {
+        userId: "user_1",
+        eventName: "api_requests",
+        since: 1_700_000_000,
+      })
+    ).toBe(20);
+  });
+
+  it("recovers events from flushes that never settle", async () => {
+    const t = convexTest(schema, modules);
+    await t.mutation(api.lib.upsertCustomer, {
+      stripeCustomerId: "cus_1",
+      userId: "user_1",
+      email: "user@example.com",
+      created: 1_700_000_000,
+    });
+    const flusher = await t.run(
+      async () => await createFunctionHandle(internal.lib.dispatchWebhookEvent)
+    );
+    await t.mutation(api.lib.recordMeterEvent, {
+      userId: "user_1",
+      eventName: "api_requests",
+      value: 10,
+      identifier: "usage_1",
+      timestamp: 1_700_000_100,
+      flusher,
+    });
+    const scheduledFlushes = () =>
+      t.run(
+        async (ctx) =>
+          (await ctx.db.system.query("_scheduled_functions").collect()).length
+      );
+
+    // Each claim expires without being settled, as if the flush crashed
+    for (let attempt = 1; attempt <= 8; attempt += 1) {
+      vi.setSystemTime(Date.now() + 5 * 60 * 1000);
+      const before = await scheduledFlushes();
+      const claimed = await t.mutation(api.lib.claimMeterEvents, {});
+      expect(claimed.map(({ identifier }) => identifier)).toEqual(["usage_1"]);
+      // A flush is scheduled for when the claim expires
+      expect(await scheduledFlushes()).toBe(before + 1);
+    }
+
+    vi.setSystemTime(Date.now() + 5 * 60 * 1000);
+    expect(await t.mutation(api.lib.claimMeterEvents, {})).toEqual([]);
+    const event = await t.run(
+      async (ctx) => await ctx.db.query("meterEvents").first()
+    );
+    expect(event).toMatchObject({ status: "dead", attempts: 8 });
+  });
+});
+
+describe("credits ledger", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("grants purchases once and never spends below zero", async () => {
+    const t = convexTest(schema, modules);
+    const userId = "user_1";
+    const purchase = {
+      userId,
+      amount: 100,
+      reason: "purchase:credits_100",
+      sourceId: "pi_1:credits_100",
+    };
+
+    expect(await t.mutation(api.lib.grantCredits, purchase)).toEqual({
+      granted: true,
+    });
+    expect(await t.mutation(api.lib.grantCredits, purchase)).toEqual({
+      granted: false,
+    });
+
+    expect(
+      await t.mutation(api.lib.spendCredits, {
+        userId,
+        amount: 60,
+        reason: "report",
+        sourceId: "report_1",
+      })
+    ).toEqual({ allowed: true, balance: 40 });
+    expect(
+      await t.mutation(api.lib.spendCredits, {
+        userId,
+        amount: 60,
+        reason: "report",
+        sourceId: "report_1",
+      })
+    ).toEqual({ allowed: true, balance: 40 });
+    expect(
+      await t.mutation(api.lib.spendCredits, {
+        userId,
+        amount: 41,
+        reason: "report",
+      })
+    ).toEqual({ allowed: false, balance: 40 });
+    expect(await t.query(api.lib.getCreditBalance, { userId })).toBe(40);
+  });
+
+  it("spends expiring credits first and expires the rest", async () => {
+    const t = convexTest(schema, modules);
+    const userId = "user_1";
+    await t.mutation(api.lib.grantCredits, {
+      userId,
+      amount: 50,
+      reason: "purchase:credits_50",
+    });
+    await t.mutation(api.lib.grantCredits, {
+      userId,
+      amount: 30,
+      reason: "bonus",
+      expiresAt: Date.now() + 60_000,
+    });
+    await t.mutation(api.lib.spendCredits, {
+      userId,
+      amount: 20,
+      reason: "report",
+    });
+
+    vi.advanceTimersByTime(60_000);
+    await t.finishInProgressScheduledFunctions();
+
+    expect(await t.query(api.lib.getCreditBalance, { userId })).toBe(50);
+    const transactions = await t.query(api.lib.listCreditTransactions, {
+      userId,
+    });
+    expect(transactions.map((tx) => [tx.type, tx.amount])).toEqual([
+      ["expiration", -10],
+      ["debit", -20],
+      ["grant", 30],
+      ["grant", 50],
+    ]);
+  });
+});
+
+describe("checkout sessions", () => {
+  it("keeps the price IDs and a failed async payment across later writes", async () => {
+    const t = convexTest(schema, modules);
+    const session = {
+      stripeCheckoutSessionId: "cs_1",
+      userId: "user_1",
+      stripeCustomerId: "cus_1",
+      mode: "subscription",
+      expiresAt: 1_700_086_400,
+      created: 1_700_000_000,
+    };
+
+    await t.mutation(api.lib.upsertCheckoutSession, {
+      ...session,
+      status: "open",
+      paymentStatus: "unpaid",
+      priceIds: ["price_1"],
+      syncedAt: 1_700_000_000,
+    });
+    await t.mutation(api.lib.upsertCheckoutSession, {
+      ...session,
+      status: "complete",
+      paymentStatus: "failed",
+      stripeSubscriptionId: "sub_1",
+      syncedAt: 1_700_000_100,
+    });
+    await t.mutation(api.lib.upsertCheckoutSession, {
+      ...session,
+      status: "complete",
+      paymentStatus: "unpaid",
+      stripeSubscriptionId: "sub_1",
+      syncedAt: 1_700_000_200,
+    });
+
+    const stored = await t.query(api.lib.getCheckoutSession, {
+      stripeCheckoutSessionId: "cs_1",
+    });
+    expect(stored?.priceIds).toEqual(["price_1"]);
+    expect(stored?.paymentStatus).toBe("failed");
+    expect(stored?.stripeSubscriptionId).toBe("sub_1");
+    expect(stored?.completedAt).toBe(1_700_000_100);
+  });
+});
+
+describe("backfill", () => {
+  it("writes the same subscription and invoice rows as the webhooks", async () => {
+    const t = convexTest(schema, modules);
+    const { id: productId } = await t.mutation(api.lib.upsertProduct, {
+      stripeProductId: "prod_pro",
+      name: "Pro",
+      active: true,
+      created: 1_700_000_000,
+      updated: 1_700_000_000,
+    });
+    await t.mutation(api.lib.upsertPrice, {
+      stripePriceId: "price_pro_annual",
+      productId,
+      stripeProductId: "prod_pro",
+      active: true,
+      currency: "eur",
+      type: "recurring",
+      slug: "pro-annual",
+      created: 1_700_000_000,
+    });
+    await t.mutation(api.lib.upsertCustomer, {
+      stripeCustomerId: "cus_1",
+      userId: "user_1",
+      email: "user@example.com",
+      created: 1_700_000_000,
+    });
+
+    const subscription = {
+      id: "sub_1",
+      customer: "cus_1",
+      status: "active",
+      currency: "usd",
+      items: {
+        data: [
+          {
+            id: "si_1",
+            price: {
+              id: "price_pro_annual",
+              product: "prod_pro",
+              currency: "eur",
+            },
+            quantity: 2,
+            current_period_start: 1_700_000_000,
+            current_period_end: 1_731_536_000,
+            created: 1_700_000_000,
+            metadata: {},
+          },
+        ],
+      },
+      cancel_at_period_end: false,
+      pause_collection: null,
+      discounts: [
+        {
+          id: "di_1",
+          source: { coupon: "co_1" },
+          promotion_code: "promo_1",
+          start: 1_700_000_000,
+          end: null,
+        },
+      ],
+      canceled_at: null,
+      ended_at: null,
+      trial_start: null,
+      trial_end: null,
+      created: 1_700_000_000,
+      metadata: {},
+    } as unknown as Stripe.Subscription;
+    const invoice = {
+      id: "in_1",
+      customer: "cus_1",
+      status: "paid",
+      currency: "eur",
+      amount_due: 9000,
+      amount_paid: 9000,
+      amount_remaining: 0,
+      subtotal: 10_000,
+      total: 9000,
+      total_discount_amounts: [{ discount: "di_1", amount: 1000 }],
+      invoice_pdf: null,
+      hosted_invoice_url: null,
+      billing_reason: "subscription_create",
+      period_start: 1_700_000_000,
+      period_end: 1_700_000_000,
+      due_date: null,
+      status_transitions: { paid_at: 1_700_000_100 },
+      created: 1_700_000_000,
+      metadata: {},
+    } as unknown as Stripe.Invoice;
+
+    const ctx = {
+      runQuery: (reference: never, args: never) => t.query(reference, args),
+      runMutation: (reference: never, args: never) =>
+        t.mutation(reference, args),
+      runAction: (reference: never, args: never) => t.action(reference, args),
+    } as unknown as Parameters<typeof upsertStripeSubscription>[0];
+    const component = api as unknown as UseApi<typeof api>;
+    await upsertStripeSubscription(ctx, component, subscription, {
+      syncedAt: 1_700_000_000,
+      source: "webhook",
+    });
+    await upsertStripeInvoice(ctx, component, invoice, {
+      syncedAt: 1_700_000_000,
+    });
+    const rows = async () => ({
+      subscription: await t.query(api.lib.getSubscriptionByStripeId, {
+        stripeSubscriptionId: "sub_1",
+      }),
+      items: await t.query(api.lib.listSubscriptionItems, {
+        userId: "user_1",
+      }),
+      invoices: await t.query(api.lib.listUserInvoices, { userId: "user_1" }),
+    });
+    const fromWebhooks = await rows();
+    expect(fromWebhooks.subscription?.productSlug).toBe("pro-annual");
+
+    stripeLists.subscriptions = [subscription];
+    stripeLists.invoices = [invoice];
+    await t.action(api.lib.syncSubscriptions, { stripeSecretKey: "sk_test" });
+    await t.action(api.lib.syncInvoices, { stripeSecretKey: "sk_test" });
+
+    // Only the sync time differs
+    const withoutSyncedAt = <T extends { syncedAt?: number }>({
+      syncedAt: _syncedAt,
+      ...row
+    }: T) => row;
+    const backfilled = await rows();
+    expect(backfilled.subscription?.syncedAt).toBeGreaterThan(1_700_000_000);
+    expect(
+      backfilled.subscription && withoutSyncedAt(backfilled.subscription)
+    ).toEqual(
+      fromWebhooks.subscription && withoutSyncedAt(fromWebhooks.subscription)
+    );
+    expect(backfilled.items.map(withoutSyncedAt)).toEqual(
+      fromWebhooks.items.map(withoutSyncedAt)
+    );
+    expect(backfilled.invoices.map(withoutSyncedAt)).toEqual(
+      fromWebhooks.invoices.map(withoutSyncedAt)
+    );
+  });
+});
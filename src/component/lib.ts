@@ -1,22 +1,367 @@
-import { v } from "convex/values";
+import type { FunctionHandle } from "convex/server";
+import { type Infer, v } from "convex/values";
 import Stripe from "stripe";
 import {
+  upsertStripeInvoice,
+  upsertStripeSubscription,
+} from "../client/sync.js";
+import {
+  CURRENT_SUBSCRIPTION_STATUSES,
+  type CustomerChange,
+  type SubscriptionChange,
+  type SubscriptionEvent,
+  vCallbackHandle,
+  vClaimWebhookEventArgs,
+  vDeactivatePriceArgs,
+  vDeactivateProductArgs,
   vDeleteCustomerArgs,
-  vDeleteSubscriptionArgs,
+  vDeletePaymentMethodArgs,
+  vEndSubscriptionArgs,
+  vEnqueueWebhookEventArgs,
+  vFailWebhookEventArgs,
+  vGrantCreditsArgs,
+  vIncrementUsageCounterArgs,
+  vListCreditTransactionsArgs,
+  vListSubscriptionItemsArgs,
   vListUserInvoicesArgs,
+  vListWebhookEventsArgs,
+  vMeterUsageArgs,
+  vRecordMeterEventArgs,
+  vReplaceActiveEntitlementsArgs,
+  vReplaceProductFeaturesArgs,
+  vReplayWebhookEventsArgs,
+  vRequestSeatUpdateArgs,
+  vSettleMeterEventsArgs,
+  vSettleSeatUpdateArgs,
+  vSpendCreditsArgs,
   vStripeCustomerId,
+  vStripeEventId,
+  vStripePaymentMethodId,
   vStripePriceId,
   vStripeProductId,
   vStripeSubscriptionId,
+  vSubscriptionItemArgs,
+  vSubscriptionWriteSource,
+  vSyncArgs,
+  vUpsertCheckoutSessionArgs,
+  vUpsertCouponArgs,
   vUpsertCustomerArgs,
+  vUpsertFeatureArgs,
   vUpsertInvoiceArgs,
+  vUpsertPaymentMethodArgs,
   vUpsertPriceArgs,
   vUpsertProductArgs,
+  vUpsertPromotionCodeArgs,
   vUpsertSubscriptionArgs,
+  vUpsertUpcomingInvoiceArgs,
   vUserId,
 } from "../validators.js";
-import { api } from "./_generated/api.js";
-import { action, mutation, query } from "./_generated/server.js";
+import { api, internal } from "./_generated/api.js";
+import type { Doc } from "./_generated/dataModel.js";
+import {
+  action,
+  internalAction,
+  internalMutation,
+  type MutationCtx,
+  mutation,
+  type QueryCtx,
+  query,
+} from "./_generated/server.js";
+import type { UseApi } from "./util.js";
+
+// How long a delivery may hold an event before another delivery can retry it
+// Longer than Convex's 10-minute action limit, so the holder has stopped by then
+const WEBHOOK_EVENT_LEASE_MS = 15 * 60 * 1000;
+
+// Retry policy for asynchronously processed webhook events
+const WEBHOOK_MAX_ATTEMPTS = 8;
+const WEBHOOK_RETRY_BASE_MS = 10 * 1000;
+const WEBHOOK_RETRY_MAX_MS = 60 * 60 * 1000;
+
+// Debounce delay and claim lease for seat updates sent to Stripe
+const SEAT_UPDATE_DEBOUNCE_MS = 3 * 1000;
+const SEAT_UPDATE_LEASE_MS = 5 * 60 * 1000;
+
+// Batching and retry policy for meter events reported to Stripe
+// A batch is one meter event stream request, which takes at most 100 events
+const METER_EVENT_FLUSH_DELAY_MS = 5 * 1000;
+const METER_EVENT_BATCH_SIZE = 100;
+const METER_EVENT_LEASE_MS = 5 * 60 * 1000;
+const METER_EVENT_MAX_ATTEMPTS = 8;
+const METER_EVENT_RETRY_BASE_MS = 10 * 1000;
+const METER_EVENT_RETRY_MAX_MS = 60 * 60 * 1000;
+
+// This component's functions as the client-side Stripe mappers reference them,
+// so backfills write the same rows as webhooks
+const mountedApi = api as unknown as UseApi<typeof api>;
+
+/**
+ * Whether a webhook event is currently held by a delivery or the queue
+ */
+function isWebhookEventInProgress(event: Doc<"webhookEvents">, now: number) {
+  if (event.status === "pending") {
+    return true;
+  }
+  return (
+    event.status === "processing" &&
+    event.lastAttemptAt !== undefined &&
+    now - event.lastAttemptAt < WEBHOOK_EVENT_LEASE_MS
+  );
+}
+
+/**
+ * Whether a queued attempt lost its event to a later attempt after its lease expired
+ */
+function isSupersededWebhookAttempt(
+  event: Doc<"webhookEvents">,
+  attempt: number | undefined
+) {
+  return (
+    attempt !== undefined &&
+    (event.status !== "processing" || event.attempts !== attempt)
+  );
+}
+
+/**
+ * Returns why an incoming write is stale, or undefined if it should be applied
+ * Stripe does not guarantee event order, so older data must not overwrite newer data
+ */
+function getStaleWriteReason(
+  storedSyncedAt: number | undefined,
+  incomingSyncedAt: number | undefined
+) {
+  if (
+    storedSyncedAt === undefined ||
+    incomingSyncedAt === undefined ||
+    incomingSyncedAt >= storedSyncedAt
+  ) {
+    return;
+  }
+  return `incoming data from ${incomingSyncedAt} is older than stored data from ${storedSyncedAt}`;
+}
+
+/**
+ * Flag the customer's default payment method and clear the flag on the others
+ */
+async function applyDefaultPaymentMethod(
+  ctx: MutationCtx,
+  stripeCustomerId: string,
+  defaultPaymentMethodId: string | undefined
+) {
+  const paymentMethods = await ctx.db
+    .query("paymentMethods")
+    .withIndex("stripeCustomerId", (q) =>
+      q.eq("stripeCustomerId", stripeCustomerId)
+    )
+    .collect();
+  for (const paymentMethod of paymentMethods) {
+    const isDefault =
+      paymentMethod.stripePaymentMethodId === defaultPaymentMethodId;
+    if (paymentMethod.isDefault !== isDefault) {
+      await ctx.db.patch(paymentMethod._id, { isDefault });
+    }
+  }
+}
+
+/**
+ * Call the app's subscription callback inside the current mutation
+ * so app data and component tables commit atomically
+ */
+async function notifySubscriptionChanged(
+  ctx: MutationCtx,
+  handle: string | undefined,
+  operation: SubscriptionChange["operation"],
+  subscription: Doc<"subscriptions">,
+  previous?: Doc<"subscriptions">
+) {
+  if (!handle) {
+    return;
+  }
+  const change: SubscriptionChange = {
+    operation,
+    userId: subscription.userId,
+    stripeSubscriptionId: subscription.stripeSubscriptionId,
+    stripeCustomerId: subscription.stripeCustomerId,
+    status: subscription.status,
+    stripePriceId: subscription.stripePriceId,
+    productSlug: subscription.productSlug,
+    currentPeriodStart: subscription.currentPeriodStart,
+    currentPeriodEnd: subscription.currentPeriodEnd,
+    cancelAtPeriodEnd: subscription.cancelAtPeriodEnd,
+    previousStatus: previous?.status,
+    previousProductSlug: previous?.productSlug,
+  };
+  await ctx.runMutation(handle as FunctionHandle<"mutation">, change);
+}
+
+/**
+ * Record status, price and cancellation changes in the subscription timeline
+ */
+async function recordSubscriptionEvents(
+  ctx: MutationCtx,
+  subscription: Doc<"subscriptions">,
+  previous: Doc<"subscriptions"> | undefined,
+  {
+    source = "api",
+    stripeEventId,
+  }: Pick<SubscriptionEvent, "stripeEventId"> & {
+    source?: SubscriptionEvent["source"];
+  }
+) {
+  const types: SubscriptionEvent["type"][] = [];
+  if (previous) {
+    if (previous.status !== subscription.status) {
+      types.push("status_changed");
+    }
+    if (previous.stripePriceId !== subscription.stripePriceId) {
+      types.push("price_changed");
+    }
+    if (previous.cancelAtPeriodEnd !== subscription.cancelAtPeriodEnd) {
+      types.push("cancellation_changed");
+    }
+  } else {
+    types.push("created");
+  }
+
+  for (const type of types) {
+    await ctx.db.insert("subscriptionEvents", {
+      subscriptionId: subscription._id,
+      stripeSubscriptionId: subscription.stripeSubscriptionId,
+      userId: subscription.userId,
+      type,
+      status: subscription.status,
+      previousStatus: previous?.status,
+      stripePriceId: subscription.stripePriceId,
+      previousStripePriceId: previous?.stripePriceId,
+      cancelAtPeriodEnd: subscription.cancelAtPeriodEnd,
+      source,
+      stripeEventId,
+      timestamp: subscription.syncedAt ?? Math.floor(Date.now() / 1000),
+    });
+  }
+}
+
+/**
+ * Replace a subscription's items with the items from Stripe
+ * Items no longer on the subscription are removed
+ */
+async function replaceSubscriptionItems(
+  ctx: MutationCtx,
+  subscription: Doc<"subscriptions">,
+  items: Infer<typeof vSubscriptionItemArgs>[]
+) {
+  const existing = await ctx.db
+    .query("subscriptionItems")
+    .withIndex("stripeSubscriptionId", (q) =>
+      q.eq("stripeSubscriptionId", subscription.stripeSubscriptionId)
+    )
+    .collect();
+  const incomingIds = new Set(
+    items.map((item) => item.stripeSubscriptionItemId)
+  );
+  for (const item of existing) {
+    if (!incomingIds.has(item.stripeSubscriptionItemId)) {
+      await ctx.db.delete(item._id);
+    }
+  }
+
+  for (const item of items) {
+    const price = await ctx.db
+      .query("prices")
+      .withIndex("stripePriceId", (q) =>
+        q.eq("stripePriceId", item.stripePriceId)
+      )
+      .first();
+    const product = await ctx.db
+      .query("products")
+      .withIndex("stripeProductId", (q) =>
+        q.eq("stripeProductId", item.stripeProductId)
+      )
+      .first();
+    const fields = {
+      ...item,
+      subscriptionId: subscription._id,
+      stripeSubscriptionId: subscription.stripeSubscriptionId,
+      userId: subscription.userId,
+      priceId: price?._id,
+      productSlug: product?.slug,
+      syncedAt: subscription.syncedAt,
+    };
+    const stored = existing.find(
+      (row) => row.stripeSubscriptionItemId === item.stripeSubscriptionItemId
+    );
+    if (stored) {
+      await ctx.db.patch(stored._id, fields);
+    } else {
+      await ctx.db.insert("subscriptionItems", fields);
+    }
+  }
+}
+
+/**
+ * Call the app's customer callback inside the current mutation
+ */
+async function notifyCustomerChanged(
+  ctx: MutationCtx,
+  handle: string | undefined,
+  operation: CustomerChange["operation"],
+  customer: Doc<"customers">
+) {
+  if (!handle) {
+    return;
+  }
+  const change: CustomerChange = {
+    operation,
+    userId: customer.userId,
+    stripeCustomerId: customer.stripeCustomerId,
+    email: customer.email,
+    name: customer.name,
+  };
+  await ctx.runMutation(handle as FunctionHandle<"mutation">, change);
+}
+
+/**
+ * A user's credit grants that still have unexpired credits
+ * Ordered by expiration, soonest first, so debits spend expiring credits first
+ */
+async function listSpendableCreditGrants(
+  ctx: QueryCtx,
+  userId: string,
+  now: number
+) {
+  const grants = await ctx.db
+    .query("creditTransactions")
+    .withIndex("userId_type", (q) => q.eq("userId", userId).eq("type", "grant"))
+    .collect();
+  return grants
+    .filter(
+      (grant) =>
+        (grant.remaining ?? 0) > 0 &&
+        (grant.expiresAt === undefined || grant.expiresAt > now)
+    )
+    .sort(
+      (a, b) =>
+        (a.expiresAt ?? Number.POSITIVE_INFINITY) -
+        (b.expiresAt ?? Number.POSITIVE_INFINITY)
+    );
+}
+
+function sumRemainingCredits(grants: Doc<"creditTransactions">[]) {
+  return grants.reduce((total, grant) => total + (grant.remaining ?? 0), 0);
+}
+
+async function getCreditTransactionBySourceId(
+  ctx: QueryCtx,
+  sourceId: string | undefined
+) {
+  if (sourceId === undefined) {
+    return null;
+  }
+  return await ctx.db
+    .query("creditTransactions")
+    .withIndex("sourceId", (q) => q.eq("sourceId", sourceId))
+    .first();
+}
 
 // ===== QUERIES =====
 
@@ -123,20 +468,79 @@ export const getPriceByStripeId = query({
 });
 
 /**
- * Get the current active subscription for a user
+ * Get a coupon by Stripe ID
+ */
+export const getCouponByStripeId = query({
+  args: { stripeCouponId: v.string() },
+  handler: async (ctx, args) =>
+    await ctx.db
+      .query("coupons")
+      .withIndex("stripeCouponId", (q) =>
+        q.eq("stripeCouponId", args.stripeCouponId)
+      )
+      .first(),
+});
+
+/**
+ * Get a promotion code by Stripe ID
+ */
+export const getPromotionCodeByStripeId = query({
+  args: { stripePromotionCodeId: v.string() },
+  handler: async (ctx, args) =>
+    await ctx.db
+      .query("promotionCodes")
+      .withIndex("stripePromotionCodeId", (q) =>
+        q.eq("stripePromotionCodeId", args.stripePromotionCodeId)
+      )
+      .first(),
+});
+
+/**
+ * Get the promotion codes matching a customer-facing code
+ * Stripe allows inactive codes to share a code with an active one
+ */
+export const listPromotionCodesByCode = query({
+  args: { code: v.string() },
+  handler: async (ctx, args) =>
+    await ctx.db
+      .query("promotionCodes")
+      .withIndex("code", (q) => q.eq("code", args.code))
+      .collect(),
+});
+
+/**
+ * Get a Checkout session by Stripe ID
+ */
+export const getCheckoutSession = query({
+  args: { stripeCheckoutSessionId: v.string() },
+  handler: async (ctx, args) =>
+    await ctx.db
+      .query("checkoutSessions")
+      .withIndex("stripeCheckoutSessionId", (q) =>
+        q.eq("stripeCheckoutSessionId", args.stripeCheckoutSessionId)
+      )
+      .first(),
+});
+
+/**
+ * Get the current subscription for a user
+ * Active subscriptions take precedence over trialing ones
  */
 export const getCurrentSubscription = query({
   args: { userId: vUserId },
   handler: async (ctx, args) => {
-    const subscriptions = await ctx.db
-      .query("subscriptions")
-      .withIndex("userId_status", (q) =>
-        q.eq("userId", args.userId).eq("status", "active")
-      )
-      .collect();
-
-    // Return the first active subscription
-    return subscriptions[0] || null;
+    for (const status of CURRENT_SUBSCRIPTION_STATUSES) {
+      const subscription = await ctx.db
+        .query("subscriptions")
+        .withIndex("userId_status", (q) =>
+          q.eq("userId", args.userId).eq("status", status)
+        )
+        .first();
+      if (subscription) {
+        return subscription;
+      }
+    }
+    return null;
   },
 });
 
@@ -166,6 +570,200 @@ export const getSubscriptionByStripeId = query({
       .first(),
 });
 
+/**
+ * Get the status, price and cancellation history of a subscription, oldest first
+ */
+export const getSubscriptionTimeline = query({
+  args: { stripeSubscriptionId: vStripeSubscriptionId },
+  handler: async (ctx, args) =>
+    await ctx.db
+      .query("subscriptionEvents")
+      .withIndex("stripeSubscriptionId_timestamp", (q) =>
+        q.eq("stripeSubscriptionId", args.stripeSubscriptionId)
+      )
+      .order("asc")
+      .collect(),
+});
+
+/**
+ * Get the pending seat update of a subscription
+ */
+export const getSeatUpdate = query({
+  args: { stripeSubscriptionId: vStripeSubscriptionId },
+  handler: async (ctx, args) =>
+    await ctx.db
+      .query("seatUpdates")
+      .withIndex("stripeSubscriptionId", (q) =>
+        q.eq("stripeSubscriptionId", args.stripeSubscriptionId)
+      )
+      .first(),
+});
+
+/**
+ * List a user's subscription items, optionally for one subscription
+ */
+export const listSubscriptionItems = query({
+  args: {
+    userId: vUserId,
+    ...vListSubscriptionItemsArgs.fields,
+  },
+  handler: async (ctx, args) => {
+    const { stripeSubscriptionId } = args;
+    if (stripeSubscriptionId === undefined) {
+      return await ctx.db
+        .query("subscriptionItems")
+        .withIndex("userId", (q) => q.eq("userId", args.userId))
+        .collect();
+    }
+    const items = await ctx.db
+      .query("subscriptionItems")
+      .withIndex("stripeSubscriptionId", (q) =>
+        q.eq("stripeSubscriptionId", stripeSubscriptionId)
+      )
+      .collect();
+    return items.filter((item) => item.userId === args.userId);
+  },
+});
+
+/**
+ * Get a subscription item by Stripe subscription item ID
+ */
+export const getSubscriptionItemByStripeId = query({
+  args: { stripeSubscriptionItemId: v.string() },
+  handler: async (ctx, args) =>
+    await ctx.db
+      .query("subscriptionItems")
+      .withIndex("stripeSubscriptionItemId", (q) =>
+        q.eq("stripeSubscriptionItemId", args.stripeSubscriptionItemId)
+      )
+      .first(),
+});
+
+/**
+ * List payment methods for a user, default first
+ */
+export const listPaymentMethods = query({
+  args: { userId: vUserId },
+  handler: async (ctx, args) => {
+    const paymentMethods = await ctx.db
+      .query("paymentMethods")
+      .withIndex("userId", (q) => q.eq("userId", args.userId))
+      .collect();
+    return paymentMethods.sort(
+      (a, b) =>
+        Number(b.isDefault) - Number(a.isDefault) || b.created - a.created
+    );
+  },
+});
+
+/**
+ * Get a payment method by Stripe ID
+ */
+export const getPaymentMethodByStripeId = query({
+  args: { stripePaymentMethodId: vStripePaymentMethodId },
+  handler: async (ctx, args) =>
+    await ctx.db
+      .query("paymentMethods")
+      .withIndex("stripePaymentMethodId", (q) =>
+        q.eq("stripePaymentMethodId", args.stripePaymentMethodId)
+      )
+      .first(),
+});
+
+/**
+ * List the features a user is currently entitled to in Stripe
+ */
+export const listActiveEntitlements = query({
+  args: { userId: vUserId },
+  handler: async (ctx, args) =>
+    await ctx.db
+      .query("activeEntitlements")
+      .withIndex("userId", (q) => q.eq("userId", args.userId))
+      .collect(),
+});
+
+/**
+ * List the features attached to a Stripe product
+ */
+export const listProductFeatures = query({
+  args: { stripeProductId: vStripeProductId },
+  handler: async (ctx, args) =>
+    await ctx.db
+      .query("productFeatures")
+      .withIndex("stripeProductId", (q) =>
+        q.eq("stripeProductId", args.stripeProductId)
+      )
+      .collect(),
+});
+
+/**
+ * List a user's usage counters
+ */
+export const listUsageCounters = query({
+  args: { userId: vUserId },
+  handler: async (ctx, args) =>
+    await ctx.db
+      .query("usageCounters")
+      .withIndex("userId_name", (q) => q.eq("userId", args.userId))
+      .collect(),
+});
+
+/**
+ * Total metered usage reported for a user since a point in time
+ * Includes queued events that have not reached Stripe yet
+ */
+export const getMeterUsage = query({
+  args: vMeterUsageArgs.fields,
+  handler: async (ctx, args) => {
+    const events = await ctx.db
+      .query("meterEvents")
+      .withIndex("userId_eventName_timestamp", (q) =>
+        q
+          .eq("userId", args.userId)
+          .eq("eventName", args.eventName)
+          .gte("timestamp", args.since)
+      )
+      .collect();
+    return events
+      .filter((event) => event.status !== "dead")
+      .reduce((total, event) => total + event.value, 0);
+  },
+});
+
+/**
+ * Get a user's spendable credit balance
+ * Expired grants no longer count, even before their expiration is recorded
+ */
+export const getCreditBalance = query({
+  args: { userId: vUserId },
+  handler: async (ctx, args) =>
+    sumRemainingCredits(
+      await listSpendableCreditGrants(ctx, args.userId, Date.now())
+    ),
+});
+
+/**
+ * List a user's credit transactions, newest first
+ */
+export const listCreditTransactions = query({
+  args: {
+    userId: vUserId,
+    ...vListCreditTransactionsArgs.fields,
+  },
+  handler: async (ctx, args) => {
+    const transactions = ctx.db
+      .query("creditTransactions")
+      .withIndex("userId", (q) => q.eq("userId", args.userId))
+      .order("desc");
+
+    if (args.limit) {
+      return await transactions.take(args.limit);
+    }
+
+    return await transactions.collect();
+  },
+});
+
 /**
  * List invoices for a user
  */
@@ -188,40 +786,1271 @@ export const listUserInvoices = query({
   },
 });
 
+/**
+ * Get the cached upcoming invoice of a subscription
+ */
+export const getUpcomingInvoice = query({
+  args: { stripeSubscriptionId: vStripeSubscriptionId },
+  handler: async (ctx, args) =>
+    await ctx.db
+      .query("upcomingInvoices")
+      .withIndex("stripeSubscriptionId", (q) =>
+        q.eq("stripeSubscriptionId", args.stripeSubscriptionId)
+      )
+      .first(),
+});
+
+/**
+ * Get a webhook event by Stripe event ID
+ */
+export const getWebhookEvent = query({
+  args: { stripeEventId: vStripeEventId },
+  handler: async (ctx, args) =>
+    await ctx.db
+      .query("webhookEvents")
+      .withIndex("stripeEventId", (q) =>
+        q.eq("stripeEventId", args.stripeEventId)
+      )
+      .first(),
+});
+
+/**
+ * List webhook events, optionally filtered by status (e.g. "dead")
+ */
+export const listWebhookEvents = query({
+  args: vListWebhookEventsArgs.fields,
+  handler: async (ctx, args) => {
+    const { status } = args;
+    const events = status
+      ? ctx.db
+          .query("webhookEvents")
+          .withIndex("status", (q) => q.eq("status", status))
+          .order("desc")
+      : ctx.db.query("webhookEvents").order("desc");
+
+    return await events.take(args.limit ?? 100);
+  },
+});
+
 // ===== MUTATIONS =====
 
 /**
  * Create or update a customer
  */
 export const upsertCustomer = mutation({
-  args: vUpsertCustomerArgs.fields,
+  args: { ...vUpsertCustomerArgs.fields, onChange: vCallbackHandle },
+  handler: async (ctx, { onChange, ...args }) => {
+    const existing = await ctx.db
+      .query("customers")
+      .withIndex("stripeCustomerId", (q) =>
+        q.eq("stripeCustomerId", args.stripeCustomerId)
+      )
+      .first();
+
+    if (existing) {
+      const reason = getStaleWriteReason(existing.syncedAt, args.syncedAt);
+      if (reason) {
+        console.warn(
+          `Skipping stale customer write for ${args.stripeCustomerId}: ${reason}`
+        );
+        return { id: existing._id, applied: false as const, reason };
+      }
+
+      await ctx.db.patch(existing._id, {
+        email: args.email,
+        name: args.name,
+        currency: args.currency,
+        defaultPaymentMethodId: args.defaultPaymentMethodId,
+        syncedAt: args.syncedAt ?? existing.syncedAt,
+        metadata: args.metadata,
+      });
+      if (existing.defaultPaymentMethodId !== args.defaultPaymentMethodId) {
+        await applyDefaultPaymentMethod(
+          ctx,
+          args.stripeCustomerId,
+          args.defaultPaymentMethodId
+        );
+      }
+      const updated = await ctx.db.get(existing._id);
+      if (updated) {
+        await notifyCustomerChanged(ctx, onChange, "updated", updated);
+      }
+      return { id: existing._id, applied: true as const };
+    }
+
+    const id = await ctx.db.insert("customers", args);
+    const created = await ctx.db.get(id);
+    if (created) {
+      await notifyCustomerChanged(ctx, onChange, "created", created);
+    }
+    return { id, applied: true as const };
+  },
+});
+
+/**
+ * Create or update a product
+ */
+export const upsertProduct = mutation({
+  args: vUpsertProductArgs.fields,
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("products")
+      .withIndex("stripeProductId", (q) =>
+        q.eq("stripeProductId", args.stripeProductId)
+      )
+      .first();
+
+    if (existing) {
+      const reason = getStaleWriteReason(existing.syncedAt, args.syncedAt);
+      if (reason) {
+        console.warn(
+          `Skipping stale product write for ${args.stripeProductId}: ${reason}`
+        );
+        return { id: existing._id, applied: false as const, reason };
+      }
+
+      await ctx.db.patch(existing._id, {
+        name: args.name,
+        description: args.description,
+        active: args.active,
+        type: args.type,
+        slug: args.slug,
+        updated: args.updated,
+        syncedAt: args.syncedAt ?? existing.syncedAt,
+        metadata: args.metadata,
+      });
+      return { id: existing._id, applied: true as const };
+    }
+
+    const id = await ctx.db.insert("products", args);
+    return { id, applied: true as const };
+  },
+});
+
+/**
+ * Create or update a price
+ */
+export const upsertPrice = mutation({
+  args: vUpsertPriceArgs.fields,
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("prices")
+      .withIndex("stripePriceId", (q) =>
+        q.eq("stripePriceId", args.stripePriceId)
+      )
+      .first();
+
+    if (existing) {
+      const reason = getStaleWriteReason(existing.syncedAt, args.syncedAt);
+      if (reason) {
+        console.warn(
+          `Skipping stale price write for ${args.stripePriceId}: ${reason}`
+        );
+        return { id: existing._id, applied: false as const, reason };
+      }
+
+      await ctx.db.patch(existing._id, {
+        productId: args.productId,
+        stripeProductId: args.stripeProductId,
+        active: args.active,
+        currency: args.currency,
+        unitAmount: args.unitAmount,
+        billingScheme: args.billingScheme,
+        type: args.type,
+        recurringInterval: args.recurringInterval,
+        recurringIntervalCount: args.recurringIntervalCount,
+        slug: args.slug,
+        syncedAt: args.syncedAt ?? existing.syncedAt,
+        metadata: args.metadata,
+      });
+      return { id: existing._id, applied: true as const };
+    }
+
+    const id = await ctx.db.insert("prices", args);
+    return { id, applied: true as const };
+  },
+});
+
+/**
+ * Create or update a coupon
+ */
+export const upsertCoupon = mutation({
+  args: vUpsertCouponArgs.fields,
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("coupons")
+      .withIndex("stripeCouponId", (q) =>
+        q.eq("stripeCouponId", args.stripeCouponId)
+      )
+      .first();
+
+    if (existing) {
+      const reason = getStaleWriteReason(existing.syncedAt, args.syncedAt);
+      if (reason) {
+        console.warn(
+          `Skipping stale coupon write for ${args.stripeCouponId}: ${reason}`
+        );
+        return { id: existing._id, applied: false as const, reason };
+      }
+
+      await ctx.db.patch(existing._id, {
+        ...args,
+        syncedAt: args.syncedAt ?? existing.syncedAt,
+      });
+      return { id: existing._id, applied: true as const };
+    }
+
+    const id = await ctx.db.insert("coupons", args);
+    return { id, applied: true as const };
+  },
+});
+
+/**
+ * Create or update a promotion code
+ */
+export const upsertPromotionCode = mutation({
+  args: vUpsertPromotionCodeArgs.fields,
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("promotionCodes")
+      .withIndex("stripePromotionCodeId", (q) =>
+        q.eq("stripePromotionCodeId", args.stripePromotionCodeId)
+      )
+      .first();
+
+    if (existing) {
+      const reason = getStaleWriteReason(existing.syncedAt, args.syncedAt);
+      if (reason) {
+        console.warn(
+          `Skipping stale promotion code write for ${args.stripePromotionCodeId}: ${reason}`
+        );
+        return { id: existing._id, applied: false as const, reason };
+      }
+
+      await ctx.db.patch(existing._id, {
+        ...args,
+        syncedAt: args.syncedAt ?? existing.syncedAt,
+      });
+      return { id: existing._id, applied: true as const };
+    }
+
+    const id = await ctx.db.insert("promotionCodes", args);
+    return { id, applied: true as const };
+  },
+});
+
+/**
+ * Create or update a subscription
+ */
+export const upsertSubscription = mutation({
+  args: {
+    ...vUpsertSubscriptionArgs.fields,
+    ...vSubscriptionWriteSource.fields,
+    // Omit to leave the stored items unchanged
+    items: v.optional(v.array(vSubscriptionItemArgs)),
+    onChange: vCallbackHandle,
+  },
+  handler: async (ctx, { onChange, source, stripeEventId, items, ...args }) => {
+    const existing = await ctx.db
+      .query("subscriptions")
+      .withIndex("stripeSubscriptionId", (q) =>
+        q.eq("stripeSubscriptionId", args.stripeSubscriptionId)
+      )
+      .first();
+
+    if (existing) {
+      const reason = getStaleWriteReason(existing.syncedAt, args.syncedAt);
+      if (reason) {
+        console.warn(
+          `Skipping stale subscription write for ${args.stripeSubscriptionId}: ${reason}`
+        );
+        return { id: existing._id, applied: false as const, reason };
+      }
+
+      await ctx.db.patch(existing._id, {
+        status: args.status,
+        priceId: args.priceId,
+        stripePriceId: args.stripePriceId,
+        productSlug: args.productSlug,
+        quantity: args.quantity,
+        currency: args.currency,
+        currentPeriodStart: args.currentPeriodStart,
+        currentPeriodEnd: args.currentPeriodEnd,
+        cancelAtPeriodEnd: args.cancelAtPeriodEnd,
+        pauseBehavior: args.pauseBehavior,
+        pauseResumesAt: args.pauseResumesAt,
+        discounts: args.discounts,
+        canceledAt: args.canceledAt,
+        endedAt: args.endedAt,
+        trialStart: args.trialStart,
+        trialEnd: args.trialEnd,
+        syncedAt: args.syncedAt ?? existing.syncedAt,
+        metadata: args.metadata,
+      });
+      const updated = await ctx.db.get(existing._id);
+      if (updated) {
+        if (items) {
+          await replaceSubscriptionItems(ctx, updated, items);
+        }
+        await recordSubscriptionEvents(ctx, updated, existing, {
+          source,
+          stripeEventId,
+        });
+        await notifySubscriptionChanged(
+          ctx,
+          onChange,
+          "updated",
+          updated,
+          existing
+        );
+      }
+      return { id: existing._id, applied: true as const };
+    }
+
+    const id = await ctx.db.insert("subscriptions", args);
+    const created = await ctx.db.get(id);
+    if (created) {
+      if (items) {
+        await replaceSubscriptionItems(ctx, created, items);
+      }
+      await recordSubscriptionEvents(ctx, created, undefined, {
+        source,
+        stripeEventId,
+      });
+      await notifySubscriptionChanged(ctx, onChange, "created", created);
+    }
+    return { id, applied: true as const };
+  },
+});
+
+/**
+ * Mark a subscription as ended
+ * The row is kept so the subscription stays in the user's history
+ */
+export const endSubscription = mutation({
+  args: {
+    ...vEndSubscriptionArgs.fields,
+    ...vSubscriptionWriteSource.fields,
+    onChange: vCallbackHandle,
+  },
+  handler: async (ctx, { onChange, source, stripeEventId, ...args }) => {
+    const subscription = await ctx.db
+      .query("subscriptions")
+      .withIndex("stripeSubscriptionId", (q) =>
+        q.eq("stripeSubscriptionId", args.stripeSubscriptionId)
+      )
+      .first();
+
+    if (!subscription) {
+      return null;
+    }
+
+    const reason = getStaleWriteReason(subscription.syncedAt, args.syncedAt);
+    if (reason) {
+      console.warn(
+        `Skipping stale subscription end for ${args.stripeSubscriptionId}: ${reason}`
+      );
+      return { id: subscription._id, applied: false as const, reason };
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    await ctx.db.patch(subscription._id, {
+      status: args.status ?? "canceled",
+      endedAt: args.endedAt ?? subscription.endedAt ?? now,
+      syncedAt: args.syncedAt ?? subscription.syncedAt,
+    });
+    // An ended subscription is not invoiced again
+    const upcomingInvoice = await ctx.db
+      .query("upcomingInvoices")
+      .withIndex("stripeSubscriptionId", (q) =>
+        q.eq("stripeSubscriptionId", args.stripeSubscriptionId)
+      )
+      .first();
+    if (upcomingInvoice) {
+      await ctx.db.delete(upcomingInvoice._id);
+    }
+    const ended = await ctx.db.get(subscription._id);
+    if (ended) {
+      await ctx.db.insert("subscriptionEvents", {
+        subscriptionId: ended._id,
+        stripeSubscriptionId: ended.stripeSubscriptionId,
+        userId: ended.userId,
+        type: "ended",
+        status: ended.status,
+        previousStatus: subscription.status,
+        stripePriceId: ended.stripePriceId,
+        previousStripePriceId: subscription.stripePriceId,
+        cancelAtPeriodEnd: ended.cancelAtPeriodEnd,
+        source: source ?? "api",
+        stripeEventId,
+        timestamp: ended.endedAt ?? now,
+      });
+      await notifySubscriptionChanged(
+        ctx,
+        onChange,
+        "deleted",
+        ended,
+        subscription
+      );
+    }
+    return { id: subscription._id, applied: true as const };
+  },
+});
+
+/**
+ * Create or update a payment method
+ * The default flag follows the customer's stored default payment method
+ */
+export const upsertPaymentMethod = mutation({
+  args: vUpsertPaymentMethodArgs.fields,
+  handler: async (ctx, args) => {
+    const customer = await ctx.db.get(args.customerId);
+    const isDefault =
+      customer?.defaultPaymentMethodId === args.stripePaymentMethodId;
+
+    const existing = await ctx.db
+      .query("paymentMethods")
+      .withIndex("stripePaymentMethodId", (q) =>
+        q.eq("stripePaymentMethodId", args.stripePaymentMethodId)
+      )
+      .first();
+
+    if (existing) {
+      const reason = getStaleWriteReason(existing.syncedAt, args.syncedAt);
+      if (reason) {
+        console.warn(
+          `Skipping stale payment method write for ${args.stripePaymentMethodId}: ${reason}`
+        );
+        return { id: existing._id, applied: false as const, reason };
+      }
+
+      await ctx.db.patch(existing._id, {
+        ...args,
+        isDefault,
+        syncedAt: args.syncedAt ?? existing.syncedAt,
+      });
+      return { id: existing._id, applied: true as const };
+    }
+
+    const id = await ctx.db.insert("paymentMethods", { ...args, isDefault });
+    return { id, applied: true as const };
+  },
+});
+
+/**
+ * Delete a detached payment method
+ */
+export const deletePaymentMethod = mutation({
+  args: vDeletePaymentMethodArgs.fields,
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("paymentMethods")
+      .withIndex("stripePaymentMethodId", (q) =>
+        q.eq("stripePaymentMethodId", args.stripePaymentMethodId)
+      )
+      .first();
+    if (!existing) {
+      return;
+    }
+    const reason = getStaleWriteReason(existing.syncedAt, args.syncedAt);
+    if (reason) {
+      console.warn(
+        `Skipping stale payment method delete for ${args.stripePaymentMethodId}: ${reason}`
+      );
+      return;
+    }
+    await ctx.db.delete(existing._id);
+  },
+});
+
+/**
+ * Create or update a feature
+ */
+export const upsertFeature = mutation({
+  args: vUpsertFeatureArgs.fields,
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("features")
+      .withIndex("stripeFeatureId", (q) =>
+        q.eq("stripeFeatureId", args.stripeFeatureId)
+      )
+      .first();
+
+    if (existing) {
+      const reason = getStaleWriteReason(existing.syncedAt, args.syncedAt);
+      if (reason) {
+        console.warn(
+          `Skipping stale feature write for ${args.stripeFeatureId}: ${reason}`
+        );
+        return { id: existing._id, applied: false as const, reason };
+      }
+
+      await ctx.db.patch(existing._id, {
+        ...args,
+        syncedAt: args.syncedAt ?? existing.syncedAt,
+      });
+      return { id: existing._id, applied: true as const };
+    }
+
+    const id = await ctx.db.insert("features", args);
+    return { id, applied: true as const };
+  },
+});
+
+/**
+ * Replace the features attached to a product
+ */
+export const replaceProductFeatures = mutation({
+  args: vReplaceProductFeaturesArgs.fields,
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("productFeatures")
+      .withIndex("stripeProductId", (q) =>
+        q.eq("stripeProductId", args.stripeProductId)
+      )
+      .collect();
+    for (const row of existing) {
+      await ctx.db.delete(row._id);
+    }
+    for (const productFeature of args.productFeatures) {
+      await ctx.db.insert("productFeatures", {
+        ...productFeature,
+        stripeProductId: args.stripeProductId,
+        syncedAt: args.syncedAt,
+      });
+    }
+  },
+});
+
+/**
+ * Replace a customer's active entitlements with Stripe's latest summary
+ */
+export const replaceActiveEntitlements = mutation({
+  args: vReplaceActiveEntitlementsArgs.fields,
+  handler: async (ctx, args) => {
+    const customer = await ctx.db
+      .query("customers")
+      .withIndex("stripeCustomerId", (q) =>
+        q.eq("stripeCustomerId", args.stripeCustomerId)
+      )
+      .first();
+    if (!customer) {
+      return null;
+    }
+
+    // Summaries replace the whole set, so staleness is tracked on the customer
+    const reason = getStaleWriteReason(
+      customer.entitlementsSyncedAt,
+      args.syncedAt
+    );
+    if (reason) {
+      console.warn(
+        `Skipping stale entitlements for ${args.stripeCustomerId}: ${reason}`
+      );
+      return { id: customer._id, applied: false as const, reason };
+    }
+
+    const existing = await ctx.db
+      .query("activeEntitlements")
+      .withIndex("stripeCustomerId", (q) =>
+        q.eq("stripeCustomerId", args.stripeCustomerId)
+      )
+      .collect();
+    const incomingIds = new Set(
+      args.entitlements.map((entitlement) => entitlement.stripeEntitlementId)
+    );
+    for (const row of existing) {
+      if (!incomingIds.has(row.stripeEntitlementId)) {
+        await ctx.db.delete(row._id);
+      }
+    }
+    const existingIds = new Set(existing.map((row) => row.stripeEntitlementId));
+    for (const entitlement of args.entitlements) {
+      if (!existingIds.has(entitlement.stripeEntitlementId)) {
+        await ctx.db.insert("activeEntitlements", {
+          ...entitlement,
+          stripeCustomerId: args.stripeCustomerId,
+          userId: customer.userId,
+          syncedAt: args.syncedAt,
+        });
+      }
+    }
+
+    await ctx.db.patch(customer._id, {
+      entitlementsSyncedAt: args.syncedAt ?? customer.entitlementsSyncedAt,
+    });
+    return { id: customer._id, applied: true as const };
+  },
+});
+
+/**
+ * Add to a usage counter unless it would exceed the maximum
+ * Negative amounts release usage and are never rejected
+ */
+export const incrementUsageCounter = mutation({
+  args: vIncrementUsageCounterArgs.fields,
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("usageCounters")
+      .withIndex("userId_name", (q) =>
+        q.eq("userId", args.userId).eq("name", args.name)
+      )
+      .first();
+
+    const isCurrentPeriod =
+      args.periodStart === undefined ||
+      existing?.periodStart === args.periodStart;
+    const current = existing && isCurrentPeriod ? existing.value : 0;
+    const value = Math.max(0, current + args.amount);
+
+    if (args.amount > 0 && args.max !== undefined && value > args.max) {
+      return { allowed: false, value: current };
+    }
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        value,
+        periodStart: args.periodStart,
+        updatedAt: Date.now(),
+      });
+    } else {
+      await ctx.db.insert("usageCounters", {
+        userId: args.userId,
+        name: args.name,
+        value,
+        periodStart: args.periodStart,
+        updatedAt: Date.now(),
+      });
+    }
+    return { allowed: true, value };
+  },
+});
+
+/**
+ * Cancel the scheduled run of a seat update if it has not started
+ */
+async function cancelScheduledSeatUpdate(
+  ctx: MutationCtx,
+  seatUpdate: Doc<"seatUpdates">
+) {
+  if (!seatUpdate.scheduledFunctionId) {
+    return;
+  }
+  const scheduled = await ctx.db.system.get(seatUpdate.scheduledFunctionId);
+  if (scheduled?.state.kind === "pending") {
+    await ctx.scheduler.cancel(seatUpdate.scheduledFunctionId);
+  }
+}
+
+/**
+ * Request a new seat count for a subscription
+ * Requests made within the debounce delay are sent to Stripe as one update
+ */
+export const requestSeatUpdate = mutation({
+  args: vRequestSeatUpdateArgs.fields,
+  handler: async (ctx, args) => {
+    const subscription = await ctx.db
+      .query("subscriptions")
+      .withIndex("stripeSubscriptionId", (q) =>
+        q.eq("stripeSubscriptionId", args.stripeSubscriptionId)
+      )
+      .first();
+    if (!subscription) {
+      throw new Error(`Subscription ${args.stripeSubscriptionId} not found`);
+    }
+    const existing = await ctx.db
+      .query("seatUpdates")
+      .withIndex("stripeSubscriptionId", (q) =>
+        q.eq("stripeSubscriptionId", args.stripeSubscriptionId)
+      )
+      .first();
+    if (existing) {
+      await cancelScheduledSeatUpdate(ctx, existing);
+    }
+
+    // Back to the confirmed count before anything was sent: nothing to update
+    const isApplying = existing?.status === "applying";
+    if (!isApplying && args.quantity === subscription.quantity) {
+      if (existing) {
+        await ctx.db.delete(existing._id);
+      }
+      return;
+    }
+
+    const scheduledFunctionId = await ctx.scheduler.runAfter(
+      SEAT_UPDATE_DEBOUNCE_MS,
+      args.updater as FunctionHandle<"action">,
+      { stripeSubscriptionId: args.stripeSubscriptionId }
+    );
+    const fields = {
+      quantity: args.quantity,
+      prorationBehavior: args.prorationBehavior,
+      status: isApplying ? ("applying" as const) : ("pending" as const),
+      error: undefined,
+      updater: args.updater,
+      scheduledFunctionId,
+      updatedAt: Date.now(),
+    };
+    if (existing) {
+      await ctx.db.patch(existing._id, fields);
+    } else {
+      await ctx.db.insert("seatUpdates", {
+        ...fields,
+        stripeSubscriptionId: args.stripeSubscriptionId,
+        userId: subscription.userId,
+      });
+    }
+  },
+});
+
+/**
+ * Claim a subscription's pending seat update for sending to Stripe
+ * Returns null if there is nothing to send; while another update is being
+ * sent, the updater is rescheduled instead
+ */
+export const claimSeatUpdate = mutation({
+  args: { stripeSubscriptionId: vStripeSubscriptionId },
+  handler: async (ctx, args) => {
+    const seatUpdate = await ctx.db
+      .query("seatUpdates")
+      .withIndex("stripeSubscriptionId", (q) =>
+        q.eq("stripeSubscriptionId", args.stripeSubscriptionId)
+      )
+      .first();
+    if (!seatUpdate || seatUpdate.status === "failed") {
+      return null;
+    }
+
+    const now = Date.now();
+    if (
+      seatUpdate.status === "applying" &&
+      (seatUpdate.leaseExpiresAt ?? 0) > now
+    ) {
+      const scheduledFunctionId = await ctx.scheduler.runAfter(
+        SEAT_UPDATE_DEBOUNCE_MS,
+        seatUpdate.updater as FunctionHandle<"action">,
+        { stripeSubscriptionId: args.stripeSubscriptionId }
+      );
+      await ctx.db.patch(seatUpdate._id, { scheduledFunctionId });
+      return null;
+    }
+
+    await ctx.db.patch(seatUpdate._id, {
+      status: "applying",
+      applyingQuantity: seatUpdate.quantity,
+      leaseExpiresAt: now + SEAT_UPDATE_LEASE_MS,
+      scheduledFunctionId: undefined,
+    });
+    return {
+      quantity: seatUpdate.quantity,
+      prorationBehavior: seatUpdate.prorationBehavior,
+    };
+  },
+});
+
+/**
+ * Record the outcome of sending a seat update to Stripe
+ * A request made while the update was being sent stays pending
+ */
+export const settleSeatUpdate = mutation({
+  args: vSettleSeatUpdateArgs.fields,
+  handler: async (ctx, args) => {
+    const seatUpdate = await ctx.db
+      .query("seatUpdates")
+      .withIndex("stripeSubscriptionId", (q) =>
+        q.eq("stripeSubscriptionId", args.stripeSubscriptionId)
+      )
+      .first();
+
+    // The new count reaches the subscription row through the regular subscription upsert
+    if (!seatUpdate) {
+      return;
+    }
+    if (seatUpdate.quantity !== args.quantity) {
+      await ctx.db.patch(seatUpdate._id, {
+        status: "pending",
+        applyingQuantity: undefined,
+        leaseExpiresAt: undefined,
+      });
+    } else if (args.error === undefined) {
+      await ctx.db.delete(seatUpdate._id);
+    } else {
+      await ctx.db.patch(seatUpdate._id, {
+        status: "failed",
+        error: args.error,
+        applyingQuantity: undefined,
+        leaseExpiresAt: undefined,
+      });
+    }
+  },
+});
+
+/**
+ * Add credits to a user's balance
+ * A grant whose source ID was already recorded is skipped, so purchases are credited once
+ */
+export const grantCredits = mutation({
+  args: vGrantCreditsArgs.fields,
+  handler: async (ctx, args) => {
+    if (!(args.amount > 0)) {
+      throw new Error("Credit grants must be positive");
+    }
+    if (await getCreditTransactionBySourceId(ctx, args.sourceId)) {
+      return { granted: false };
+    }
+
+    const grantId = await ctx.db.insert("creditTransactions", {
+      userId: args.userId,
+      type: "grant",
+      amount: args.amount,
+      reason: args.reason,
+      sourceId: args.sourceId,
+      remaining: args.amount,
+      expiresAt: args.expiresAt,
+      createdAt: Date.now(),
+    });
+    if (args.expiresAt !== undefined) {
+      await ctx.scheduler.runAt(
+        args.expiresAt,
+        internal.lib.expireCreditGrant,
+        {
+          grantId,
+        }
+      );
+    }
+    return { granted: true };
+  },
+});
+
+/**
+ * Spend credits from a user's balance
+ * Rejected without changes if the balance is too low; the balance never goes negative
+ * A debit whose source ID was already recorded is not applied again
+ */
+export const spendCredits = mutation({
+  args: vSpendCreditsArgs.fields,
+  handler: async (ctx, args) => {
+    if (!(args.amount > 0)) {
+      throw new Error("Credit debits must be positive");
+    }
+    const now = Date.now();
+    const grants = await listSpendableCreditGrants(ctx, args.userId, now);
+    const balance = sumRemainingCredits(grants);
+
+    if (await getCreditTransactionBySourceId(ctx, args.sourceId)) {
+      return { allowed: true, balance };
+    }
+    if (args.amount > balance) {
+      return { allowed: false, balance };
+    }
+
+    let unpaid = args.amount;
+    for (const grant of grants) {
+      if (unpaid <= 0) {
+        break;
+      }
+      const spent = Math.min(grant.remaining ?? 0, unpaid);
+      await ctx.db.patch(grant._id, {
+        remaining: (grant.remaining ?? 0) - spent,
+      });
+      unpaid -= spent;
+    }
+
+    await ctx.db.insert("creditTransactions", {
+      userId: args.userId,
+      type: "debit",
+      amount: -args.amount,
+      reason: args.reason,
+      sourceId: args.sourceId,
+      createdAt: now,
+    });
+    return { allowed: true, balance: balance - args.amount };
+  },
+});
+
+/**
+ * Record the expiration of a grant's unspent credits
+ * Scheduled for the grant's expiration time
+ */
+export const expireCreditGrant = internalMutation({
+  args: { grantId: v.id("creditTransactions") },
+  handler: async (ctx, args) => {
+    const grant = await ctx.db.get(args.grantId);
+    if (!grant?.remaining) {
+      return;
+    }
+    await ctx.db.patch(grant._id, { remaining: 0 });
+    await ctx.db.insert("creditTransactions", {
+      userId: grant.userId,
+      type: "expiration",
+      amount: -grant.remaining,
+      reason: grant.reason,
+      grantId: grant._id,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Schedule the flusher unless a flush is already due soon
+ */
+async function scheduleMeterEventFlush(
+  ctx: MutationCtx,
+  flusher: string,
+  delay: number
+) {
+  const due = await ctx.db
+    .query("meterEvents")
+    .withIndex("status_nextAttemptAt", (q) =>
+      q.eq("status", "pending").lte("nextAttemptAt", Date.now() + delay)
+    )
+    .first();
+  if (due) {
+    return;
+  }
+  await ctx.scheduler.runAfter(delay, flusher as FunctionHandle<"action">, {});
+}
+
+/**
+ * Queue usage to report to a Stripe Billing Meter
+ * Events with an identifier that is already queued are ignored
+ */
+export const recordMeterEvent = mutation({
+  args: vRecordMeterEventArgs.fields,
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("meterEvents")
+      .withIndex("identifier", (q) => q.eq("identifier", args.identifier))
+      .first();
+    if (existing) {
+      return existing._id;
+    }
+
+    const customer = await ctx.db
+      .query("customers")
+      .withIndex("userId", (q) => q.eq("userId", args.userId))
+      .first();
+    if (!customer) {
+      throw new Error(`No Stripe customer for user ${args.userId}`);
+    }
+
+    await scheduleMeterEventFlush(
+      ctx,
+      args.flusher,
+      METER_EVENT_FLUSH_DELAY_MS
+    );
+    return await ctx.db.insert("meterEvents", {
+      ...args,
+      stripeCustomerId: customer.stripeCustomerId,
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: Date.now() + METER_EVENT_FLUSH_DELAY_MS,
+    });
+  },
+});
+
+/**
+ * Claim a batch of due meter events for sending
+ * Claims expire after a lease, so events from a crashed flush are sent again;
+ * a flush is scheduled for when the lease expires to pick them up
+ */
+export const claimMeterEvents = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const candidates = [
+      ...(await ctx.db
+        .query("meterEvents")
+        .withIndex("status_nextAttemptAt", (q) =>
+          q.eq("status", "pending").lte("nextAttemptAt", now)
+        )
+        .take(METER_EVENT_BATCH_SIZE)),
+      ...(await ctx.db
+        .query("meterEvents")
+        .withIndex("status_nextAttemptAt", (q) =>
+          q.eq("status", "sending").lte("nextAttemptAt", now)
+        )
+        .take(METER_EVENT_BATCH_SIZE)),
+    ].slice(0, METER_EVENT_BATCH_SIZE);
+
+    const due: Doc<"meterEvents">[] = [];
+    for (const event of candidates) {
+      // An expired claim counts as a failed attempt
+      if (event.attempts >= METER_EVENT_MAX_ATTEMPTS) {
+        const error = "Flush did not settle before its claim expired";
+        console.error(
+          `Meter event ${event.identifier} moved to dead letter after ${event.attempts} attempts: ${error}`
+        );
+        await ctx.db.patch(event._id, { status: "dead", error });
+        continue;
+      }
+      await ctx.db.patch(event._id, {
+        status: "sending",
+        attempts: event.attempts + 1,
+        nextAttemptAt: now + METER_EVENT_LEASE_MS,
+      });
+      due.push(event);
+    }
+
+    const [first] = due;
+    if (first) {
+      await ctx.scheduler.runAfter(
+        METER_EVENT_LEASE_MS,
+        first.flusher as FunctionHandle<"action">,
+        {}
+      );
+    }
+    return due.map(
+      ({ identifier, eventName, stripeCustomerId, value, timestamp }) => ({
+        identifier,
+        eventName,
+        stripeCustomerId,
+        value,
+        timestamp,
+      })
+    );
+  },
+});
+
+/**
+ * Record the outcome of a flush, retrying failed events with backoff
+ * Schedules the next flush while events remain queued
+ */
+export const settleMeterEvents = mutation({
+  args: vSettleMeterEventsArgs.fields,
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    let flusher: string | undefined;
+
+    for (const identifier of args.sent) {
+      const event = await ctx.db
+        .query("meterEvents")
+        .withIndex("identifier", (q) => q.eq("identifier", identifier))
+        .first();
+      if (event) {
+        flusher = event.flusher;
+        await ctx.db.patch(event._id, {
+          status: "sent",
+          error: undefined,
+          sentAt: now,
+        });
+      }
+    }
+
+    for (const { identifier, error } of args.failed) {
+      const event = await ctx.db
+        .query("meterEvents")
+        .withIndex("identifier", (q) => q.eq("identifier", identifier))
+        .first();
+      if (!event) {
+        continue;
+      }
+      flusher = event.flusher;
+      if (event.attempts >= METER_EVENT_MAX_ATTEMPTS) {
+        console.error(
+          `Meter event ${identifier} moved to dead letter after ${event.attempts} attempts: ${error}`
+        );
+        await ctx.db.patch(event._id, { status: "dead", error });
+        continue;
+      }
+      const delay = Math.min(
+        METER_EVENT_RETRY_BASE_MS * 2 ** (event.attempts - 1),
+        METER_EVENT_RETRY_MAX_MS
+      );
+      await ctx.db.patch(event._id, {
+        status: "pending",
+        error,
+        nextAttemptAt: now + delay,
+      });
+    }
+
+    // Earliest retry, or earliest claim that expires without being settled
+    const [next] = (
+      await Promise.all(
+        (["pending", "sending"] as const).map((status) =>
+          ctx.db
+            .query("meterEvents")
+            .withIndex("status_nextAttemptAt", (q) => q.eq("status", status))
+            .first()
+        )
+      )
+    )
+      .filter((event) => event !== null)
+      .sort((a, b) => a.nextAttemptAt - b.nextAttemptAt);
+    if (next) {
+      await ctx.scheduler.runAfter(
+        Math.max(0, next.nextAttemptAt - now),
+        (flusher ?? next.flusher) as FunctionHandle<"action">,
+        {}
+      );
+    }
+  },
+});
+
+/**
+ * Create or update a Checkout session
+ * Asynchronous payment failures stay "failed" until Stripe reports a payment
+ */
+export const upsertCheckoutSession = mutation({
+  args: vUpsertCheckoutSessionArgs.fields,
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("checkoutSessions")
+      .withIndex("stripeCheckoutSessionId", (q) =>
+        q.eq("stripeCheckoutSessionId", args.stripeCheckoutSessionId)
+      )
+      .first();
+    const completedAt =
+      existing?.completedAt ??
+      (args.status === "complete" ? args.syncedAt : undefined);
+
+    if (existing) {
+      const reason = getStaleWriteReason(existing.syncedAt, args.syncedAt);
+      if (reason) {
+        console.warn(
+          `Skipping stale checkout session write for ${args.stripeCheckoutSessionId}: ${reason}`
+        );
+        return { id: existing._id, applied: false as const, reason };
+      }
+
+      await ctx.db.patch(existing._id, {
+        ...args,
+        paymentStatus:
+          existing.paymentStatus === "failed" && args.paymentStatus === "unpaid"
+            ? "failed"
+            : args.paymentStatus,
+        priceIds: args.priceIds ?? existing.priceIds,
+        completedAt,
+        syncedAt: args.syncedAt ?? existing.syncedAt,
+      });
+      return { id: existing._id, applied: true as const };
+    }
+
+    const id = await ctx.db.insert("checkoutSessions", {
+      ...args,
+      completedAt,
+    });
+    return { id, applied: true as const };
+  },
+});
+
+/**
+ * Create or update an invoice
+ */
+export const upsertInvoice = mutation({
+  args: vUpsertInvoiceArgs.fields,
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("invoices")
+      .withIndex("stripeInvoiceId", (q) =>
+        q.eq("stripeInvoiceId", args.stripeInvoiceId)
+      )
+      .first();
+
+    if (existing) {
+      const reason = getStaleWriteReason(existing.syncedAt, args.syncedAt);
+      if (reason) {
+        console.warn(
+          `Skipping stale invoice write for ${args.stripeInvoiceId}: ${reason}`
+        );
+        return { id: existing._id, applied: false as const, reason };
+      }
+
+      await ctx.db.patch(existing._id, {
+        status: args.status,
+        amountPaid: args.amountPaid,
+        amountRemaining: args.amountRemaining,
+        discount: args.discount,
+        discounts: args.discounts,
+        invoicePdf: args.invoicePdf,
+        hostedInvoiceUrl: args.hostedInvoiceUrl,
+        paidAt: args.paidAt,
+        syncedAt: args.syncedAt ?? existing.syncedAt,
+        metadata: args.metadata,
+      });
+      return { id: existing._id, applied: true as const };
+    }
+
+    const id = await ctx.db.insert("invoices", args);
+    return { id, applied: true as const };
+  },
+});
+
+/**
+ * Cache the upcoming invoice of a subscription
+ */
+export const upsertUpcomingInvoice = mutation({
+  args: vUpsertUpcomingInvoiceArgs.fields,
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("upcomingInvoices")
+      .withIndex("stripeSubscriptionId", (q) =>
+        q.eq("stripeSubscriptionId", args.stripeSubscriptionId)
+      )
+      .first();
+
+    if (existing) {
+      const reason = getStaleWriteReason(existing.syncedAt, args.syncedAt);
+      if (reason) {
+        console.warn(
+          `Skipping stale upcoming invoice for ${args.stripeSubscriptionId}: ${reason}`
+        );
+        return { id: existing._id, applied: false as const, reason };
+      }
+      await ctx.db.patch(existing._id, { ...args, fetchedAt: Date.now() });
+      return { id: existing._id, applied: true as const };
+    }
+
+    const id = await ctx.db.insert("upcomingInvoices", {
+      ...args,
+      fetchedAt: Date.now(),
+    });
+    return { id, applied: true as const };
+  },
+});
+
+/**
+ * Remove the cached upcoming invoice of a subscription that will not be invoiced again
+ */
+export const deleteUpcomingInvoice = mutation({
+  args: { stripeSubscriptionId: vStripeSubscriptionId },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("upcomingInvoices")
+      .withIndex("stripeSubscriptionId", (q) =>
+        q.eq("stripeSubscriptionId", args.stripeSubscriptionId)
+      )
+      .first();
+    if (existing) {
+      await ctx.db.delete(existing._id);
+    }
+  },
+});
+
+/**
+ * Delete a customer by Stripe ID
+ */
+export const deleteCustomer = mutation({
+  args: { ...vDeleteCustomerArgs.fields, onChange: vCallbackHandle },
   handler: async (ctx, args) => {
-    const existing = await ctx.db
+    const customer = await ctx.db
       .query("customers")
       .withIndex("stripeCustomerId", (q) =>
         q.eq("stripeCustomerId", args.stripeCustomerId)
       )
       .first();
-
-    if (existing) {
-      await ctx.db.patch(existing._id, {
-        email: args.email,
-        name: args.name,
-        currency: args.currency,
-        metadata: args.metadata,
-      });
-      return existing._id;
+    if (customer) {
+      await ctx.db.delete(customer._id);
+      await notifyCustomerChanged(ctx, args.onChange, "deleted", customer);
     }
-
-    return await ctx.db.insert("customers", args);
   },
 });
 
 /**
- * Create or update a product
+ * Deactivate a product (set active=false) by Stripe ID
  */
-export const upsertProduct = mutation({
-  args: vUpsertProductArgs.fields,
+export const deactivateProduct = mutation({
+  args: vDeactivateProductArgs.fields,
   handler: async (ctx, args) => {
     const existing = await ctx.db
       .query("products")
@@ -229,29 +2058,28 @@ export const upsertProduct = mutation({
         q.eq("stripeProductId", args.stripeProductId)
       )
       .first();
-
-    if (existing) {
-      await ctx.db.patch(existing._id, {
-        name: args.name,
-        description: args.description,
-        active: args.active,
-        type: args.type,
-        slug: args.slug,
-        updated: args.updated,
-        metadata: args.metadata,
-      });
-      return existing._id;
+    if (!existing) {
+      return;
     }
-
-    return await ctx.db.insert("products", args);
+    const reason = getStaleWriteReason(existing.syncedAt, args.syncedAt);
+    if (reason) {
+      console.warn(
+        `Skipping stale product deactivation for ${args.stripeProductId}: ${reason}`
+      );
+      return;
+    }
+    await ctx.db.patch(existing._id, {
+      active: false,
+      syncedAt: args.syncedAt ?? existing.syncedAt,
+    });
   },
 });
 
 /**
- * Create or update a price
+ * Deactivate a price (set active=false) by Stripe ID
  */
-export const upsertPrice = mutation({
-  args: vUpsertPriceArgs.fields,
+export const deactivatePrice = mutation({
+  args: vDeactivatePriceArgs.fields,
   handler: async (ctx, args) => {
     const existing = await ctx.db
       .query("prices")
@@ -259,164 +2087,333 @@ export const upsertPrice = mutation({
         q.eq("stripePriceId", args.stripePriceId)
       )
       .first();
+    if (!existing) {
+      return;
+    }
+    const reason = getStaleWriteReason(existing.syncedAt, args.syncedAt);
+    if (reason) {
+      console.warn(
+        `Skipping stale price deactivation for ${args.stripePriceId}: ${reason}`
+      );
+      return;
+    }
+    await ctx.db.patch(existing._id, {
+      active: false,
+      syncedAt: args.syncedAt ?? existing.syncedAt,
+    });
+  },
+});
 
-    if (existing) {
-      await ctx.db.patch(existing._id, {
-        productId: args.productId,
-        stripeProductId: args.stripeProductId,
-        active: args.active,
-        currency: args.currency,
-        unitAmount: args.unitAmount,
-        billingScheme: args.billingScheme,
+/**
+ * Claim a webhook event for processing
+ * Returns "process" if the caller should handle the event, "duplicate" if it
+ * was already processed, or "in_progress" if another delivery is handling it
+ */
+export const claimWebhookEvent = mutation({
+  args: vClaimWebhookEventArgs.fields,
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const existing = await ctx.db
+      .query("webhookEvents")
+      .withIndex("stripeEventId", (q) =>
+        q.eq("stripeEventId", args.stripeEventId)
+      )
+      .first();
+
+    if (!existing) {
+      await ctx.db.insert("webhookEvents", {
+        stripeEventId: args.stripeEventId,
         type: args.type,
-        recurringInterval: args.recurringInterval,
-        recurringIntervalCount: args.recurringIntervalCount,
-        slug: args.slug,
-        metadata: args.metadata,
+        endpoint: args.endpoint,
+        status: "processing",
+        attempts: 1,
+        receivedAt: now,
+        lastAttemptAt: now,
+        created: args.created,
       });
-      return existing._id;
+      return "process" as const;
+    }
+
+    if (existing.status === "processed") {
+      return "duplicate" as const;
+    }
+
+    if (isWebhookEventInProgress(existing, now)) {
+      return "in_progress" as const;
     }
 
-    return await ctx.db.insert("prices", args);
+    await ctx.db.patch(existing._id, {
+      status: "processing",
+      attempts: existing.attempts + 1,
+      lastAttemptAt: now,
+    });
+    return "process" as const;
   },
 });
 
 /**
- * Create or update a subscription
+ * Mark a webhook event as processed
+ * With `attempt`, does nothing if a later attempt took the event over
  */
-export const upsertSubscription = mutation({
-  args: vUpsertSubscriptionArgs.fields,
+export const completeWebhookEvent = mutation({
+  args: { stripeEventId: vStripeEventId, attempt: v.optional(v.number()) },
   handler: async (ctx, args) => {
     const existing = await ctx.db
-      .query("subscriptions")
-      .withIndex("stripeSubscriptionId", (q) =>
-        q.eq("stripeSubscriptionId", args.stripeSubscriptionId)
+      .query("webhookEvents")
+      .withIndex("stripeEventId", (q) =>
+        q.eq("stripeEventId", args.stripeEventId)
       )
       .first();
+    if (existing && !isSupersededWebhookAttempt(existing, args.attempt)) {
+      await ctx.db.patch(existing._id, {
+        status: "processed",
+        error: undefined,
+        nextAttemptAt: undefined,
+        processedAt: Date.now(),
+      });
+    }
+  },
+});
 
+/**
+ * Mark a webhook event as failed so a later delivery can retry it
+ */
+export const failWebhookEvent = mutation({
+  args: vFailWebhookEventArgs.fields,
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("webhookEvents")
+      .withIndex("stripeEventId", (q) =>
+        q.eq("stripeEventId", args.stripeEventId)
+      )
+      .first();
     if (existing) {
       await ctx.db.patch(existing._id, {
-        status: args.status,
-        priceId: args.priceId,
-        stripePriceId: args.stripePriceId,
-        productSlug: args.productSlug,
-        currency: args.currency,
-        currentPeriodStart: args.currentPeriodStart,
-        currentPeriodEnd: args.currentPeriodEnd,
-        cancelAtPeriodEnd: args.cancelAtPeriodEnd,
-        canceledAt: args.canceledAt,
-        endedAt: args.endedAt,
-        trialStart: args.trialStart,
-        trialEnd: args.trialEnd,
-        metadata: args.metadata,
+        status: "failed",
+        error: args.error,
       });
-      return existing._id;
     }
-
-    return await ctx.db.insert("subscriptions", args);
   },
 });
 
 /**
- * Delete a subscription
+ * Store a webhook event and schedule it for asynchronous processing
+ * Returns "queued", or "duplicate" if the event was already received
  */
-export const deleteSubscription = mutation({
-  args: vDeleteSubscriptionArgs.fields,
+export const enqueueWebhookEvent = mutation({
+  args: vEnqueueWebhookEventArgs.fields,
   handler: async (ctx, args) => {
-    const subscription = await ctx.db
-      .query("subscriptions")
-      .withIndex("stripeSubscriptionId", (q) =>
-        q.eq("stripeSubscriptionId", args.stripeSubscriptionId)
+    const existing = await ctx.db
+      .query("webhookEvents")
+      .withIndex("stripeEventId", (q) =>
+        q.eq("stripeEventId", args.stripeEventId)
       )
       .first();
 
-    if (subscription) {
-      await ctx.db.delete(subscription._id);
+    if (existing) {
+      return "duplicate" as const;
     }
+
+    const now = Date.now();
+    await ctx.db.insert("webhookEvents", {
+      stripeEventId: args.stripeEventId,
+      type: args.type,
+      endpoint: args.endpoint,
+      status: "pending",
+      attempts: 0,
+      payload: args.payload,
+      processor: args.processor,
+      receivedAt: now,
+      nextAttemptAt: now,
+      created: args.created,
+    });
+    await ctx.scheduler.runAfter(0, internal.lib.dispatchWebhookEvent, {
+      stripeEventId: args.stripeEventId,
+    });
+    return "queued" as const;
   },
 });
 
 /**
- * Create or update an invoice
+ * Start a processing attempt for a queued webhook event
+ * An attempt holds the event for a lease; if its dispatch dies before
+ * settling, the check scheduled for the lease expiry takes the event back.
+ * Returns null if the event is not due for processing
  */
-export const upsertInvoice = mutation({
-  args: vUpsertInvoiceArgs.fields,
+export const startWebhookEventAttempt = internalMutation({
+  args: { stripeEventId: vStripeEventId },
   handler: async (ctx, args) => {
     const existing = await ctx.db
-      .query("invoices")
-      .withIndex("stripeInvoiceId", (q) =>
-        q.eq("stripeInvoiceId", args.stripeInvoiceId)
+      .query("webhookEvents")
+      .withIndex("stripeEventId", (q) =>
+        q.eq("stripeEventId", args.stripeEventId)
       )
       .first();
 
-    if (existing) {
+    const now = Date.now();
+    if (
+      !(
+        existing?.payload &&
+        existing.processor &&
+        (existing.status === "pending" || existing.status === "processing")
+      ) ||
+      (existing.nextAttemptAt ?? 0) > now
+    ) {
+      return null;
+    }
+
+    // An expired lease counts as a failed attempt
+    if (
+      existing.status === "processing" &&
+      existing.attempts >= WEBHOOK_MAX_ATTEMPTS
+    ) {
+      const error = "Processing did not finish before its lease expired";
+      console.error(
+        `Webhook event ${args.stripeEventId} moved to dead letter after ${existing.attempts} attempts: ${error}`
+      );
       await ctx.db.patch(existing._id, {
-        status: args.status,
-        amountPaid: args.amountPaid,
-        amountRemaining: args.amountRemaining,
-        invoicePdf: args.invoicePdf,
-        hostedInvoiceUrl: args.hostedInvoiceUrl,
-        paidAt: args.paidAt,
-        metadata: args.metadata,
+        status: "dead",
+        error,
+        nextAttemptAt: undefined,
       });
-      return existing._id;
+      return null;
     }
 
-    return await ctx.db.insert("invoices", args);
+    await ctx.db.patch(existing._id, {
+      status: "processing",
+      attempts: existing.attempts + 1,
+      lastAttemptAt: now,
+      nextAttemptAt: now + WEBHOOK_EVENT_LEASE_MS,
+    });
+    await ctx.scheduler.runAfter(
+      WEBHOOK_EVENT_LEASE_MS,
+      internal.lib.dispatchWebhookEvent,
+      { stripeEventId: args.stripeEventId }
+    );
+    return {
+      payload: existing.payload,
+      processor: existing.processor,
+      attempt: existing.attempts + 1,
+    };
   },
 });
 
 /**
- * Delete a customer by Stripe ID
+ * Record a failed processing attempt
+ * Retries with exponential backoff, then moves the event to the dead-letter state
+ * With `attempt`, does nothing if a later attempt took the event over
  */
-export const deleteCustomer = mutation({
-  args: vDeleteCustomerArgs.fields,
+export const retryWebhookEvent = internalMutation({
+  args: { ...vFailWebhookEventArgs.fields, attempt: v.optional(v.number()) },
   handler: async (ctx, args) => {
-    const customer = await ctx.db
-      .query("customers")
-      .withIndex("stripeCustomerId", (q) =>
-        q.eq("stripeCustomerId", args.stripeCustomerId)
+    const existing = await ctx.db
+      .query("webhookEvents")
+      .withIndex("stripeEventId", (q) =>
+        q.eq("stripeEventId", args.stripeEventId)
       )
       .first();
-    if (customer) {
-      await ctx.db.delete(customer._id);
+    if (!existing || isSupersededWebhookAttempt(existing, args.attempt)) {
+      return;
+    }
+
+    if (existing.attempts >= WEBHOOK_MAX_ATTEMPTS) {
+      console.error(
+        `Webhook event ${args.stripeEventId} moved to dead letter after ${existing.attempts} attempts: ${args.error}`
+      );
+      await ctx.db.patch(existing._id, { status: "dead", error: args.error });
+      return;
     }
+
+    const delay = Math.min(
+      WEBHOOK_RETRY_BASE_MS * 2 ** (existing.attempts - 1),
+      WEBHOOK_RETRY_MAX_MS
+    );
+    await ctx.db.patch(existing._id, {
+      status: "pending",
+      error: args.error,
+      nextAttemptAt: Date.now() + delay,
+    });
+    await ctx.scheduler.runAfter(delay, internal.lib.dispatchWebhookEvent, {
+      stripeEventId: args.stripeEventId,
+    });
   },
 });
 
 /**
- * Deactivate a product (set active=false) by Stripe ID
+ * Replay a single webhook event, or every dead-lettered event if no ID is given
+ * Returns the number of events scheduled for processing
  */
-export const deactivateProduct = mutation({
-  args: v.object({ stripeProductId: vStripeProductId }),
+export const replayWebhookEvents = mutation({
+  args: vReplayWebhookEventsArgs.fields,
   handler: async (ctx, args) => {
-    const existing = await ctx.db
-      .query("products")
-      .withIndex("stripeProductId", (q) =>
-        q.eq("stripeProductId", args.stripeProductId)
-      )
-      .first();
-    if (existing) {
-      await ctx.db.patch(existing._id, { active: false });
+    const { stripeEventId } = args;
+    const events = stripeEventId
+      ? await ctx.db
+          .query("webhookEvents")
+          .withIndex("stripeEventId", (q) =>
+            q.eq("stripeEventId", stripeEventId)
+          )
+          .collect()
+      : await ctx.db
+          .query("webhookEvents")
+          .withIndex("status", (q) => q.eq("status", "dead"))
+          .collect();
+
+    const now = Date.now();
+    let replayed = 0;
+    for (const event of events) {
+      if (
+        !(event.payload && event.processor) ||
+        isWebhookEventInProgress(event, now)
+      ) {
+        continue;
+      }
+
+      await ctx.db.patch(event._id, {
+        status: "pending",
+        attempts: 0,
+        nextAttemptAt: now,
+      });
+      await ctx.scheduler.runAfter(0, internal.lib.dispatchWebhookEvent, {
+        stripeEventId: event.stripeEventId,
+      });
+      replayed += 1;
     }
+    return replayed;
   },
 });
 
 /**
- * Deactivate a price (set active=false) by Stripe ID
+ * Process a queued webhook event by calling the app's processor action
  */
-export const deactivatePrice = mutation({
-  args: v.object({ stripePriceId: vStripePriceId }),
+export const dispatchWebhookEvent = internalAction({
+  args: { stripeEventId: vStripeEventId },
   handler: async (ctx, args) => {
-    const existing = await ctx.db
-      .query("prices")
-      .withIndex("stripePriceId", (q) =>
-        q.eq("stripePriceId", args.stripePriceId)
-      )
-      .first();
-    if (existing) {
-      await ctx.db.patch(existing._id, { active: false });
+    const attempt = await ctx.runMutation(
+      internal.lib.startWebhookEventAttempt,
+      { stripeEventId: args.stripeEventId }
+    );
+    if (!attempt) {
+      return;
+    }
+
+    try {
+      await ctx.runAction(attempt.processor as FunctionHandle<"action">, {
+        payload: attempt.payload,
+      });
+    } catch (err) {
+      await ctx.runMutation(internal.lib.retryWebhookEvent, {
+        stripeEventId: args.stripeEventId,
+        error: err instanceof Error ? err.message : String(err),
+        attempt: attempt.attempt,
+      });
+      return;
     }
+
+    await ctx.runMutation(api.lib.completeWebhookEvent, {
+      stripeEventId: args.stripeEventId,
+      attempt: attempt.attempt,
+    });
   },
 });
 
@@ -435,6 +2432,7 @@ export const syncProducts = action({
       apiVersion: "2025-10-29.clover",
     });
 
+    const syncedAt = Math.floor(Date.now() / 1000);
     const products = await stripe.products.list({
       active: true,
       limit: 100,
@@ -442,7 +2440,7 @@ export const syncProducts = action({
 
     for (const product of products.data) {
       // Upsert product
-      const productId = await ctx.runMutation(api.lib.upsertProduct, {
+      const { id: productId } = await ctx.runMutation(api.lib.upsertProduct, {
         stripeProductId: product.id,
         name: product.name,
         description: product.description || undefined,
@@ -451,14 +2449,12 @@ export const syncProducts = action({
         slug: undefined,
         created: product.created,
         updated: product.updated,
+        syncedAt,
         metadata: product.metadata,
       });
 
-      if (!productId) {
-        continue;
-      }
-
       // Fetch and upsert prices for this product
+      const pricesSyncedAt = Math.floor(Date.now() / 1000);
       const prices = await stripe.prices.list({
         product: product.id,
         limit: 100,
@@ -478,6 +2474,7 @@ export const syncProducts = action({
           recurringIntervalCount: price.recurring?.interval_count || undefined,
           slug: undefined,
           created: price.created,
+          syncedAt: pricesSyncedAt,
           metadata: price.metadata,
         });
       }
@@ -486,10 +2483,79 @@ export const syncProducts = action({
 });
 
 /**
- * Sync all customers from Stripe to Convex
+ * Sync coupons and promotion codes from Stripe
  * Can be called from the Convex dashboard
  */
-export const syncCustomers = action({
+export const syncCoupons = action({
+  args: {
+    stripeSecretKey: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const stripe = new Stripe(args.stripeSecretKey, {
+      apiVersion: "2025-10-29.clover",
+    });
+
+    const couponsSyncedAt = Math.floor(Date.now() / 1000);
+    for await (const coupon of stripe.coupons.list({
+      limit: 100,
+      expand: ["data.applies_to"],
+    })) {
+      await ctx.runMutation(api.lib.upsertCoupon, {
+        stripeCouponId: coupon.id,
+        name: coupon.name ?? undefined,
+        percentOff: coupon.percent_off ?? undefined,
+        amountOff: coupon.amount_off ?? undefined,
+        currency: coupon.currency ?? undefined,
+        duration: coupon.duration,
+        durationInMonths: coupon.duration_in_months ?? undefined,
+        appliesToProducts: coupon.applies_to?.products,
+        maxRedemptions: coupon.max_redemptions ?? undefined,
+        timesRedeemed: coupon.times_redeemed,
+        redeemBy: coupon.redeem_by ?? undefined,
+        valid: coupon.valid,
+        created: coupon.created,
+        syncedAt: couponsSyncedAt,
+        metadata: coupon.metadata ?? undefined,
+      });
+    }
+
+    const promotionCodesSyncedAt = Math.floor(Date.now() / 1000);
+    for await (const promotionCode of stripe.promotionCodes.list({
+      limit: 100,
+    })) {
+      const { coupon } = promotionCode.promotion;
+      if (!coupon) {
+        continue;
+      }
+      await ctx.runMutation(api.lib.upsertPromotionCode, {
+        stripePromotionCodeId: promotionCode.id,
+        code: promotionCode.code,
+        stripeCouponId: typeof coupon === "string" ? coupon : coupon.id,
+        active: promotionCode.active,
+        stripeCustomerId:
+          typeof promotionCode.customer === "string"
+            ? promotionCode.customer
+            : promotionCode.customer?.id,
+        maxRedemptions: promotionCode.max_redemptions ?? undefined,
+        timesRedeemed: promotionCode.times_redeemed,
+        expiresAt: promotionCode.expires_at ?? undefined,
+        firstTimeTransaction: promotionCode.restrictions.first_time_transaction,
+        minimumAmount: promotionCode.restrictions.minimum_amount ?? undefined,
+        minimumAmountCurrency:
+          promotionCode.restrictions.minimum_amount_currency ?? undefined,
+        created: promotionCode.created,
+        syncedAt: promotionCodesSyncedAt,
+        metadata: promotionCode.metadata ?? undefined,
+      });
+    }
+  },
+});
+
+/**
+ * Sync Stripe Entitlements features, product features and active entitlements
+ * Can be called from the Convex dashboard
+ */
+export const syncEntitlements = action({
   args: {
     stripeSecretKey: v.string(),
   },
@@ -498,10 +2564,76 @@ export const syncCustomers = action({
       apiVersion: "2025-10-29.clover",
     });
 
+    const featuresSyncedAt = Math.floor(Date.now() / 1000);
+    for await (const feature of stripe.entitlements.features.list({
+      limit: 100,
+    })) {
+      await ctx.runMutation(api.lib.upsertFeature, {
+        stripeFeatureId: feature.id,
+        name: feature.name,
+        lookupKey: feature.lookup_key,
+        active: feature.active,
+        syncedAt: featuresSyncedAt,
+        metadata: feature.metadata,
+      });
+    }
+
+    for await (const product of stripe.products.list({ limit: 100 })) {
+      const syncedAt = Math.floor(Date.now() / 1000);
+      const productFeatures = await stripe.products
+        .listFeatures(product.id, { limit: 100 })
+        .autoPagingToArray({ limit: 10_000 });
+      await ctx.runMutation(api.lib.replaceProductFeatures, {
+        stripeProductId: product.id,
+        productFeatures: productFeatures.map((productFeature) => ({
+          stripeProductFeatureId: productFeature.id,
+          stripeFeatureId: productFeature.entitlement_feature.id,
+          lookupKey: productFeature.entitlement_feature.lookup_key,
+        })),
+        syncedAt,
+      });
+    }
+
+    for await (const customer of stripe.customers.list({ limit: 100 })) {
+      if (customer.deleted || !customer.metadata?.userId) {
+        continue;
+      }
+      const syncedAt = Math.floor(Date.now() / 1000);
+      const entitlements = await stripe.entitlements.activeEntitlements
+        .list({ customer: customer.id, limit: 100 })
+        .autoPagingToArray({ limit: 10_000 });
+      await ctx.runMutation(api.lib.replaceActiveEntitlements, {
+        stripeCustomerId: customer.id,
+        entitlements: entitlements.map((entitlement) => ({
+          stripeEntitlementId: entitlement.id,
+          stripeFeatureId:
+            typeof entitlement.feature === "string"
+              ? entitlement.feature
+              : entitlement.feature.id,
+          lookupKey: entitlement.lookup_key,
+        })),
+        syncedAt,
+      });
+    }
+  },
+});
+
+/**
+ * Sync all customers from Stripe to Convex
+ * Can be called from the Convex dashboard
+ */
+export const syncCustomers = action({
+  args: vSyncArgs.fields,
+  handler: async (ctx, args) => {
+    const stripe = new Stripe(args.stripeSecretKey, {
+      apiVersion: "2025-10-29.clover",
+    });
+
     let hasMore = true;
     let startingAfter: string | undefined;
 
     while (hasMore) {
+      const syncedAt = Math.floor(Date.now() / 1000);
       const customers = await stripe.customers.list({
         limit: 100,
         starting_after: startingAfter,
@@ -517,14 +2649,22 @@ export const syncCustomers = action({
           continue;
         }
 
+        const defaultPaymentMethod =
+          customer.invoice_settings?.default_payment_method;
         await ctx.runMutation(api.lib.upsertCustomer, {
           stripeCustomerId: customer.id,
           userId,
           email: customer.email || "",
           name: customer.name || undefined,
           currency: customer.currency || undefined,
+          defaultPaymentMethodId:
+            typeof defaultPaymentMethod === "string"
+              ? defaultPaymentMethod
+              : defaultPaymentMethod?.id,
           created: customer.created,
+          syncedAt,
           metadata: customer.metadata,
+          onChange: args.onCustomerChanged,
         });
       }
 
@@ -541,9 +2681,7 @@ export const syncCustomers = action({
  * Can be called from the Convex dashboard
  */
 export const syncSubscriptions = action({
-  args: {
-    stripeSecretKey: v.string(),
-  },
+  args: vSyncArgs.fields,
   handler: async (ctx, args) => {
     const stripe = new Stripe(args.stripeSecretKey, {
       apiVersion: "2025-10-29.clover",
@@ -553,53 +2691,18 @@ export const syncSubscriptions = action({
     let startingAfter: string | undefined;
 
     while (hasMore) {
+      const syncedAt = Math.floor(Date.now() / 1000);
       const subscriptions = await stripe.subscriptions.list({
         limit: 100,
         starting_after: startingAfter,
+        expand: ["data.discounts"],
       });
 
       for (const subscription of subscriptions.data) {
-        const customer = await ctx.runQuery(api.lib.getCustomerByStripeId, {
-          stripeCustomerId: subscription.customer as string,
-        });
-
-        if (!customer) {
-          continue;
-        }
-
-        const price = subscription.items.data[0]?.price;
-        if (!price) {
-          continue;
-        }
-
-        const priceDoc = await ctx.runQuery(api.lib.getPriceByStripeId, {
-          stripePriceId: price.id,
-        });
-
-        const productSlug = priceDoc?.slug?.split("-")[0] ?? undefined;
-        const firstItem = subscription.items.data[0];
-        const currentPeriodStart = firstItem?.current_period_start ?? 0;
-        const currentPeriodEnd = firstItem?.current_period_end ?? 0;
-
-        await ctx.runMutation(api.lib.upsertSubscription, {
-          stripeSubscriptionId: subscription.id,
-          customerId: customer._id,
-          stripeCustomerId: subscription.customer as string,
-          userId: customer.userId,
-          status: subscription.status,
-          priceId: priceDoc?._id,
-          stripePriceId: price.id,
-          productSlug,
-          currency: subscription.currency,
-          currentPeriodStart,
-          currentPeriodEnd,
-          cancelAtPeriodEnd: subscription.cancel_at_period_end,
-          canceledAt: subscription.canceled_at || undefined,
-          endedAt: subscription.ended_at || undefined,
-          trialStart: subscription.trial_start || undefined,
-          trialEnd: subscription.trial_end || undefined,
-          created: subscription.created,
-          metadata: subscription.metadata || undefined,
+        await upsertStripeSubscription(ctx, mountedApi, subscription, {
+          syncedAt,
+          source: "sync",
+          onChange: args.onSubscriptionChanged,
         });
       }
 
@@ -628,48 +2731,14 @@ export const syncInvoices = action({
     let startingAfter: string | undefined;
 
     while (hasMore) {
+      const syncedAt = Math.floor(Date.now() / 1000);
       const invoices = await stripe.invoices.list({
         limit: 100,
         starting_after: startingAfter,
       });
 
       for (const invoice of invoices.data) {
-        const customer = await ctx.runQuery(api.lib.getCustomerByStripeId, {
-          stripeCustomerId: invoice.customer as string,
-        });
-
-        if (!customer) {
-          continue;
-        }
-
-        const subscriptionId: string | undefined = undefined;
-        const stripeSubscriptionId: string | undefined = undefined;
-
-        await ctx.runMutation(api.lib.upsertInvoice, {
-          stripeInvoiceId: invoice.id,
-          customerId: customer._id,
-          stripeCustomerId: invoice.customer as string,
-          userId: customer.userId,
-          subscriptionId,
-          stripeSubscriptionId,
-          status: invoice.status || "draft",
-          currency: invoice.currency,
-          amountDue: invoice.amount_due,
-          amountPaid: invoice.amount_paid,
-          amountRemaining: invoice.amount_remaining,
-          subtotal: invoice.subtotal,
-          total: invoice.total,
-          tax: undefined,
-          invoicePdf: invoice.invoice_pdf || undefined,
-          hostedInvoiceUrl: invoice.hosted_invoice_url || undefined,
-          billingReason: invoice.billing_reason || undefined,
-          periodStart: invoice.period_start,
-          periodEnd: invoice.period_end,
-          dueDate: invoice.due_date || undefined,
-          paidAt: invoice.status_transitions?.paid_at || undefined,
-          created: invoice.created,
-          metadata: invoice.metadata || undefined,
-        });
+        await upsertStripeInvoice(ctx, mountedApi, invoice, { syncedAt });
       }
 
       hasMore = invoices.has_more;
@@ -685,18 +2754,24 @@ export const syncInvoices = action({
  * Can be called from the Convex dashboard
  */
 export const syncAll = action({
-  args: {
-    stripeSecretKey: v.string(),
-  },
+  args: vSyncArgs.fields,
   handler: async (ctx, args) => {
     await ctx.runAction(api.lib.syncProducts, {
       stripeSecretKey: args.stripeSecretKey,
     });
+    await ctx.runAction(api.lib.syncCoupons, {
+      stripeSecretKey: args.stripeSecretKey,
+    });
     await ctx.runAction(api.lib.syncCustomers, {
       stripeSecretKey: args.stripeSecretKey,
+      onCustomerChanged: args.onCustomerChanged,
     });
     await ctx.runAction(api.lib.syncSubscriptions, {
       stripeSecretKey: args.stripeSecretKey,
+      onSubscriptionChanged: args.onSubscriptionChanged,
+    });
+    await ctx.runAction(api.lib.syncEntitlements, {
+      stripeSecretKey: args.stripeSecretKey,
     });
     await ctx.runAction(api.lib.syncInvoices, {
       stripeSecretKey: args.stripeSecretKey,
@@ -8,9 +8,23 @@ import { v } from "convex/values";
  * - customers: Stripe customer records linked to app users
  * - products: Stripe products synced from your catalog
  * - prices: Stripe prices associated with products
+ * - coupons: Stripe coupons
+ * - promotionCodes: Customer-facing codes that redeem a coupon
  * - subscriptions: Active and historical subscription records
+ * - subscriptionItems: Prices (base plan and add-ons) on each subscription
+ * - seatUpdates: Pending seat changes, debounced into one Stripe update
+ * - subscriptionEvents: Timeline of subscription status, price and cancellation changes
+ * - checkoutSessions: Checkout sessions started by users, and their outcome
  * - invoices: Invoice history for customers
+ * - upcomingInvoices: Cached preview of each subscription's next invoice
  * - paymentMethods: Stored payment methods per customer
+ * - features: Stripe Entitlements features
+ * - productFeatures: Features attached to each Stripe product
+ * - activeEntitlements: Features each customer is currently entitled to
+ * - usageCounters: Usage of plan limits per user
+ * - meterEvents: Queue of usage reported to Stripe Billing Meters
+ * - creditTransactions: Ledger of prepaid credit grants, debits and expirations
+ * - webhookEvents: Ledger of received Stripe webhook events
  */
 export const schema = defineSchema({
   /**
@@ -28,8 +42,14 @@ export const schema = defineSchema({
     name: v.optional(v.string()),
     // Default currency for this customer
     currency: v.optional(v.string()),
+    // Stripe payment method ID used by default for invoices
+    defaultPaymentMethodId: v.optional(v.string()),
+    // Stripe time (Unix timestamp) of the last active entitlements summary
+    entitlementsSyncedAt: v.optional(v.number()),
     // Stripe timestamps
     created: v.number(),
+    // Stripe time (Unix timestamp) of the event or API read that produced this row
+    syncedAt: v.optional(v.number()),
     // Custom metadata (Stripe.Metadata is Record<string, string>)
     metadata: v.optional(v.record(v.string(), v.string())),
   })
@@ -56,6 +76,8 @@ export const schema = defineSchema({
     // Stripe timestamps
     created: v.number(),
     updated: v.number(),
+    // Stripe time (Unix timestamp) of the event or API read that produced this row
+    syncedAt: v.optional(v.number()),
     // Custom metadata (Stripe.Metadata is Record<string, string>)
     metadata: v.optional(v.record(v.string(), v.string())),
   })
@@ -92,6 +114,8 @@ export const schema = defineSchema({
     slug: v.optional(v.string()),
     // Stripe timestamps
     created: v.number(),
+    // Stripe time (Unix timestamp) of the event or API read that produced this row
+    syncedAt: v.optional(v.number()),
     // Custom metadata (Stripe.Metadata is Record<string, string>)
     metadata: v.optional(v.record(v.string(), v.string())),
   })
@@ -102,6 +126,81 @@ export const schema = defineSchema({
     .index("productId_currency_type", ["productId", "currency", "type"])
     .index("productId_active", ["productId", "active"]),
 
+  /**
+   * Coupons table
+   * Stores Stripe coupons, including ones that are no longer redeemable
+   */
+  coupons: defineTable({
+    // Stripe coupon ID
+    stripeCouponId: v.string(),
+    // Name shown to customers
+    name: v.optional(v.string()),
+    // Percentage taken off (e.g., 20 for 20% off)
+    percentOff: v.optional(v.number()),
+    // Amount taken off in cents
+    amountOff: v.optional(v.number()),
+    // Currency of amountOff
+    currency: v.optional(v.string()),
+    // How long the discount lasts: "once", "repeating" or "forever"
+    duration: v.string(),
+    // Months a "repeating" discount lasts
+    durationInMonths: v.optional(v.number()),
+    // Stripe product IDs the coupon is limited to
+    appliesToProducts: v.optional(v.array(v.string())),
+    // Maximum number of redemptions
+    maxRedemptions: v.optional(v.number()),
+    // Number of redemptions so far
+    timesRedeemed: v.number(),
+    // Last time the coupon can be redeemed (Unix timestamp)
+    redeemBy: v.optional(v.number()),
+    // Whether the coupon can still be redeemed
+    valid: v.boolean(),
+    // Stripe timestamps
+    created: v.number(),
+    // Stripe time (Unix timestamp) of the event or API read that produced this row
+    syncedAt: v.optional(v.number()),
+    // Custom metadata (Stripe.Metadata is Record<string, string>)
+    metadata: v.optional(v.record(v.string(), v.string())),
+  }).index("stripeCouponId", ["stripeCouponId"]),
+
+  /**
+   * Promotion codes table
+   * Stores the customer-facing codes that redeem a coupon
+   */
+  promotionCodes: defineTable({
+    // Stripe promotion code ID
+    stripePromotionCodeId: v.string(),
+    // Code customers enter (e.g., "LAUNCH20")
+    code: v.string(),
+    // Stripe coupon ID the code redeems
+    stripeCouponId: v.string(),
+    // Whether the code is active
+    active: v.boolean(),
+    // Stripe customer ID the code is restricted to
+    stripeCustomerId: v.optional(v.string()),
+    // Maximum number of redemptions
+    maxRedemptions: v.optional(v.number()),
+    // Number of redemptions so far
+    timesRedeemed: v.number(),
+    // Expires at (Unix timestamp)
+    expiresAt: v.optional(v.number()),
+    // Only redeemable by customers without prior payments
+    firstTimeTransaction: v.boolean(),
+    // Minimum amount in cents for the code to apply
+    minimumAmount: v.optional(v.number()),
+    // Currency of minimumAmount
+    minimumAmountCurrency: v.optional(v.string()),
+    // Stripe timestamps
+    created: v.number(),
+    // Stripe time (Unix timestamp) of the event or API read that produced this row
+    syncedAt: v.optional(v.number()),
+    // Custom metadata (Stripe.Metadata is Record<string, string>)
+    metadata: v.optional(v.record(v.string(), v.string())),
+  })
+    .index("stripePromotionCodeId", ["stripePromotionCodeId"])
+    .index("code", ["code"])
+    .index("stripeCouponId", ["stripeCouponId"]),
+
   /**
    * Subscriptions table
    * Stores customer subscriptions
@@ -123,6 +222,8 @@ export const schema = defineSchema({
     stripePriceId: v.optional(v.string()),
     // Product slug if using configured products
     productSlug: v.optional(v.string()),
+    // Quantity of the base plan item (e.g., seats), as last confirmed by Stripe
+    quantity: v.optional(v.number()),
     // Currency
     currency: v.string(),
     // Current period start (Unix timestamp)
@@ -131,6 +232,30 @@ export const schema = defineSchema({
     currentPeriodEnd: v.number(),
     // Cancel at period end flag
     cancelAtPeriodEnd: v.boolean(),
+    // What happens to invoices while payment collection is paused
+    pauseBehavior: v.optional(
+      v.union(
+        v.literal("keep_as_draft"),
+        v.literal("mark_uncollectible"),
+        v.literal("void")
+      )
+    ),
+    // When paused payment collection resumes (Unix timestamp)
+    pauseResumesAt: v.optional(v.number()),
+    // Discounts applied to the subscription
+    discounts: v.optional(
+      v.array(
+        v.object({
+          stripeDiscountId: v.string(),
+          // Unknown when Stripe sends the discount unexpanded
+          stripeCouponId: v.optional(v.string()),
+          stripePromotionCodeId: v.optional(v.string()),
+          // When the discount started and ends (Unix timestamps)
+          start: v.optional(v.number()),
+          end: v.optional(v.number()),
+        })
+      )
+    ),
     // Canceled at (Unix timestamp)
     canceledAt: v.optional(v.number()),
     // Ended at (Unix timestamp)
@@ -141,6 +266,8 @@ export const schema = defineSchema({
     trialEnd: v.optional(v.number()),
     // Stripe timestamps
     created: v.number(),
+    // Stripe time (Unix timestamp) of the event or API read that produced this row
+    syncedAt: v.optional(v.number()),
     // Custom metadata (Stripe.Metadata is Record<string, string>)
     metadata: v.optional(v.record(v.string(), v.string())),
   })
@@ -150,6 +277,173 @@ export const schema = defineSchema({
     .index("userId_status", ["userId", "status"])
     .index("status", ["status"]),
 
+  /**
+   * Subscription items table
+   * One row per price on a subscription, including add-ons
+   */
+  subscriptionItems: defineTable({
+    // Stripe subscription item ID
+    stripeSubscriptionItemId: v.string(),
+    // Subscription ID (references subscriptions table)
+    subscriptionId: v.id("subscriptions"),
+    // Stripe subscription ID for reference
+    stripeSubscriptionId: v.string(),
+    // User ID for quick lookups
+    userId: v.string(),
+    // Price ID (references prices table)
+    priceId: v.optional(v.id("prices")),
+    // Stripe price ID for reference
+    stripePriceId: v.string(),
+    // Stripe product ID of the price
+    stripeProductId: v.string(),
+    // Product slug if using configured products
+    productSlug: v.optional(v.string()),
+    // Quantity (absent for metered prices)
+    quantity: v.optional(v.number()),
+    // Stripe timestamps
+    created: v.number(),
+    // Stripe time (Unix timestamp) of the event or API read that produced this row
+    syncedAt: v.optional(v.number()),
+    // Custom metadata (Stripe.Metadata is Record<string, string>)
+    metadata: v.optional(v.record(v.string(), v.string())),
+  })
+    .index("stripeSubscriptionItemId", ["stripeSubscriptionItemId"])
+    .index("stripeSubscriptionId", ["stripeSubscriptionId"])
+    .index("userId", ["userId"]),
+
+  /**
+   * Seat updates table
+   * Latest requested seat count per subscription until Stripe confirms it
+   */
+  seatUpdates: defineTable({
+    // Stripe subscription ID
+    stripeSubscriptionId: v.string(),
+    // User ID for quick lookups
+    userId: v.string(),
+    // Requested quantity
+    quantity: v.number(),
+    // Proration behavior of the Stripe update
+    prorationBehavior: v.union(
+      v.literal("create_prorations"),
+      v.literal("always_invoice"),
+      v.literal("none")
+    ),
+    // "pending" waits for the debounce delay, "applying" is being sent to Stripe,
+    // "failed" was rejected by Stripe
+    status: v.union(
+      v.literal("pending"),
+      v.literal("applying"),
+      v.literal("failed")
+    ),
+    // Quantity being sent to Stripe while "applying"
+    applyingQuantity: v.optional(v.number()),
+    // When an "applying" claim expires (ms)
+    leaseExpiresAt: v.optional(v.number()),
+    // Last error from Stripe
+    error: v.optional(v.string()),
+    // Function handle of the app action that sends the update to Stripe
+    updater: v.string(),
+    // Scheduled run of the updater, replaced by each new request
+    scheduledFunctionId: v.optional(v.id("_scheduled_functions")),
+    // Last request (ms)
+    updatedAt: v.number(),
+  })
+    .index("stripeSubscriptionId", ["stripeSubscriptionId"])
+    .index("userId", ["userId"]),
+
+  /**
+   * Subscription events table
+   * Audit timeline of status, price and cancellation changes per subscription
+   */
+  subscriptionEvents: defineTable({
+    // Subscription ID (references subscriptions table)
+    subscriptionId: v.id("subscriptions"),
+    // Stripe subscription ID for reference
+    stripeSubscriptionId: v.string(),
+    // User ID for quick lookups
+    userId: v.string(),
+    // What changed
+    type: v.union(
+      v.literal("created"),
+      v.literal("status_changed"),
+      v.literal("price_changed"),
+      v.literal("cancellation_changed"),
+      v.literal("ended")
+    ),
+    // Subscription status after the change
+    status: v.string(),
+    // Subscription status before the change
+    previousStatus: v.optional(v.string()),
+    // Stripe price ID after the change
+    stripePriceId: v.optional(v.string()),
+    // Stripe price ID before the change
+    previousStripePriceId: v.optional(v.string()),
+    // Cancel at period end flag after the change
+    cancelAtPeriodEnd: v.boolean(),
+    // Where the change came from: "webhook", "sync" or "api"
+    source: v.union(v.literal("webhook"), v.literal("sync"), v.literal("api")),
+    // Stripe event that produced the change
+    stripeEventId: v.optional(v.string()),
+    // When the change happened (Unix timestamp)
+    timestamp: v.number(),
+  })
+    .index("stripeSubscriptionId_timestamp", [
+      "stripeSubscriptionId",
+      "timestamp",
+    ])
+    .index("userId", ["userId"]),
+
+  /**
+   * Checkout sessions table
+   * Records each Checkout session and links it to the resulting subscription or payment
+   */
+  checkoutSessions: defineTable({
+    // Stripe Checkout session ID
+    stripeCheckoutSessionId: v.string(),
+    // User ID for quick lookups
+    userId: v.string(),
+    // Stripe customer ID for reference
+    stripeCustomerId: v.string(),
+    // Checkout mode: "subscription", "payment" or "setup"
+    mode: v.string(),
+    // Session status: "open", "complete" or "expired"
+    status: v.string(),
+    // "failed" when an asynchronous payment (e.g., a bank debit) fails
+    paymentStatus: v.union(
+      v.literal("paid"),
+      v.literal("unpaid"),
+      v.literal("no_payment_required"),
+      v.literal("failed")
+    ),
+    // Stripe price IDs, when the session was created by the component
+    priceIds: v.optional(v.array(v.string())),
+    // Total in cents
+    amountTotal: v.optional(v.number()),
+    // Currency
+    currency: v.optional(v.string()),
+    // Resulting subscription (subscription mode)
+    stripeSubscriptionId: v.optional(v.string()),
+    // Resulting payment (payment mode)
+    stripePaymentIntentId: v.optional(v.string()),
+    // Resulting invoice
+    stripeInvoiceId: v.optional(v.string()),
+    // client_reference_id passed to Checkout
+    clientReferenceId: v.optional(v.string()),
+    // When the session completed (Unix timestamp)
+    completedAt: v.optional(v.number()),
+    // When an open session expires (Unix timestamp)
+    expiresAt: v.number(),
+    // Stripe timestamps
+    created: v.number(),
+    // Stripe time (Unix timestamp) of the event or API read that produced this row
+    syncedAt: v.optional(v.number()),
+    // Custom metadata (Stripe.Metadata is Record<string, string>)
+    metadata: v.optional(v.record(v.string(), v.string())),
+  })
+    .index("stripeCheckoutSessionId", ["stripeCheckoutSessionId"])
+    .index("userId", ["userId"])
+    .index("stripeSubscriptionId", ["stripeSubscriptionId"]),
+
   /**
    * Invoices table
    * Stores customer invoice history
@@ -183,6 +477,17 @@ export const schema = defineSchema({
     total: v.number(),
     // Tax in cents
     tax: v.optional(v.number()),
+    // Total discount in cents
+    discount: v.optional(v.number()),
+    // Discounts applied to the invoice
+    discounts: v.optional(
+      v.array(
+        v.object({
+          stripeDiscountId: v.string(),
+          amount: v.number(),
+        })
+      )
+    ),
     // Invoice PDF URL
     invoicePdf: v.optional(v.string()),
     // Hosted invoice URL
@@ -199,6 +504,8 @@ export const schema = defineSchema({
     paidAt: v.optional(v.number()),
     // Stripe timestamps
     created: v.number(),
+    // Stripe time (Unix timestamp) of the event or API read that produced this row
+    syncedAt: v.optional(v.number()),
     // Custom metadata (Stripe.Metadata is Record<string, string>)
     metadata: v.optional(v.record(v.string(), v.string())),
   })
@@ -207,6 +514,288 @@ export const schema = defineSchema({
     .index("userId", ["userId"])
     .index("userId_status", ["userId", "status"])
     .index("subscriptionId", ["subscriptionId"]),
+
+  /**
+   * Upcoming invoices table
+   * Briefly cached preview of each subscription's next invoice
+   */
+  upcomingInvoices: defineTable({
+    // Stripe subscription ID
+    stripeSubscriptionId: v.string(),
+    // Stripe customer ID for reference
+    stripeCustomerId: v.string(),
+    // User ID for quick lookups
+    userId: v.string(),
+    // Currency
+    currency: v.string(),
+    // Subtotal in cents
+    subtotal: v.number(),
+    // Total discount in cents
+    discount: v.number(),
+    // Tax in cents
+    tax: v.number(),
+    // Total in cents
+    total: v.number(),
+    // Amount due in cents, after credit balance
+    amountDue: v.number(),
+    // Line items
+    lines: v.array(
+      v.object({
+        description: v.optional(v.string()),
+        amount: v.number(),
+        quantity: v.optional(v.number()),
+        stripePriceId: v.optional(v.string()),
+        proration: v.boolean(),
+        periodStart: v.number(),
+        periodEnd: v.number(),
+      })
+    ),
+    // Discounts applied to the invoice
+    discounts: v.array(
+      v.object({
+        stripeDiscountId: v.string(),
+        amount: v.number(),
+      })
+    ),
+    // Period start (Unix timestamp)
+    periodStart: v.number(),
+    // Period end (Unix timestamp)
+    periodEnd: v.number(),
+    // When Stripe will attempt payment (Unix timestamp)
+    nextPaymentAttempt: v.optional(v.number()),
+    // Stripe time (Unix timestamp) of the event or API read that produced this row
+    syncedAt: v.number(),
+    // When the preview was stored (ms)
+    fetchedAt: v.number(),
+  })
+    .index("stripeSubscriptionId", ["stripeSubscriptionId"])
+    .index("userId", ["userId"]),
+
+  /**
+   * Payment methods table
+   * Stores payment methods attached to customers
+   */
+  paymentMethods: defineTable({
+    // Stripe payment method ID
+    stripePaymentMethodId: v.string(),
+    // Customer ID (references customers table)
+    customerId: v.id("customers"),
+    // Stripe customer ID for reference
+    stripeCustomerId: v.string(),
+    // User ID for quick lookups
+    userId: v.string(),
+    // Payment method type (e.g., "card", "sepa_debit", "us_bank_account")
+    type: v.string(),
+    // Card brand (e.g., "visa", "mastercard")
+    brand: v.optional(v.string()),
+    // Last four digits of the card or account number
+    last4: v.optional(v.string()),
+    // Card expiry
+    expMonth: v.optional(v.number()),
+    expYear: v.optional(v.number()),
+    // Whether this is the customer's default payment method
+    isDefault: v.boolean(),
+    // Stripe timestamps
+    created: v.number(),
+    // Stripe time (Unix timestamp) of the event or API read that produced this row
+    syncedAt: v.optional(v.number()),
+    // Custom metadata (Stripe.Metadata is Record<string, string>)
+    metadata: v.optional(v.record(v.string(), v.string())),
+  })
+    .index("stripePaymentMethodId", ["stripePaymentMethodId"])
+    .index("stripeCustomerId", ["stripeCustomerId"])
+    .index("userId", ["userId"]),
+
+  /**
+   * Features table
+   * Stores features defined with Stripe Entitlements
+   */
+  features: defineTable({
+    // Stripe feature ID
+    stripeFeatureId: v.string(),
+    // Feature name
+    name: v.string(),
+    // Key used to check the feature in code (e.g., "export")
+    lookupKey: v.string(),
+    // Whether feature is active
+    active: v.boolean(),
+    // Stripe time (Unix timestamp) of the event or API read that produced this row
+    syncedAt: v.optional(v.number()),
+    // Custom metadata (Stripe.Metadata is Record<string, string>)
+    metadata: v.optional(v.record(v.string(), v.string())),
+  })
+    .index("stripeFeatureId", ["stripeFeatureId"])
+    .index("lookupKey", ["lookupKey"]),
+
+  /**
+   * Product features table
+   * Links Stripe products to the features they grant
+   */
+  productFeatures: defineTable({
+    // Stripe product feature ID
+    stripeProductFeatureId: v.string(),
+    // Stripe product ID
+    stripeProductId: v.string(),
+    // Stripe feature ID
+    stripeFeatureId: v.string(),
+    // Feature lookup key
+    lookupKey: v.string(),
+    // Stripe time (Unix timestamp) of the API read that produced this row
+    syncedAt: v.optional(v.number()),
+  })
+    .index("stripeProductFeatureId", ["stripeProductFeatureId"])
+    .index("stripeProductId", ["stripeProductId"]),
+
+  /**
+   * Active entitlements table
+   * Features each customer is currently entitled to, as computed by Stripe
+   */
+  activeEntitlements: defineTable({
+    // Stripe active entitlement ID
+    stripeEntitlementId: v.string(),
+    // Stripe customer ID
+    stripeCustomerId: v.string(),
+    // User ID for quick lookups
+    userId: v.string(),
+    // Stripe feature ID
+    stripeFeatureId: v.string(),
+    // Feature lookup key
+    lookupKey: v.string(),
+    // Stripe time (Unix timestamp) of the event or API read that produced this row
+    syncedAt: v.optional(v.number()),
+  })
+    .index("stripeCustomerId", ["stripeCustomerId"])
+    .index("userId", ["userId"])
+    .index("userId_lookupKey", ["userId", "lookupKey"]),
+
+  /**
+   * Usage counters table
+   * Tracks usage of each plan limit per user
+   */
+  usageCounters: defineTable({
+    // App's user ID
+    userId: v.string(),
+    // Limit name (e.g., "projects")
+    name: v.string(),
+    // Current usage
+    value: v.number(),
+    // Billing period start (Unix timestamp) the value belongs to, for limits that reset each period
+    periodStart: v.optional(v.number()),
+    // Last update (Unix timestamp in milliseconds)
+    updatedAt: v.number(),
+  }).index("userId_name", ["userId", "name"]),
+
+  /**
+   * Meter events table
+   * Durable queue of usage reported to Stripe Billing Meters
+   */
+  meterEvents: defineTable({
+    // App's user ID
+    userId: v.string(),
+    // Stripe customer ID the usage is billed to
+    stripeCustomerId: v.string(),
+    // Meter event name configured in Stripe
+    eventName: v.string(),
+    // Usage value
+    value: v.number(),
+    // Idempotency identifier sent to Stripe
+    identifier: v.string(),
+    // When the usage happened (Unix timestamp)
+    timestamp: v.number(),
+    // Delivery status: "pending", "sending", "sent" or "dead"
+    status: v.union(
+      v.literal("pending"),
+      v.literal("sending"),
+      v.literal("sent"),
+      v.literal("dead")
+    ),
+    // Number of delivery attempts
+    attempts: v.number(),
+    // Last delivery error
+    error: v.optional(v.string()),
+    // Function handle of the app action that sends queued events to Stripe
+    flusher: v.string(),
+    // When the event is next due, or when a "sending" claim expires (ms)
+    nextAttemptAt: v.number(),
+    // When Stripe accepted the event (ms)
+    sentAt: v.optional(v.number()),
+  })
+    .index("identifier", ["identifier"])
+    .index("status_nextAttemptAt", ["status", "nextAttemptAt"])
+    .index("userId_eventName_timestamp", ["userId", "eventName", "timestamp"]),
+
+  /**
+   * Credit transactions table
+   * Ledger of prepaid credits; the balance is the sum of unexpired grants' remaining credits
+   */
+  creditTransactions: defineTable({
+    // App's user ID
+    userId: v.string(),
+    // "grant" adds credits, "debit" spends them, "expiration" removes unspent credits
+    type: v.union(
+      v.literal("grant"),
+      v.literal("debit"),
+      v.literal("expiration")
+    ),
+    // Signed change to the balance (negative for debits and expirations)
+    amount: v.number(),
+    // Why the transaction happened (e.g., "purchase:credits_100", "api_call")
+    reason: v.string(),
+    // Idempotency key; a transaction with the same key is only recorded once
+    sourceId: v.optional(v.string()),
+    // Credits of a grant not yet spent or expired
+    remaining: v.optional(v.number()),
+    // When a grant's unspent credits expire (ms)
+    expiresAt: v.optional(v.number()),
+    // Grant an expiration belongs to
+    grantId: v.optional(v.id("creditTransactions")),
+    // When the transaction was recorded (ms)
+    createdAt: v.number(),
+  })
+    .index("userId", ["userId"])
+    .index("userId_type", ["userId", "type"])
+    .index("sourceId", ["sourceId"]),
+
+  /**
+   * Webhook events table
+   * Ledger of received Stripe events, used to process each event only once
+   */
+  webhookEvents: defineTable({
+    // Stripe event ID
+    stripeEventId: v.string(),
+    // Stripe event type (e.g., "invoice.paid")
+    type: v.string(),
+    // Name of the webhook endpoint that received the event
+    endpoint: v.optional(v.string()),
+    // Processing status ("dead" events exhausted their retries)
+    status: v.union(
+      v.literal("pending"),
+      v.literal("processing"),
+      v.literal("processed"),
+      v.literal("failed"),
+      v.literal("dead")
+    ),
+    // Number of processing attempts
+    attempts: v.number(),
+    // Last processing error message
+    error: v.optional(v.string()),
+    // Raw event payload, stored for asynchronous processing and replay
+    payload: v.optional(v.string()),
+    // Function handle of the app action that processes the event
+    processor: v.optional(v.string()),
+    // Received at (milliseconds since epoch)
+    receivedAt: v.number(),
+    // Last processing attempt started at (milliseconds since epoch)
+    lastAttemptAt: v.optional(v.number()),
+    // Next scheduled processing attempt (milliseconds since epoch)
+    nextAttemptAt: v.optional(v.number()),
+    // Processed at (milliseconds since epoch)
+    processedAt: v.optional(v.number()),
+    // Stripe timestamps
+    created: v.number(),
+  })
+    .index("stripeEventId", ["stripeEventId"])
+    .index("status", ["status"]),
 });
 
 export default schema;
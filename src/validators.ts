@@ -1,4 +1,4 @@
-import { v } from "convex/values";
+import { type Infer, v } from "convex/values";
 import { typedV } from "convex-helpers/validators";
 import type { Doc } from "./component/_generated/dataModel.js";
 import schema from "./component/schema.js";
@@ -18,7 +18,18 @@ export const vStripeProductId = v.string();
 export const vStripePriceId = v.string();
 export const vStripeSubscriptionId = v.string();
 export const vStripeInvoiceId = v.string();
+export const vStripeEventId = v.string();
+export const vStripePaymentMethodId = v.string();
+export const vStripeCheckoutSessionId = v.string();
 export const vMetadata = v.optional(v.record(v.string(), v.string()));
+export const vSyncedAt = v.optional(v.number());
+export const vWebhookEventStatus =
+  schema.tables.webhookEvents.validator.fields.status;
+export const vProrationBehavior =
+  schema.tables.seatUpdates.validator.fields.prorationBehavior;
+
+// Subscription statuses that make a subscription the user's current plan
+export const CURRENT_SUBSCRIPTION_STATUSES = ["active", "trialing"];
 
 // Mutation argument validators
 export const vUpsertCustomerArgs = v.object({
@@ -27,7 +38,9 @@ export const vUpsertCustomerArgs = v.object({
   email: v.string(),
   name: v.optional(v.string()),
   currency: v.optional(v.string()),
+  defaultPaymentMethodId: v.optional(v.string()),
   created: v.number(),
+  syncedAt: vSyncedAt,
   metadata: vMetadata,
 });
 
@@ -40,6 +53,7 @@ export const vUpsertProductArgs = v.object({
   slug: v.optional(v.string()),
   created: v.number(),
   updated: v.number(),
+  syncedAt: vSyncedAt,
   metadata: vMetadata,
 });
 
@@ -56,6 +70,42 @@ export const vUpsertPriceArgs = v.object({
   recurringIntervalCount: v.optional(v.number()),
   slug: v.optional(v.string()),
   created: v.number(),
+  syncedAt: vSyncedAt,
+  metadata: vMetadata,
+});
+
+export const vUpsertCouponArgs = v.object({
+  stripeCouponId: v.string(),
+  name: v.optional(v.string()),
+  percentOff: v.optional(v.number()),
+  amountOff: v.optional(v.number()),
+  currency: v.optional(v.string()),
+  duration: v.string(),
+  durationInMonths: v.optional(v.number()),
+  appliesToProducts: v.optional(v.array(v.string())),
+  maxRedemptions: v.optional(v.number()),
+  timesRedeemed: v.number(),
+  redeemBy: v.optional(v.number()),
+  valid: v.boolean(),
+  created: v.number(),
+  syncedAt: vSyncedAt,
+  metadata: vMetadata,
+});
+
+export const vUpsertPromotionCodeArgs = v.object({
+  stripePromotionCodeId: v.string(),
+  code: v.string(),
+  stripeCouponId: v.string(),
+  active: v.boolean(),
+  stripeCustomerId: v.optional(v.string()),
+  maxRedemptions: v.optional(v.number()),
+  timesRedeemed: v.number(),
+  expiresAt: v.optional(v.number()),
+  firstTimeTransaction: v.boolean(),
+  minimumAmount: v.optional(v.number()),
+  minimumAmountCurrency: v.optional(v.string()),
+  created: v.number(),
+  syncedAt: vSyncedAt,
   metadata: vMetadata,
 });
 
@@ -68,15 +118,51 @@ export const vUpsertSubscriptionArgs = v.object({
   priceId: v.optional(vConvexPriceId),
   stripePriceId: v.optional(v.string()),
   productSlug: v.optional(v.string()),
+  quantity: v.optional(v.number()),
   currency: v.string(),
   currentPeriodStart: v.number(),
   currentPeriodEnd: v.number(),
   cancelAtPeriodEnd: v.boolean(),
+  pauseBehavior: schema.tables.subscriptions.validator.fields.pauseBehavior,
+  pauseResumesAt: v.optional(v.number()),
+  discounts: schema.tables.subscriptions.validator.fields.discounts,
   canceledAt: v.optional(v.number()),
   endedAt: v.optional(v.number()),
   trialStart: v.optional(v.number()),
   trialEnd: v.optional(v.number()),
   created: v.number(),
+  syncedAt: vSyncedAt,
+  metadata: vMetadata,
+});
+
+// Price and product IDs are resolved to stored rows by the mutation
+export const vSubscriptionItemArgs = v.object({
+  stripeSubscriptionItemId: v.string(),
+  stripePriceId: v.string(),
+  stripeProductId: v.string(),
+  quantity: v.optional(v.number()),
+  created: v.number(),
+  metadata: vMetadata,
+});
+
+export const vUpsertCheckoutSessionArgs = v.object({
+  stripeCheckoutSessionId: vStripeCheckoutSessionId,
+  userId: v.string(),
+  stripeCustomerId: v.string(),
+  mode: v.string(),
+  status: v.string(),
+  paymentStatus: schema.tables.checkoutSessions.validator.fields.paymentStatus,
+  // Omit to keep the stored price IDs
+  priceIds: v.optional(v.array(v.string())),
+  amountTotal: v.optional(v.number()),
+  currency: v.optional(v.string()),
+  stripeSubscriptionId: v.optional(v.string()),
+  stripePaymentIntentId: v.optional(v.string()),
+  stripeInvoiceId: v.optional(v.string()),
+  clientReferenceId: v.optional(v.string()),
+  expiresAt: v.number(),
+  created: v.number(),
+  syncedAt: vSyncedAt,
   metadata: vMetadata,
 });
 
@@ -95,6 +181,8 @@ export const vUpsertInvoiceArgs = v.object({
   subtotal: v.number(),
   total: v.number(),
   tax: v.optional(v.number()),
+  discount: v.optional(v.number()),
+  discounts: schema.tables.invoices.validator.fields.discounts,
   invoicePdf: v.optional(v.string()),
   hostedInvoiceUrl: v.optional(v.string()),
   billingReason: v.optional(v.string()),
@@ -103,17 +191,251 @@ export const vUpsertInvoiceArgs = v.object({
   dueDate: v.optional(v.number()),
   paidAt: v.optional(v.number()),
   created: v.number(),
+  syncedAt: vSyncedAt,
   metadata: vMetadata,
 });
 
-export const vDeleteSubscriptionArgs = v.object({
+export const vUpsertPaymentMethodArgs = v.object({
+  stripePaymentMethodId: v.string(),
+  customerId: vConvexCustomerId,
+  stripeCustomerId: v.string(),
+  userId: v.string(),
+  type: v.string(),
+  brand: v.optional(v.string()),
+  last4: v.optional(v.string()),
+  expMonth: v.optional(v.number()),
+  expYear: v.optional(v.number()),
+  created: v.number(),
+  syncedAt: vSyncedAt,
+  metadata: vMetadata,
+});
+
+export const vDeletePaymentMethodArgs = v.object({
+  stripePaymentMethodId: v.string(),
+  syncedAt: vSyncedAt,
+});
+
+export const vUpsertFeatureArgs = v.object({
+  stripeFeatureId: v.string(),
+  name: v.string(),
+  lookupKey: v.string(),
+  active: v.boolean(),
+  syncedAt: vSyncedAt,
+  metadata: vMetadata,
+});
+
+export const vReplaceProductFeaturesArgs = v.object({
+  stripeProductId: v.string(),
+  productFeatures: v.array(
+    v.object({
+      stripeProductFeatureId: v.string(),
+      stripeFeatureId: v.string(),
+      lookupKey: v.string(),
+    })
+  ),
+  syncedAt: vSyncedAt,
+});
+
+export const vReplaceActiveEntitlementsArgs = v.object({
+  stripeCustomerId: v.string(),
+  entitlements: v.array(
+    v.object({
+      stripeEntitlementId: v.string(),
+      stripeFeatureId: v.string(),
+      lookupKey: v.string(),
+    })
+  ),
+  syncedAt: vSyncedAt,
+});
+
+export const vIncrementUsageCounterArgs = v.object({
+  userId: v.string(),
+  name: v.string(),
+  amount: v.number(),
+  // Increments that would exceed the maximum are rejected; omit for unlimited
+  max: v.optional(v.number()),
+  // Resets the counter when it belongs to an earlier period
+  periodStart: v.optional(v.number()),
+});
+
+export const vRecordMeterEventArgs = v.object({
+  userId: v.string(),
+  eventName: v.string(),
+  value: v.number(),
+  identifier: v.string(),
+  timestamp: v.number(),
+  flusher: v.string(),
+});
+
+export const vSettleMeterEventsArgs = v.object({
+  sent: v.array(v.string()),
+  failed: v.array(v.object({ identifier: v.string(), error: v.string() })),
+});
+
+export const vMeterUsageArgs = v.object({
+  userId: v.string(),
+  eventName: v.string(),
+  since: v.number(),
+});
+
+export const vRequestSeatUpdateArgs = v.object({
   stripeSubscriptionId: v.string(),
+  quantity: v.number(),
+  prorationBehavior: vProrationBehavior,
+  updater: v.string(),
+});
+
+export const vSettleSeatUpdateArgs = v.object({
+  stripeSubscriptionId: v.string(),
+  quantity: v.number(),
+  // Omit when Stripe accepted the update
+  error: v.optional(v.string()),
+});
+
+export const vUpsertUpcomingInvoiceArgs = v.object({
+  stripeSubscriptionId: v.string(),
+  stripeCustomerId: v.string(),
+  userId: v.string(),
+  currency: v.string(),
+  subtotal: v.number(),
+  discount: v.number(),
+  tax: v.number(),
+  total: v.number(),
+  amountDue: v.number(),
+  lines: schema.tables.upcomingInvoices.validator.fields.lines,
+  discounts: schema.tables.upcomingInvoices.validator.fields.discounts,
+  periodStart: v.number(),
+  periodEnd: v.number(),
+  nextPaymentAttempt: v.optional(v.number()),
+  syncedAt: v.number(),
+});
+
+export const vGrantCreditsArgs = v.object({
+  userId: v.string(),
+  amount: v.number(),
+  reason: v.string(),
+  // Grants with the same source ID are only applied once
+  sourceId: v.optional(v.string()),
+  // When the unspent credits expire (ms); omit for credits that never expire
+  expiresAt: v.optional(v.number()),
+});
+
+export const vSpendCreditsArgs = v.object({
+  userId: v.string(),
+  amount: v.number(),
+  reason: v.string(),
+  // Debits with the same source ID are only applied once
+  sourceId: v.optional(v.string()),
+});
+
+export const vListCreditTransactionsArgs = v.object({
+  limit: v.optional(v.number()),
+});
+
+export const vDeactivateProductArgs = v.object({
+  stripeProductId: v.string(),
+  syncedAt: vSyncedAt,
+});
+
+export const vDeactivatePriceArgs = v.object({
+  stripePriceId: v.string(),
+  syncedAt: vSyncedAt,
+});
+
+export const vSubscriptionEventSource =
+  schema.tables.subscriptionEvents.validator.fields.source;
+
+// Where a subscription write came from, recorded in the subscription timeline
+export const vSubscriptionWriteSource = v.object({
+  source: v.optional(vSubscriptionEventSource),
+  stripeEventId: v.optional(v.string()),
+});
+
+export const vEndSubscriptionArgs = v.object({
+  stripeSubscriptionId: v.string(),
+  status: v.optional(v.string()),
+  endedAt: v.optional(v.number()),
+  syncedAt: vSyncedAt,
 });
 
 export const vDeleteCustomerArgs = v.object({
   stripeCustomerId: v.string(),
 });
 
+// Function handles of app mutations called inside component mutations
+export const vCallbackHandle = v.optional(v.string());
+
+export const vSyncArgs = v.object({
+  stripeSecretKey: v.string(),
+  onCustomerChanged: vCallbackHandle,
+  onSubscriptionChanged: vCallbackHandle,
+});
+
+// Transactional callback argument validators
+// Use these as the args of the app mutations passed to `mutationCallbacks`
+export const vChangeOperation = v.union(
+  v.literal("created"),
+  v.literal("updated"),
+  v.literal("deleted")
+);
+
+export const vSubscriptionChange = v.object({
+  operation: vChangeOperation,
+  userId: v.string(),
+  stripeSubscriptionId: v.string(),
+  stripeCustomerId: v.string(),
+  status: v.string(),
+  stripePriceId: v.optional(v.string()),
+  productSlug: v.optional(v.string()),
+  currentPeriodStart: v.number(),
+  currentPeriodEnd: v.number(),
+  cancelAtPeriodEnd: v.boolean(),
+  previousStatus: v.optional(v.string()),
+  previousProductSlug: v.optional(v.string()),
+});
+
+export const vCustomerChange = v.object({
+  operation: vChangeOperation,
+  userId: v.string(),
+  stripeCustomerId: v.string(),
+  email: v.string(),
+  name: v.optional(v.string()),
+});
+
+export const vClaimWebhookEventArgs = v.object({
+  stripeEventId: v.string(),
+  type: v.string(),
+  endpoint: v.optional(v.string()),
+  created: v.number(),
+});
+
+export const vEnqueueWebhookEventArgs = v.object({
+  stripeEventId: v.string(),
+  type: v.string(),
+  endpoint: v.optional(v.string()),
+  created: v.number(),
+  payload: v.string(),
+  processor: v.string(),
+});
+
+export const vListWebhookEventsArgs = v.object({
+  status: v.optional(vWebhookEventStatus),
+  limit: v.optional(v.number()),
+});
+
+export const vProcessWebhookEventArgs = v.object({
+  payload: v.string(),
+});
+
+export const vReplayWebhookEventsArgs = v.object({
+  stripeEventId: v.optional(v.string()),
+});
+
+export const vFailWebhookEventArgs = v.object({
+  stripeEventId: v.string(),
+  error: v.string(),
+});
+
 // Public API argument validators
 export const vListUserInvoicesArgs = v.object({
   limit: v.optional(v.number()),
@@ -121,9 +443,45 @@ export const vListUserInvoicesArgs = v.object({
 
 export const vGenerateCheckoutLinkArgs = v.object({
   priceIds: v.array(v.string()),
-  successUrl: v.string(),
-  cancelUrl: v.string(),
-  mode: v.optional(v.union(v.literal("subscription"), v.literal("payment"))),
+  // Quantity per price ID (e.g., seats); prices not listed get a quantity of 1
+  quantities: v.optional(v.record(v.string(), v.number())),
+  // Required for the hosted page
+  successUrl: v.optional(v.string()),
+  cancelUrl: v.optional(v.string()),
+  // Required for the embedded form; may include {CHECKOUT_SESSION_ID}
+  returnUrl: v.optional(v.string()),
+  uiMode: v.optional(v.union(v.literal("hosted"), v.literal("embedded"))),
+  mode: v.optional(
+    v.union(v.literal("subscription"), v.literal("payment"), v.literal("setup"))
+  ),
+  // Currency of the payment methods to collect in setup mode
+  currency: v.optional(v.string()),
+  // Code to apply; cannot be combined with allowPromotionCodes
+  promotionCode: v.optional(v.string()),
+  // Let the customer enter a code on the Checkout page
+  allowPromotionCodes: v.optional(v.boolean()),
+  // Metadata on the Checkout session
+  metadata: vMetadata,
+  // Metadata on the subscription created in subscription mode
+  subscriptionMetadata: vMetadata,
+  clientReferenceId: v.optional(v.string()),
+  automaticTax: v.optional(v.boolean()),
+  billingAddressCollection: v.optional(
+    v.union(v.literal("auto"), v.literal("required"))
+  ),
+  // Two-letter country codes to collect a shipping address for
+  shippingAddressCountries: v.optional(v.array(v.string())),
+  taxIdCollection: v.optional(v.boolean()),
+  // Checkout locale (e.g., "auto", "fr")
+  locale: v.optional(v.string()),
+  consentCollection: v.optional(
+    v.object({
+      promotions: v.optional(v.union(v.literal("auto"), v.literal("none"))),
+      termsOfService: v.optional(
+        v.union(v.literal("none"), v.literal("required"))
+      ),
+    })
+  ),
 });
 
 export const vGenerateBillingPortalLinkArgs = v.object({
@@ -134,5 +492,101 @@ export const vCancelSubscriptionArgs = v.object({
   immediate: v.optional(v.boolean()),
 });
 
+export const vPauseSubscriptionArgs = v.object({
+  behavior: schema.tables.subscriptions.validator.fields.pauseBehavior,
+  // Unix timestamp; omit to stay paused until unpaused
+  resumesAt: v.optional(v.number()),
+});
+
+export const vStartTrialArgs = v.object({
+  productSlug: v.optional(v.string()),
+  priceId: v.optional(v.string()),
+});
+
+export const vExtendTrialArgs = v.object({
+  userId: v.string(),
+  days: v.number(),
+});
+
+export const vApplyPromotionCodeArgs = v.object({
+  code: v.string(),
+});
+
+export const vPreviewPlanChangeArgs = v.object({
+  // A configured product slug, or a Stripe price of a configured product
+  productSlug: v.optional(v.string()),
+  priceId: v.optional(vStripePriceId),
+  at: v.optional(v.union(v.literal("now"), v.literal("period_end"))),
+});
+
+export const vChangePlanArgs = v.object({
+  ...vPreviewPlanChangeArgs.fields,
+  // Proration date returned by previewPlanChange
+  prorationDate: v.optional(v.number()),
+});
+
+export const vUpdateSeatsArgs = v.object({
+  quantity: v.number(),
+});
+
+export const vAddSubscriptionItemArgs = v.object({
+  // A price of a configured product with `addOn: true`
+  priceId: vStripePriceId,
+  quantity: v.optional(v.number()),
+});
+
+export const vRemoveSubscriptionItemArgs = v.object({
+  subscriptionItemId: v.string(),
+});
+
+export const vListSubscriptionItemsArgs = v.object({
+  stripeSubscriptionId: v.optional(vStripeSubscriptionId),
+});
+
+export const vCreateSetupIntentArgs = v.object({
+  usage: v.optional(v.union(v.literal("off_session"), v.literal("on_session"))),
+});
+
+export const vHasFeatureArgs = v.object({
+  feature: v.string(),
+});
+
+export const vCheckLimitArgs = v.object({
+  limit: v.string(),
+  amount: v.optional(v.number()),
+});
+
+export const vGetCurrentPeriodUsageArgs = v.object({
+  meter: v.string(),
+});
+
+export const vPaymentMethodArgs = v.object({
+  paymentMethodId: vStripePaymentMethodId,
+});
+
+export const vCheckoutSessionArgs = v.object({
+  sessionId: vStripeCheckoutSessionId,
+});
+
 // Type exports - use Doc types from dataModel for proper Id types
 export type StripeCustomer = Doc<"customers">;
+export type WebhookEvent = Doc<"webhookEvents">;
+export type SubscriptionEvent = Doc<"subscriptionEvents">;
+export type SubscriptionItem = Doc<"subscriptionItems">;
+export type CheckoutSession = Doc<"checkoutSessions">;
+export type Coupon = Doc<"coupons">;
+export type PromotionCode = Doc<"promotionCodes">;
+export type SeatUpdate = Doc<"seatUpdates">;
+export type UpcomingInvoice = Doc<"upcomingInvoices">;
+export type PaymentMethod = Doc<"paymentMethods">;
+export type ActiveEntitlement = Doc<"activeEntitlements">;
+export type UsageCounter = Doc<"usageCounters">;
+export type MeterEvent = Doc<"meterEvents">;
+export type CreditTransaction = Doc<"creditTransactions">;
+export type SubscriptionChange = Infer<typeof vSubscriptionChange>;
+export type CustomerChange = Infer<typeof vCustomerChange>;
+export type CheckoutOptions = Infer<typeof vGenerateCheckoutLinkArgs> & {
+  // Free trial in subscription mode; defaults to the product's `trialDays`
+  // Server-only: set it from the `checkoutOptions` hook or server code
+  trialDays?: number;
+};